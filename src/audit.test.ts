@@ -0,0 +1,73 @@
+/**
+ * Tests for the audit log
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AuditEntry, AuditLog, redact } from "./audit.js";
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: "2026-01-01T10:00:00.000Z",
+    tool: "infomaniak_list_domains",
+    arguments: { account_id: 1 },
+    outcome: "success",
+    duration_ms: 12,
+    upstream_status: 200,
+    ...overrides,
+  };
+}
+
+describe("redact", () => {
+  it("should mask passwords and tokens at any depth", () => {
+    expect(
+      redact({
+        mailbox_name: "john",
+        password: "secret123",
+        body: { ftp: { password: "hunter22" }, api_token: "abc" },
+      }),
+    ).toEqual({
+      mailbox_name: "john",
+      password: "***",
+      body: { ftp: { password: "***" }, api_token: "***" },
+    });
+  });
+});
+
+describe("AuditLog", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("should append JSON lines to a file and query them", () => {
+    dir = mkdtempSync(join(tmpdir(), "infomaniak-mcp-"));
+    const file = join(dir, "audit.jsonl");
+    const audit = new AuditLog(file);
+
+    audit.record(entry());
+    audit.record(entry({ timestamp: "2026-01-02T10:00:00.000Z", tool: "infomaniak_delete_site", outcome: "error" }));
+
+    expect(readFileSync(file, "utf-8").trim().split("\n")).toHaveLength(2);
+    expect(audit.query({ outcome: "error" }).map((e) => e.tool)).toEqual(["infomaniak_delete_site"]);
+    expect(audit.query({ since: "2026-01-02T00:00:00Z" })).toHaveLength(1);
+    expect(audit.query().map((e) => e.tool)).toEqual(["infomaniak_delete_site", "infomaniak_list_domains"]);
+  });
+
+  it("should write to stderr and keep recent entries in memory", () => {
+    const write = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const audit = new AuditLog("stderr");
+
+    audit.record(entry({ session_id: "s1" }));
+    audit.record(entry({ session_id: "s2" }));
+
+    expect(write).toHaveBeenCalledWith(`${JSON.stringify(entry({ session_id: "s1" }))}\n`);
+    expect(audit.query({ session_id: "s2" })).toHaveLength(1);
+    expect(audit.query({ limit: 1 })[0].session_id).toBe("s2");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Audit Log
+ *
+ * Records every tool invocation as a JSON line, to a file or to stderr:
+ * timestamp, session, tool, redacted arguments, outcome, duration and the
+ * HTTP status of the last upstream API response.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from "fs";
+
+export type AuditOutcome = "success" | "error" | "dry_run" | "cancelled";
+
+export interface AuditEntry {
+  timestamp: string;
+  /** MCP session id, set on the HTTP transport */
+  session_id?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+  /** Machine-readable code of the error, e.g. `auth_error` */
+  error_code?: string;
+  duration_ms: number;
+  upstream_status?: number;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  session_id?: string;
+  outcome?: AuditOutcome;
+  /** ISO 8601 timestamp; only entries recorded at or after it are returned */
+  since?: string;
+  /** Maximum number of entries, most recent first (default: 50) */
+  limit?: number;
+}
+
+const REDACTED = "***";
+const SECRET_KEY = /pass(word)?|secret|token/i;
+
+/** Entries kept in memory when logging to stderr */
+const MAX_BUFFERED_ENTRIES = 1000;
+
+/**
+ * Copy of the arguments with secrets (passwords, tokens) masked, at any depth
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SECRET_KEY.test(key) ? REDACTED : redact(field)]),
+    );
+  }
+  return value;
+}
+
+export class AuditLog {
+  private readonly buffer: AuditEntry[] = [];
+
+  /**
+   * @param destination - `stderr`, or the path of the JSON Lines file to append to
+   */
+  constructor(readonly destination: string) {}
+
+  record(entry: AuditEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    if (this.destination === "stderr") {
+      process.stderr.write(line);
+      this.buffer.push(entry);
+      if (this.buffer.length > MAX_BUFFERED_ENTRIES) this.buffer.shift();
+    } else {
+      appendFileSync(this.destination, line);
+    }
+  }
+
+  /**
+   * Search recorded entries, most recent first
+   */
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    return this.entries()
+      .filter((entry) => !filter.tool || entry.tool === filter.tool)
+      .filter((entry) => !filter.session_id || entry.session_id === filter.session_id)
+      .filter((entry) => !filter.outcome || entry.outcome === filter.outcome)
+      .filter((entry) => since === undefined || Date.parse(entry.timestamp) >= since)
+      .reverse()
+      .slice(0, filter.limit ?? 50);
+  }
+
+  private entries(): AuditEntry[] {
+    if (this.destination === "stderr") return [...this.buffer];
+    if (!existsSync(this.destination)) return [];
+
+    return readFileSync(this.destination, "utf-8")
+      .split("\n")
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          // Skip lines truncated by a crash
+          return [];
+        }
+      });
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for the response cache
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ResponseCache, parseCacheTtls } from './cache.js';
+
+const URL = 'https://api.infomaniak.com/1/domain/example.com/dns/record';
+const PATH = '/1/domain/example.com/dns/record';
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pick the TTL of the resource type', () => {
+    const cache = new ResponseCache({ dns: 30 });
+
+    expect(cache.ttlOf(PATH)).toBe(30);
+    expect(cache.ttlOf('/1/domain/account/1')).toBe(300);
+    expect(cache.ttlOf('/1/ping')).toBe(0);
+  });
+
+  it('should count hits and misses and expire entries', () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ dns: 60 });
+
+    expect(cache.get(URL, PATH)).toBeUndefined();
+    cache.set(URL, PATH, { data: [] });
+    expect(cache.get(URL, PATH)).toEqual({ data: [] });
+    vi.advanceTimersByTime(61_000);
+    expect(cache.get(URL, PATH)).toBeUndefined();
+
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 2, entries: 1 });
+  });
+
+  it('should keep validators of stale entries for conditional requests', () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache();
+    cache.set(URL, PATH, { data: [] }, new Headers({ ETag: '"v1"' }));
+    vi.advanceTimersByTime(120_000);
+
+    expect(cache.validators(URL)).toEqual({ 'If-None-Match': '"v1"' });
+    expect(cache.revalidate(URL)).toEqual({ data: [] });
+    expect(cache.get(URL, PATH)).toEqual({ data: [] });
+  });
+
+  it('should invalidate the changed resource and the lists containing it', () => {
+    const cache = new ResponseCache();
+    const base = 'https://api.infomaniak.com';
+    cache.set(URL, PATH, { data: [] });
+    cache.set(`${base}/1/mail?account_id=1`, '/1/mail', { data: [] });
+    cache.set(`${base}/1/mail/7/mailbox/2`, '/1/mail/7/mailbox/2', { data: {} });
+    cache.set(`${base}/1/mail/8/mailbox`, '/1/mail/8/mailbox', { data: [] });
+
+    cache.invalidate('/1/mail/7/mailbox/2/alias/info%40example.com');
+
+    expect(cache.get(`${base}/1/mail/7/mailbox/2`, '/1/mail/7/mailbox/2')).toBeUndefined();
+    expect(cache.get(`${base}/1/mail?account_id=1`, '/1/mail')).toBeUndefined();
+    expect(cache.get(`${base}/1/mail/8/mailbox`, '/1/mail/8/mailbox')).toBeDefined();
+    expect(cache.get(URL, PATH)).toBeDefined();
+    expect(cache.stats().invalidated).toBe(2);
+  });
+
+  it('should invalidate the domains of accounts when a domain is renewed', () => {
+    const cache = new ResponseCache();
+    const base = 'https://api.infomaniak.com';
+    cache.set(`${base}/1/domain/account/1`, '/1/domain/account/1', { data: [] });
+    cache.set(`${base}/1/domain/account/1/domain/example.com`, '/1/domain/account/1/domain/example.com', { data: {} });
+    cache.set(`${base}/1/domain/example.org/dns/record`, '/1/domain/example.org/dns/record', { data: [] });
+
+    cache.invalidate('/1/domain/example.com/renew');
+
+    expect(cache.get(`${base}/1/domain/account/1`, '/1/domain/account/1')).toBeUndefined();
+    expect(cache.get(`${base}/1/domain/account/1/domain/example.com`, '/1/domain/account/1/domain/example.com')).toBeUndefined();
+    expect(cache.get(`${base}/1/domain/example.org/dns/record`, '/1/domain/example.org/dns/record')).toBeDefined();
+  });
+});
+
+describe('parseCacheTtls', () => {
+  it('should parse TTL overrides', () => {
+    expect(parseCacheTtls('dns=30, invoice=0')).toEqual({ dns: 30, invoice: 0 });
+    expect(parseCacheTtls('')).toEqual({});
+  });
+
+  it('should reject unknown resources and invalid values', () => {
+    expect(() => parseCacheTtls('dnz=30')).toThrow('Unknown cache resource');
+    expect(() => parseCacheTtls('dns=soon')).toThrow('Invalid cache TTL');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Response Cache
+ *
+ * Read-through cache of GET responses of the Infomaniak API, with a TTL per
+ * resource type. Stale entries with an ETag or Last-Modified header are
+ * revalidated with a conditional request instead of being fetched again.
+ */
+
+export type CacheResource =
+  | 'profile'
+  | 'account'
+  | 'domain'
+  | 'dns'
+  | 'mail'
+  | 'hosting'
+  | 'kdrive'
+  | 'backup'
+  | 'vps'
+  | 'dedicated'
+  | 'certificate'
+  | 'invoice';
+
+/** Seconds a response stays fresh, per resource type */
+export type CacheTtls = Partial<Record<CacheResource, number>>;
+
+export const DEFAULT_CACHE_TTLS: Record<CacheResource, number> = {
+  profile: 300,
+  account: 300,
+  domain: 300,
+  dns: 60,
+  mail: 120,
+  hosting: 120,
+  kdrive: 30,
+  backup: 300,
+  // Power state changes within seconds of a reboot
+  vps: 15,
+  dedicated: 15,
+  certificate: 300,
+  invoice: 600,
+};
+
+/** Resource type of an API path; paths matching none are not cached */
+const RESOURCE_PATHS: [RegExp, CacheResource][] = [
+  [/^\/1\/profile(\/|$)/, 'profile'],
+  [/^\/1\/account(\/|$)/, 'account'],
+  [/^\/1\/domain\/[^/]+\/dns(\/|$)/, 'dns'],
+  [/^\/1\/domain(\/|$)/, 'domain'],
+  [/^\/1\/mail(\/|$)/, 'mail'],
+  [/^\/1\/web(\/|$)/, 'hosting'],
+  [/^\/2\/drive(\/|$)/, 'kdrive'],
+  [/^\/1\/swiss_backup(\/|$)/, 'backup'],
+  [/^\/1\/vps(\/|$)/, 'vps'],
+  [/^\/1\/dedicated(\/|$)/, 'dedicated'],
+  [/^\/1\/certificate(\/|$)/, 'certificate'],
+  [/^\/1\/invoicing(\/|$)/, 'invoice'],
+];
+
+/**
+ * Read scopes a write changes besides its own resource: domains are read through
+ * their account, so renewing one or changing its nameservers changes the account's
+ * domain list and details
+ */
+const RELATED_SCOPES: [RegExp, string[]][] = [[/^\/1\/domain\/[^/]+\/(renew|nameserver)(\/|$)/, ['/1/domain/account']]];
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Stale entries confirmed unchanged by a 304 response */
+  revalidated: number;
+  /** Entries dropped because a request changed the resource */
+  invalidated: number;
+  entries: number;
+}
+
+interface CacheEntry {
+  path: string;
+  value: unknown;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly ttls: Record<CacheResource, number>;
+  private hits = 0;
+  private misses = 0;
+  private revalidated = 0;
+  private invalidated = 0;
+
+  constructor(
+    ttls: CacheTtls = {},
+    private readonly maxEntries = 500,
+  ) {
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...ttls };
+  }
+
+  /**
+   * Seconds a response of this path stays fresh; 0 when it is not cached
+   */
+  ttlOf(path: string): number {
+    const resource = RESOURCE_PATHS.find(([pattern]) => pattern.test(path))?.[1];
+    return resource ? this.ttls[resource] : 0;
+  }
+
+  /**
+   * Fresh cached response for a URL, counting the hit or miss
+   */
+  get(url: string, path: string): unknown {
+    if (this.ttlOf(path) <= 0) return undefined;
+
+    const entry = this.entries.get(url);
+    if (entry && Date.now() < entry.expiresAt) {
+      this.hits++;
+      return entry.value;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Conditional request headers for a stale entry that can be revalidated
+   */
+  validators(url: string): Record<string, string> {
+    const entry = this.entries.get(url);
+    return {
+      ...(entry?.etag && { 'If-None-Match': entry.etag }),
+      ...(entry?.lastModified && { 'If-Modified-Since': entry.lastModified }),
+    };
+  }
+
+  /**
+   * Extend a stale entry after the API answered 304 Not Modified, and return it
+   */
+  revalidate(url: string): unknown {
+    const entry = this.entries.get(url);
+    if (!entry) return undefined;
+    entry.expiresAt = Date.now() + this.ttlOf(entry.path) * 1000;
+    this.revalidated++;
+    return entry.value;
+  }
+
+  set(url: string, path: string, value: unknown, headers?: Headers): void {
+    const ttl = this.ttlOf(path);
+    if (ttl <= 0) return;
+
+    this.entries.delete(url);
+    this.entries.set(url, {
+      path,
+      value,
+      expiresAt: Date.now() + ttl * 1000,
+      etag: headers?.get('ETag') ?? undefined,
+      lastModified: headers?.get('Last-Modified') ?? undefined,
+    });
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.entries.size > this.maxEntries) this.entries.delete(this.entries.keys().next().value!);
+  }
+
+  /**
+   * Drop the responses a request to this path may have changed: everything under
+   * the same resource (e.g. `/1/domain/example.com`), the lists containing it and
+   * the related scopes read elsewhere
+   */
+  invalidate(path: string): void {
+    const scopes = [
+      path.split('/').slice(0, 4).join('/'),
+      ...RELATED_SCOPES.filter(([pattern]) => pattern.test(path)).flatMap(([, related]) => related),
+    ];
+    const within = (child: string, parent: string) => child === parent || child.startsWith(`${parent}/`);
+
+    for (const [url, entry] of this.entries) {
+      if (scopes.some((scope) => within(entry.path, scope)) || within(path, entry.path)) {
+        this.entries.delete(url);
+        this.invalidated++;
+      }
+    }
+  }
+
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      revalidated: this.revalidated,
+      invalidated: this.invalidated,
+      entries: this.entries.size,
+    };
+  }
+}
+
+/**
+ * Parse TTL overrides such as `dns=30,invoice=0`
+ */
+export function parseCacheTtls(value: string): CacheTtls {
+  const ttls: CacheTtls = {};
+  for (const pair of value.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const [resource, seconds] = pair.split('=').map((part) => part.trim());
+    if (!(resource in DEFAULT_CACHE_TTLS)) {
+      throw new Error(`Unknown cache resource "${resource}". Use one of: ${Object.keys(DEFAULT_CACHE_TTLS).join(', ')}`);
+    }
+    const ttl = Number(seconds);
+    if (!seconds || !Number.isInteger(ttl) || ttl < 0) {
+      throw new Error(`Invalid cache TTL "${pair}": expected a number of seconds`);
+    }
+    ttls[resource as CacheResource] = ttl;
+  }
+  return ttls;
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for the record/replay cassettes
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Cassette } from './cassette.js';
+import { InfomaniakClient } from './infomaniak-client.js';
+
+const mailbox = {
+  id: 42,
+  mail_id: 1234,
+  mailbox_name: 'john',
+  email: 'john@example.com',
+  aliases: [],
+  size_used: 0,
+  max_size: 5120,
+};
+
+describe('Cassette', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record traffic with secrets masked', async () => {
+    const created = { ...mailbox, token: 'mailbox-token' };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ result: 'success', data: created }), {
+          status: 201,
+          headers: { 'Content-Type': 'application/json', 'X-Echo': 'secret-api-token' },
+        }),
+      ),
+    );
+    const file = join(dir, 'recorded.json');
+    const cassette = new Cassette(file, { mode: 'record', secrets: ['secret-api-token'] });
+    // The token field is not part of the mailbox schema, and only there to be masked
+    const client = new InfomaniakClient({
+      token: 'secret-api-token',
+      middleware: [cassette.middleware()],
+      validation: 'off',
+    });
+
+    const result = await client.createMailbox(1234, { mailbox_name: 'john', password: 'hunter2' });
+
+    expect(result.data).toEqual(created);
+    const recorded = readFileSync(file, 'utf-8');
+    expect(recorded).not.toContain('secret-api-token');
+    expect(recorded).not.toContain('hunter2');
+    expect(recorded).not.toContain('mailbox-token');
+    expect(JSON.parse(recorded).interactions).toEqual([
+      {
+        request: {
+          method: 'POST',
+          url: 'https://api.infomaniak.com/1/mail/1234/mailbox',
+          body: { mailbox_name: 'john', password: '***' },
+        },
+        response: {
+          status: 201,
+          headers: { 'content-type': 'application/json', 'x-echo': '***' },
+          body: JSON.stringify({ result: 'success', data: { ...created, token: '***' } }),
+        },
+      },
+    ]);
+  });
+
+  it('should replay recorded responses in order without network', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    const response = (status: number, aliases: string[]) => ({
+      status,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ result: 'success', data: { ...mailbox, aliases } }),
+    });
+    const request = { method: 'GET', url: 'https://api.infomaniak.com/1/mail/1234/mailbox/42' };
+    const file = join(dir, 'replayed.json');
+    writeFileSync(file, JSON.stringify({ interactions: [{ request, response: response(200, []) }, { request, response: response(200, ['a']) }] }));
+    const client = new InfomaniakClient({
+      token: 'token',
+      cache: false,
+      middleware: [new Cassette(file, { mode: 'replay' }).middleware()],
+    });
+
+    expect((await client.getMailbox(1234, 42)).data.aliases).toEqual([]);
+    expect((await client.getMailbox(1234, 42)).data.aliases).toEqual(['a']);
+    expect((await client.getMailbox(1234, 42)).data.aliases).toEqual(['a']);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should fail on requests missing from the cassette', async () => {
+    const file = join(dir, 'empty.json');
+    writeFileSync(file, JSON.stringify({ interactions: [] }));
+    const client = new InfomaniakClient({ token: 'token', middleware: [new Cassette(file, { mode: 'replay' }).middleware()] });
+
+    await expect(client.getMailbox(1234, 42)).rejects.toThrow(
+      `No interaction in cassette ${file} matches GET https://api.infomaniak.com/1/mail/1234/mailbox/42`,
+    );
+  });
+
+  it('should require the cassette file in replay mode', () => {
+    expect(() => new Cassette(join(dir, 'missing.json'), { mode: 'replay' })).toThrow('not found; record it first');
+  });
+});
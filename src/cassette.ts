@@ -0,0 +1,137 @@
+/**
+ * HTTP Cassettes
+ *
+ * Record/replay middleware for the API clients. In record mode, requests are
+ * sent to the API and each exchange is saved to a JSON cassette file, with
+ * secrets masked. In replay mode, responses are served from the cassette and
+ * requests it does not contain fail, so tool flows can be tested offline.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { redact } from './audit.js';
+import { Middleware, RequestContext } from './middleware.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface Interaction {
+  request: {
+    method: string;
+    url: string;
+    /** JSON body, with passwords and tokens masked */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Values masked wherever they appear in recorded requests and responses, such as API tokens */
+  secrets?: string[];
+}
+
+const MASK = '***';
+/** Recorded requests bypass the client's timeout, which is applied by the transport */
+const RECORD_TIMEOUT_MS = 30_000;
+/** Response headers not worth recording */
+const SKIPPED_HEADERS = new Set(['set-cookie', 'date', 'connection', 'keep-alive', 'transfer-encoding']);
+
+export class Cassette {
+  private readonly interactions: Interaction[];
+  /** Indexes of the interactions already replayed */
+  private readonly played = new Set<number>();
+
+  /**
+   * @param file - JSON cassette file, overwritten in record mode and required in replay mode
+   */
+  constructor(
+    readonly file: string,
+    private readonly options: CassetteOptions,
+  ) {
+    if (options.mode === 'record') {
+      this.interactions = [];
+    } else if (existsSync(file)) {
+      this.interactions = (JSON.parse(readFileSync(file, 'utf-8')) as { interactions: Interaction[] }).interactions;
+    } else {
+      throw new Error(`Cassette ${file} not found; record it first`);
+    }
+  }
+
+  /**
+   * Middleware recording or replaying the requests of a client. Add it last, so that
+   * the other middlewares still run and each retry is an interaction of its own.
+   */
+  middleware(): Middleware {
+    return {
+      name: 'cassette',
+      onRequest: (context) => (this.options.mode === 'record' ? this.record(context) : this.replay(context)),
+    };
+  }
+
+  private async record(context: RequestContext): Promise<Response> {
+    const { method, url, headers, body, signal } = context;
+    const timeout = AbortSignal.timeout(RECORD_TIMEOUT_MS);
+    const response = await fetch(url, { method, headers, body, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+    const text = await response.text();
+
+    const recordedHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!SKIPPED_HEADERS.has(name)) recordedHeaders[name] = this.scrub(value);
+    });
+    this.interactions.push({
+      request: this.requestOf(context),
+      response: { status: response.status, headers: recordedHeaders, body: this.scrubBody(text) },
+    });
+    writeFileSync(this.file, `${JSON.stringify({ interactions: this.interactions }, null, 2)}\n`);
+
+    return toResponse(response.status, Object.fromEntries(response.headers), text);
+  }
+
+  /**
+   * Serve the first recorded response to this request not replayed yet. Once all
+   * were, the last one is served again, so repeated reads need not be recorded twice.
+   */
+  private replay(context: RequestContext): Response {
+    const request = JSON.stringify(this.requestOf(context));
+    const matches = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction }) => JSON.stringify(interaction.request) === request);
+    const match = matches.find(({ index }) => !this.played.has(index)) ?? matches.at(-1);
+    if (!match) {
+      throw new Error(`No interaction in cassette ${this.file} matches ${context.method} ${this.scrub(context.url)}`);
+    }
+
+    this.played.add(match.index);
+    const { status, headers, body } = match.interaction.response;
+    return toResponse(status, headers, body);
+  }
+
+  private requestOf({ method, url, body }: RequestContext): Interaction['request'] {
+    return {
+      method,
+      url: this.scrub(url),
+      ...(body !== undefined && { body: JSON.parse(this.scrubBody(body)) }),
+    };
+  }
+
+  private scrub(text: string): string {
+    return (this.options.secrets ?? []).filter(Boolean).reduce((result, secret) => result.split(secret).join(MASK), text);
+  }
+
+  private scrubBody(text: string): string {
+    try {
+      return this.scrub(JSON.stringify(redact(JSON.parse(text))));
+    } catch {
+      return this.scrub(text);
+    }
+  }
+}
+
+function toResponse(status: number, headers: Record<string, string>, body: string): Response {
+  // Responses with these statuses cannot have a body
+  const empty = status === 204 || status === 304 || body === '';
+  return new Response(empty ? null : body, { status, headers });
+}
@@ -0,0 +1,54 @@
+/**
+ * Confirmation of Destructive Tool Calls
+ *
+ * Before a destructive tool runs, the user is asked through MCP elicitation.
+ * Clients without elicitation support fall back to refusing the call, or to
+ * requiring an explicit `confirm: true` argument.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+/**
+ * Behaviour when the client cannot ask the user:
+ * - `refuse`: destructive tools cannot be called
+ * - `argument`: destructive tools run only when called with `confirm: true`
+ */
+export type ConfirmationFallback = "refuse" | "argument";
+
+export const CONFIRMATION_FALLBACKS: readonly ConfirmationFallback[] = ["refuse", "argument"];
+
+/**
+ * Resolve if the user approved the call, throw otherwise
+ *
+ * @param confirmed - Value of the `confirm` argument, used by the `argument` fallback
+ */
+export async function confirmToolCall(
+  server: Server,
+  toolName: string,
+  question: string,
+  confirmed: boolean | undefined,
+  fallback: ConfirmationFallback,
+): Promise<void> {
+  if (server.getClientCapabilities()?.elicitation?.form) {
+    const result = await server.elicitInput({
+      message: question,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: { type: "boolean", title: "Confirm", description: question, default: false },
+        },
+        required: ["confirm"],
+      },
+    });
+    if (result.action === "accept" && result.content?.confirm === true) return;
+    throw new Error(`${toolName} was not run: the user did not confirm "${question}"`);
+  }
+
+  if (fallback === "argument") {
+    if (confirmed === true) return;
+    throw new Error(
+      `${toolName} requires confirmation: "${question}" Ask the user, then call it again with confirm: true`,
+    );
+  }
+  throw new Error(`${toolName} requires confirmation: "${question}" The client does not support elicitation`);
+}
@@ -0,0 +1,207 @@
+/**
+ * Tests for DNS plans
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CancelledError, UpstreamError, ValidationError } from './errors.js';
+import { DnsRecord, InfomaniakClient } from './infomaniak-client.js';
+import { applyDnsPlan, parseRecordSet, planDnsChanges, planVersion, zoneVersion } from './dns-plan.js';
+import { ZoneRecord } from './zone-file.js';
+
+const current: DnsRecord[] = [
+  { id: 1, source: '@', type: 'A', target: '203.0.113.10', ttl: 3600 },
+  { id: 2, source: 'www', type: 'CNAME', target: 'example.com.', ttl: 3600 },
+  { id: 3, source: '@', type: 'MX', target: 'mta-gw.infomaniak.ch.', ttl: 3600, priority: 5 },
+  { id: 4, source: '@', type: 'TXT', target: 'v=spf1 include:spf.infomaniak.ch -all', ttl: 3600 },
+  { id: 5, source: '@', type: 'A', target: '203.0.113.11', ttl: 3600 },
+];
+
+describe('parseRecordSet', () => {
+  it('should read JSON and YAML record sets', () => {
+    const yaml = ['records:', '  - source: "@"', '    type: A', '    target: 203.0.113.10', '    ttl: 300'].join('\n');
+
+    expect(parseRecordSet(yaml)).toEqual([{ source: '@', type: 'A', target: '203.0.113.10', ttl: 300 }]);
+    expect(parseRecordSet('[{"source": "www", "type": "CNAME", "target": "example.com."}]')).toEqual([
+      { source: 'www', type: 'CNAME', target: 'example.com.' },
+    ]);
+  });
+
+  it('should reject invalid and duplicate records', () => {
+    expect(() => parseRecordSet([{ source: '@', type: 'PTR', target: 'x' }])).toThrow(ValidationError);
+    expect(() => parseRecordSet('{"source": "@"}')).toThrow('must be a list of records');
+    expect(() =>
+      parseRecordSet([
+        { source: 'www', type: 'CNAME', target: 'example.com.' },
+        { source: 'WWW', type: 'CNAME', target: 'Example.com' },
+      ]),
+    ).toThrow('Record 2 duplicates record 1');
+  });
+});
+
+describe('planDnsChanges', () => {
+  it('should plan creates, updates and deletes within the managed source/type pairs', () => {
+    const desired: ZoneRecord[] = [
+      { source: '@', type: 'A', target: '203.0.113.10', ttl: 300 },
+      { source: 'www', type: 'CNAME', target: 'web.example.net.' },
+      { source: 'api', type: 'A', target: '203.0.113.20' },
+    ];
+    const plan = planDnsChanges('example.com', current, desired);
+
+    expect(plan).toEqual({
+      domain: 'example.com',
+      zone_version: planVersion(current, desired, false),
+      create: [{ source: 'api', type: 'A', target: '203.0.113.20' }],
+      update: [
+        { id: 1, before: current[0], after: { source: '@', type: 'A', target: '203.0.113.10', ttl: 300 } },
+        { id: 2, before: current[1], after: { source: 'www', type: 'CNAME', target: 'web.example.net.', ttl: 3600 } },
+      ],
+      delete: [current[4]],
+      unchanged: 0,
+      unmanaged: [current[2], current[3]],
+    });
+  });
+
+  it('should leave matching records unchanged and prune on request', () => {
+    const desired = [{ source: '@', type: 'MX' as const, target: 'MTA-GW.infomaniak.ch', priority: 5 }];
+
+    expect(planDnsChanges('example.com', current, desired)).toMatchObject({
+      create: [],
+      update: [],
+      delete: [],
+      unchanged: 1,
+    });
+    expect(planDnsChanges('example.com', current, desired, true)).toMatchObject({
+      delete: [current[0], current[1], current[3], current[4]],
+      unmanaged: [],
+    });
+  });
+});
+
+describe('zoneVersion', () => {
+  it('should change when a record changes, not when the order does', () => {
+    expect(zoneVersion([...current].reverse())).toBe(zoneVersion(current));
+    expect(zoneVersion([{ ...current[0], ttl: 300 }, ...current.slice(1)])).not.toBe(zoneVersion(current));
+  });
+});
+
+describe('planVersion', () => {
+  const desired: ZoneRecord[] = [
+    { source: '@', type: 'A', target: '203.0.113.10' },
+    { source: 'api', type: 'A', target: '203.0.113.20' },
+  ];
+
+  it('should change with the desired records and pruning, not with their order', () => {
+    const version = planVersion(current, desired, false);
+
+    expect(planVersion(current, [...desired].reverse(), false)).toBe(version);
+    expect(planVersion(current, desired.slice(1), false)).not.toBe(version);
+    expect(planVersion(current, [desired[0], { ...desired[1], ttl: 300 }], false)).not.toBe(version);
+    expect(planVersion(current, desired, true)).not.toBe(version);
+    expect(planVersion(current.slice(1), desired, false)).not.toBe(version);
+  });
+});
+
+describe('applyDnsPlan', () => {
+  const plan = planDnsChanges('example.com', current, [
+    { source: '@', type: 'A', target: '203.0.113.12' },
+    { source: 'api', type: 'A', target: '203.0.113.20' },
+    { source: 'app', type: 'A', target: '203.0.113.21' },
+  ]);
+  const created = { id: 6, source: 'api', type: 'A', target: '203.0.113.20', ttl: 3600 };
+
+  type StubClient = InfomaniakClient & Record<'deleteDnsRecord' | 'updateDnsRecord' | 'createDnsRecord', ReturnType<typeof vi.fn>>;
+  const stubClient = () =>
+    ({
+      withOptions: vi.fn().mockReturnThis(),
+      deleteDnsRecord: vi.fn().mockResolvedValue({ data: true }),
+      updateDnsRecord: vi.fn().mockImplementation(async (_domain, id, record) => ({ data: { id, ttl: 3600, ...record } })),
+      createDnsRecord: vi
+        .fn()
+        .mockResolvedValueOnce({ data: created })
+        .mockRejectedValueOnce(new UpstreamError('Infomaniak API Error (500)'))
+        .mockResolvedValue({ data: { ...current[4], id: 7 } }),
+    }) as unknown as StubClient;
+
+  it('should carry on past failures by default', async () => {
+    const result = await applyDnsPlan(stubClient(), plan);
+
+    expect(result.applied.map(({ action }) => action)).toEqual(['delete', 'update', 'create']);
+    expect(result.failed).toEqual([{ action: 'create', record: plan.create[1], error: 'Infomaniak API Error (500)' }]);
+    expect(result.rolled_back).toBeUndefined();
+  });
+
+  it('should revert the applied changes in reverse order when atomic', async () => {
+    const client = stubClient();
+
+    const error = await applyDnsPlan(client, plan, { atomic: true }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error.message).toBe(
+      'Applying DNS changes to example.com failed and the changes already applied were reverted: Infomaniak API Error (500)',
+    );
+    expect(error.data.failed).toEqual([{ action: 'create', record: plan.create[1], error: 'Infomaniak API Error (500)' }]);
+    expect(error.data.rolled_back).toEqual([
+      { action: 'delete', record: created },
+      { action: 'update', record: { ...current[0], id: 1 } },
+      { action: 'create', record: { ...current[4], id: 7 } },
+    ]);
+    expect(client.deleteDnsRecord).toHaveBeenLastCalledWith('example.com', 6);
+    expect(client.updateDnsRecord).toHaveBeenLastCalledWith('example.com', 1, {
+      source: '@',
+      type: 'A',
+      target: '203.0.113.10',
+      ttl: 3600,
+    });
+    expect(client.createDnsRecord).toHaveBeenLastCalledWith('example.com', {
+      source: '@',
+      type: 'A',
+      target: '203.0.113.11',
+      ttl: 3600,
+    });
+  });
+
+  it('should revert the applied changes when cancelled, without the cancelled signal', async () => {
+    const client = stubClient();
+    const rollbackClient = stubClient();
+    client.createDnsRecord.mockReset().mockRejectedValue(new CancelledError('The request was cancelled'));
+    const withOptions = vi.fn().mockReturnValue(rollbackClient);
+    Object.assign(client, { withOptions });
+
+    const error = await applyDnsPlan(client, plan, { atomic: true }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(CancelledError);
+    expect(withOptions).toHaveBeenCalledWith({ signal: expect.any(AbortSignal) });
+    expect(error.data.rolled_back.map(({ action }: { action: string }) => action)).toEqual(['update', 'create']);
+    expect(rollbackClient.updateDnsRecord).toHaveBeenCalledWith(
+      'example.com',
+      1,
+      expect.objectContaining({ target: '203.0.113.10' }),
+    );
+    expect(rollbackClient.createDnsRecord).toHaveBeenCalledWith(
+      'example.com',
+      expect.objectContaining({ target: '203.0.113.11' }),
+    );
+  });
+
+  it('should fall back to the planned record when the API returns no data', async () => {
+    const client = stubClient();
+    client.updateDnsRecord.mockResolvedValue({});
+    client.createDnsRecord.mockReset().mockResolvedValue(undefined);
+    Object.assign(client, {
+      getDnsRecords: vi.fn().mockResolvedValue({ data: [...current, { ...created, id: 8 }], total: current.length + 1 }),
+    });
+
+    const desired = [
+      { source: '@', type: 'A' as const, target: '203.0.113.12' },
+      { source: 'api', type: 'A' as const, target: '203.0.113.20' },
+    ];
+
+    const result = await applyDnsPlan(client, planDnsChanges('example.com', current, desired));
+
+    expect(result.failed).toEqual([]);
+    expect(result.applied.slice(1)).toEqual([
+      { action: 'update', record: { ...current[0], target: '203.0.113.12' } },
+      { action: 'create', record: { ...created, id: 8 } },
+    ]);
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * DNS Plans
+ *
+ * Compares the desired records of a zone, as kept in git, with the records the
+ * API returns, and computes the creates, updates and deletes that turn one into
+ * the other. Records are matched on source and type, then on target. Only the
+ * source/type pairs present in the desired set are managed: other records are
+ * left alone unless pruning is requested.
+ */
+
+import { createHash } from 'crypto';
+import { DryRunPreview, isDryRunResult } from './dry-run.js';
+import {
+  CancelledError,
+  ErrorDetails,
+  InfomaniakError,
+  UpstreamError,
+  ValidationError,
+  describeError,
+} from './errors.js';
+import { DnsRecord, InfomaniakClient, paginate } from './infomaniak-client.js';
+import { CreateDnsRecordSchema } from './schemas.js';
+import { parseYaml } from './yaml.js';
+import { ZoneRecord, normalizeTarget } from './zone-file.js';
+
+export interface DnsUpdate {
+  id: number;
+  before: DnsRecord;
+  after: ZoneRecord;
+}
+
+export interface DnsPlan {
+  domain: string;
+  /**
+   * Version of the zone the plan was computed from, checked before applying it. For plans of desired records,
+   * it also covers the desired records and pruning, so that only the plan that was reviewed can be applied.
+   */
+  zone_version: string;
+  create: ZoneRecord[];
+  update: DnsUpdate[];
+  delete: DnsRecord[];
+  /** Number of desired records already in the zone */
+  unchanged: number;
+  /** Records outside the managed source/type pairs, kept because pruning was not requested */
+  unmanaged: DnsRecord[];
+}
+
+export type DnsChangeAction = 'create' | 'update' | 'delete';
+
+/**
+ * Outcome of applying a plan
+ */
+export interface AppliedDnsPlan {
+  applied: { action: DnsChangeAction; record: DnsRecord }[];
+  failed: { action: DnsChangeAction; record: ZoneRecord | DnsRecord; error: string }[];
+  /** Changes reverting the applied ones after a failure, in the error data when the plan is applied atomically */
+  rolled_back?: { action: DnsChangeAction; record: DnsRecord }[];
+  /** Preview of all the changes, when the client is in dry-run mode */
+  dry_run?: DryRunPreview;
+}
+
+export interface ApplyDnsPlanOptions {
+  /** Stop at the first failure and revert the changes already applied */
+  atomic?: boolean;
+}
+
+const DesiredRecordSchema = CreateDnsRecordSchema.omit({ domain: true });
+
+/**
+ * Read a desired record set: a JSON or YAML list of records, or a document with a `records` list
+ *
+ * @throws ValidationError when the document or one of its records is invalid
+ */
+export function parseRecordSet(document: string | unknown[]): ZoneRecord[] {
+  const parsed = typeof document === 'string' ? parseDocument(document) : document;
+  const list = Array.isArray(parsed) ? parsed : (parsed as { records?: unknown } | null)?.records;
+  if (!Array.isArray(list)) throw new ValidationError('The record set must be a list of records, or have a `records` list');
+
+  const records = list.map((entry, index) => {
+    const checked = DesiredRecordSchema.safeParse(entry);
+    if (!checked.success) {
+      const issues = checked.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new ValidationError(`Record ${index + 1} is invalid: ${issues}`);
+    }
+    return checked.data;
+  });
+
+  records.forEach((record, index) => {
+    const first = records.findIndex((other) => recordKey(other) === recordKey(record));
+    if (first < index) throw new ValidationError(`Record ${index + 1} duplicates record ${first + 1}`);
+  });
+  return records;
+}
+
+/**
+ * Version of the records of a zone, changing whenever a record is added, changed or removed
+ */
+export function zoneVersion(records: DnsRecord[]): string {
+  const canonical = [...records]
+    .sort((a, b) => a.id - b.id)
+    .map(({ id, source, type, target, ttl, priority }) => [id, source, type, target, ttl, priority ?? null]);
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Version of a plan of desired records: the version of the zone, the desired records in any order, and pruning
+ */
+export function planVersion(current: DnsRecord[], desired: ZoneRecord[], prune: boolean): string {
+  const canonical = desired
+    .map(({ source, type, target, ttl, priority }) => JSON.stringify([source, type, target, ttl ?? null, priority ?? null]))
+    .sort();
+  return createHash('sha256').update(JSON.stringify([zoneVersion(current), canonical, prune])).digest('hex').slice(0, 16);
+}
+
+/**
+ * Compute the changes turning the current records of a zone into the desired ones
+ *
+ * @param prune - Also delete the records outside the managed source/type pairs
+ */
+export function planDnsChanges(domain: string, current: DnsRecord[], desired: ZoneRecord[], prune = false): DnsPlan {
+  const managed = new Set(desired.map(groupKey));
+  const unmanaged = current.filter((record) => !managed.has(groupKey(record)));
+  const candidates = current.filter((record) => managed.has(groupKey(record)));
+  const take = (match: (record: DnsRecord) => boolean) => {
+    const index = candidates.findIndex(match);
+    return index === -1 ? undefined : candidates.splice(index, 1)[0];
+  };
+
+  const plan: DnsPlan = {
+    domain,
+    zone_version: planVersion(current, desired, prune),
+    create: [],
+    update: [],
+    delete: [],
+    unchanged: 0,
+    unmanaged: [],
+  };
+  const unmatched: ZoneRecord[] = [];
+
+  // Records with the same target only change their TTL or priority
+  for (const record of desired) {
+    const before = take((candidate) => recordKey(candidate) === recordKey(record));
+    if (!before) unmatched.push(record);
+    else if (differs(before, record)) plan.update.push({ id: before.id, before, after: { ...fields(before), ...record } });
+    else plan.unchanged++;
+  }
+  // Others take over a remaining record of the same source and type, or are created
+  for (const record of unmatched) {
+    const before = take((candidate) => groupKey(candidate) === groupKey(record));
+    if (before) plan.update.push({ id: before.id, before, after: { ...fields(before), ...record } });
+    else plan.create.push(record);
+  }
+
+  plan.delete = prune ? [...candidates, ...unmanaged] : candidates;
+  plan.unmanaged = prune ? [] : unmanaged;
+  return plan;
+}
+
+/**
+ * Records of the zone once the plan is applied
+ */
+export function plannedZone(current: DnsRecord[], plan: DnsPlan): (DnsRecord | ZoneRecord)[] {
+  const changed = new Set([...plan.delete.map(({ id }) => id), ...plan.update.map(({ id }) => id)]);
+  return [
+    ...current.filter(({ id }) => !changed.has(id)),
+    ...plan.update.map(({ id, after }) => ({ id, ...after })),
+    ...plan.create,
+  ];
+}
+
+/**
+ * Number of changes of a plan
+ */
+export function planSize(plan: DnsPlan): number {
+  return plan.create.length + plan.update.length + plan.delete.length;
+}
+
+/**
+ * Summary of a plan, e.g. "1 create, 2 updates, 0 deletes"
+ */
+export function planSummary(plan: DnsPlan): string {
+  const count = (length: number, action: string) => `${length} ${action}${length === 1 ? '' : 's'}`;
+  return [
+    count(plan.create.length, 'create'),
+    count(plan.update.length, 'update'),
+    count(plan.delete.length, 'delete'),
+  ].join(', ');
+}
+
+/**
+ * All DNS records of a domain
+ */
+export async function readDnsZone(client: InfomaniakClient, domain: string): Promise<DnsRecord[]> {
+  const records: DnsRecord[] = [];
+  for await (const record of paginate((page) => client.getDnsRecords(domain, page))) records.push(record);
+  return records;
+}
+
+/**
+ * Apply a plan: delete, update, then create records
+ *
+ * Carries on past the changes that fail, unless the plan is applied atomically: then the
+ * first failure or a cancellation stops it, the changes already applied are reverted in
+ * reverse order, and the error is thrown with the failed and reverted changes as its data.
+ */
+export async function applyDnsPlan(
+  client: InfomaniakClient<boolean>,
+  plan: DnsPlan,
+  options: ApplyDnsPlanOptions = {},
+): Promise<AppliedDnsPlan> {
+  const { domain } = plan;
+  const result: AppliedDnsPlan = { applied: [], failed: [] };
+  const previews: DryRunPreview[] = [];
+  let failure: unknown;
+  // Changes reverting the applied ones, most recent first
+  const reverts: { action: DnsChangeAction; record: DnsRecord; change: () => Promise<DnsRecord> }[] = [];
+  // Reverting must complete even when the call was cancelled
+  const rollbackClient = client.withOptions({ signal: new AbortController().signal });
+  const run = async (
+    action: DnsChangeAction,
+    record: ZoneRecord | DnsRecord,
+    change: () => Promise<unknown>,
+    planned: DnsRecord,
+  ) => {
+    try {
+      const response = await change();
+      if (isDryRunResult(response)) {
+        previews.push(response.dry_run);
+        return;
+      }
+      const applied = action === 'delete' ? planned : await appliedRecord(client, domain, response, planned);
+      result.applied.push({ action, record: applied });
+      reverts.unshift(revert(rollbackClient, domain, action, applied, plan));
+    } catch (error) {
+      if (error instanceof CancelledError && !options.atomic) throw error;
+      failure ??= error;
+      result.failed.push({ action, record, error: describeError(error).message });
+    }
+  };
+
+  // Deleting first frees the names taken by records the plan replaces, e.g. for a CNAME
+  const changes: {
+    action: DnsChangeAction;
+    record: ZoneRecord | DnsRecord;
+    change: () => Promise<unknown>;
+    planned: DnsRecord;
+  }[] = [
+    ...plan.delete.map((record) => ({
+      action: 'delete' as const,
+      record,
+      change: () => client.deleteDnsRecord(domain, record.id),
+      planned: record,
+    })),
+    ...plan.update.map(({ id, before, after }) => ({
+      action: 'update' as const,
+      record: after,
+      change: () => client.updateDnsRecord(domain, id, after),
+      planned: { ...before, ...after, id },
+    })),
+    ...plan.create.map((record) => ({
+      action: 'create' as const,
+      record,
+      change: () => client.createDnsRecord(domain, record),
+      // The id is only known from the response or the zone
+      planned: { ...record, id: 0, ttl: record.ttl ?? 3600 },
+    })),
+  ];
+  for (const { action, record, change, planned } of changes) {
+    if (options.atomic && result.failed.length > 0) break;
+    await run(action, record, change, planned);
+  }
+
+  if (options.atomic && result.failed.length > 0) {
+    result.rolled_back = [];
+    for (const { action, record, change } of reverts) {
+      try {
+        result.rolled_back.push({ action, record: await change() });
+      } catch (error) {
+        result.failed.push({ action, record, error: `Rollback failed: ${describeError(error).message}` });
+      }
+    }
+    throw rolledBackError(domain, failure, result);
+  }
+
+  if (previews.length > 0 && previews.length === planSize(plan)) {
+    result.dry_run = {
+      method: [...new Set(previews.map((preview) => preview.method))].join(', '),
+      url: previews[0].url.replace(/\/\d+$/, ''),
+      body: previews.map(({ method, url, body }) => ({ method, url, body })),
+      effect: `Apply DNS plan to ${domain}: ${planSummary(plan)}`,
+    };
+  }
+  return result;
+}
+
+/**
+ * Record created or updated by a change, as returned by the API, or else as found in the zone
+ *
+ * @throws UpstreamError when a created record is neither returned nor found in the zone
+ */
+async function appliedRecord(client: InfomaniakClient, domain: string, response: unknown, planned: DnsRecord) {
+  const data = (response as { data?: Partial<DnsRecord> } | undefined)?.data;
+  if (typeof data?.id === 'number') return { ...planned, ...data } as DnsRecord;
+  if (planned.id !== 0) return planned;
+
+  const created = (await readDnsZone(client, domain)).filter((record) => recordKey(record) === recordKey(planned)).pop();
+  if (!created) {
+    throw new UpstreamError(`The API did not return the ${planned.type} record ${planned.source || '@'} it created`);
+  }
+  return created;
+}
+
+/**
+ * Error of an atomic apply that was reverted, of the same kind as the failure that stopped it
+ */
+function rolledBackError(domain: string, failure: unknown, result: AppliedDnsPlan): InfomaniakError {
+  const reverted = result.failed.some(({ error }) => error.startsWith('Rollback failed'))
+    ? 'some of the changes already applied could not be reverted'
+    : 'the changes already applied were reverted';
+  const message = `Applying DNS changes to ${domain} failed and ${reverted}: ${describeError(failure).message}`;
+  const data = { failed: result.failed, rolled_back: result.rolled_back };
+  if (!(failure instanceof InfomaniakError)) return new UpstreamError(message, { data, cause: failure });
+
+  const Kind = failure.constructor as new (message: string, details: ErrorDetails) => InfomaniakError;
+  const { status, apiCode, requestId, hint } = failure;
+  return new Kind(message, { status, apiCode, requestId, hint, data, cause: failure });
+}
+
+/**
+ * Change reverting an applied one: deleting a created record, recreating a deleted one, restoring an updated one
+ */
+function revert(client: InfomaniakClient<boolean>, domain: string, action: DnsChangeAction, record: DnsRecord, plan: DnsPlan) {
+  switch (action) {
+    case 'create':
+      return {
+        action: 'delete' as const,
+        record,
+        change: async () => {
+          await client.deleteDnsRecord(domain, record.id);
+          return record;
+        },
+      };
+    case 'delete':
+      return {
+        action: 'create' as const,
+        record,
+        change: async () =>
+          appliedRecord(client, domain, await client.createDnsRecord(domain, fields(record)), { ...record, id: 0 }),
+      };
+    case 'update': {
+      const before = plan.update.find(({ id }) => id === record.id)?.before ?? record;
+      return {
+        action: 'update' as const,
+        record: before,
+        change: async () =>
+          appliedRecord(client, domain, await client.updateDnsRecord(domain, before.id, fields(before)), before),
+      };
+    }
+  }
+}
+
+function parseDocument(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) return parseYaml(text);
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    throw new ValidationError(`The record set is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+function fields({ source, type, target, ttl, priority }: DnsRecord): ZoneRecord {
+  return { source, type: type as ZoneRecord['type'], target, ttl, ...(priority !== undefined && { priority }) };
+}
+
+/** Whether the desired record sets a TTL or priority other than the current one */
+function differs(current: DnsRecord, desired: ZoneRecord): boolean {
+  return (
+    (desired.ttl !== undefined && desired.ttl !== current.ttl) ||
+    (desired.priority !== undefined && desired.priority !== current.priority)
+  );
+}
+
+function groupKey(record: Pick<DnsRecord, 'source' | 'type'>): string {
+  return `${(record.source || '@').toLowerCase()} ${record.type}`;
+}
+
+function recordKey(record: Pick<DnsRecord, 'source' | 'type' | 'target'>): string {
+  return `${groupKey(record)} ${normalizeTarget(record.type, record.target)}`;
+}
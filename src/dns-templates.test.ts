@@ -0,0 +1,164 @@
+/**
+ * Tests for DNS templates
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ValidationError } from './errors.js';
+import { DnsRecord } from './infomaniak-client.js';
+import { checkRecordSyntax } from './dns-validation.js';
+import { BUILTIN_DNS_TEMPLATES, DnsTemplate, loadDnsTemplates, planDnsTemplate, renderDnsTemplate } from './dns-templates.js';
+
+const zone: DnsRecord[] = [
+  { id: 1, source: '@', type: 'A', target: '203.0.113.10', ttl: 3600 },
+  { id: 2, source: 'www', type: 'CNAME', target: 'example.com.', ttl: 3600 },
+  { id: 3, source: '@', type: 'MX', target: 'mta-gw.infomaniak.ch.', ttl: 3600, priority: 5 },
+  { id: 4, source: '@', type: 'TXT', target: 'v=spf1 include:spf.infomaniak.ch -all', ttl: 3600 },
+];
+
+const builtin = (name: string) => BUILTIN_DNS_TEMPLATES.find((template) => template.name === name) as DnsTemplate;
+
+const samples: Record<string, Record<string, string>> = {
+  'infomaniak-hosting': { ipv4: '203.0.113.30', ipv6: '2001:db8::30' },
+  'microsoft-365': { verification: 'MS=ms12345678', mx_host: 'example-com.mail.protection.outlook.com' },
+  'google-workspace': { verification: 'google-site-verification=abc123' },
+  'github-pages': { user: 'octocat' },
+  'letsencrypt-caa': { iodef: 'security@example.com' },
+  mailgun: { dkim_selector: 'smtp', dkim_key: `k=rsa; p=${'A'.repeat(392)}` },
+  sendgrid: { em_id: '1234', user_id: '5678901', wl_id: '123' },
+};
+
+describe('renderDnsTemplate', () => {
+  it('should render every built-in template into valid records', () => {
+    for (const template of BUILTIN_DNS_TEMPLATES) {
+      const records = renderDnsTemplate(template, 'example.com', samples[template.name]);
+
+      expect(records.length).toBeGreaterThan(0);
+      expect(records.flatMap(checkRecordSyntax).filter(({ severity }) => severity === 'error')).toEqual([]);
+    }
+  });
+
+  it('should fill defaults and skip records using a variable left empty', () => {
+    expect(renderDnsTemplate(builtin('infomaniak-mail'), 'example.com')).toContainEqual({
+      source: '_dmarc',
+      type: 'TXT',
+      target: 'v=DMARC1; p=quarantine; rua=mailto:postmaster@example.com',
+    });
+    expect(renderDnsTemplate(builtin('infomaniak-hosting'), 'example.com', { ipv4: '203.0.113.30' })).toEqual([
+      { source: '@', type: 'A', target: '203.0.113.30' },
+      { source: 'www', type: 'CNAME', target: 'example.com.' },
+    ]);
+  });
+
+  it('should split long TXT values', () => {
+    const records = renderDnsTemplate(builtin('mailgun'), 'example.com', samples.mailgun);
+
+    expect(records[1]).toMatchObject({
+      source: 'smtp._domainkey.mg',
+      type: 'TXT',
+      target: expect.stringMatching(/^"k=rsa; p=A+" "A+"$/),
+    });
+  });
+
+  it('should reject missing, unknown and invalid variables', () => {
+    expect(() => renderDnsTemplate(builtin('github-pages'), 'example.com')).toThrow(
+      'Template github-pages needs the variables user (GitHub user or organization publishing the site)',
+    );
+    expect(() => renderDnsTemplate(builtin('github-pages'), 'example.com', { user: 'octocat', repo: 'site' })).toThrow(
+      'Unknown variables for template github-pages: repo',
+    );
+    expect(() => renderDnsTemplate(builtin('infomaniak-mail'), 'example.com', { dmarc_policy: 'strict' })).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe('planDnsTemplate', () => {
+  it('should only create the records missing from the zone', () => {
+    const records = renderDnsTemplate(builtin('infomaniak-mail'), 'example.com', { rua: 'dmarc@example.com' });
+
+    expect(planDnsTemplate('infomaniak-mail', 'example.com', zone, records)).toMatchObject({
+      create: [{ source: '_dmarc', target: 'v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com' }],
+      delete: [],
+      unchanged: 2,
+      conflicts: [],
+    });
+  });
+
+  it('should report conflicting records, and replace them on request', () => {
+    const records = renderDnsTemplate(builtin('google-workspace'), 'example.com', samples['google-workspace']);
+
+    const plan = planDnsTemplate('google-workspace', 'example.com', zone, records);
+    expect(plan.conflicts.map(({ existing, reason }) => [existing.id, reason])).toEqual([
+      [3, '@ already has MX records'],
+      [4, '@ already has a v=spf1 record'],
+    ]);
+    expect(plan.create).toHaveLength(3);
+    expect(plan.delete).toEqual([]);
+
+    expect(planDnsTemplate('google-workspace', 'example.com', zone, records, true).delete.map(({ id }) => id)).toEqual([3, 4]);
+  });
+
+  it('should report records next to a CNAME', () => {
+    const records = renderDnsTemplate(builtin('github-pages'), 'example.com', { user: 'octocat' });
+
+    expect(planDnsTemplate('github-pages', 'example.com', zone, records).conflicts.map(({ existing }) => existing.id)).toEqual([
+      ...Array(4).fill(1),
+      2,
+    ]);
+  });
+});
+
+describe('loadDnsTemplates', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dns-templates-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should add the templates of a directory, overriding built-in ones', () => {
+    writeFileSync(
+      join(dir, 'status-page.json'),
+      JSON.stringify({
+        description: 'Status page',
+        variables: [{ name: 'page', description: 'Status page id' }],
+        records: [{ source: 'status', type: 'CNAME', target: '{{page}}.statuspage.example.net.' }],
+      }),
+    );
+    writeFileSync(
+      join(dir, 'letsencrypt.json'),
+      JSON.stringify({
+        name: 'letsencrypt-caa',
+        description: 'Ours',
+        records: [{ source: '@', type: 'CAA', target: '0 issue "letsencrypt.org"' }],
+      }),
+    );
+    writeFileSync(join(dir, 'README.md'), '# Templates');
+
+    const templates = loadDnsTemplates(dir);
+
+    expect(templates).toHaveLength(BUILTIN_DNS_TEMPLATES.length + 1);
+    expect(templates.find(({ name }) => name === 'letsencrypt-caa')?.description).toBe('Ours');
+    const statusPage = templates.find(({ name }) => name === 'status-page') as DnsTemplate;
+    expect(renderDnsTemplate(statusPage, 'example.com', { page: 'x1' })).toEqual([
+      { source: 'status', type: 'CNAME', target: 'x1.statuspage.example.net.' },
+    ]);
+  });
+
+  it('should reject invalid templates', () => {
+    writeFileSync(
+      join(dir, 'broken.json'),
+      JSON.stringify({ description: 'Broken', records: [{ source: '{{name}}', type: 'A', target: '203.0.113.1' }] }),
+    );
+
+    expect(() => loadDnsTemplates(dir)).toThrow(
+      `Cannot read DNS template ${join(dir, 'broken.json')}: Undeclared variables name`,
+    );
+  });
+});
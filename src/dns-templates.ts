@@ -0,0 +1,349 @@
+/**
+ * DNS Templates
+ *
+ * Sets of records a service needs, e.g. the MX and SPF records of Google
+ * Workspace, with `{{variable}}` placeholders filled when the template is
+ * applied. Built-in templates cover common services; teams add their own as
+ * JSON files in a directory, one template per file, overriding built-in
+ * templates of the same name.
+ *
+ * Applying a template only creates the records missing from the zone. Records
+ * it would contradict, such as another MX or SPF record at the same name, are
+ * reported as conflicts, and replaced on request.
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { basename, join } from 'path';
+import { z } from 'zod';
+import { ValidationError } from './errors.js';
+import { DnsRecord } from './infomaniak-client.js';
+import { DnsPlan, zoneVersion } from './dns-plan.js';
+import { DnsTemplateSchema, validate } from './schemas.js';
+import { INFOMANIAK_MX, INFOMANIAK_MX_PRIORITY, INFOMANIAK_SPF_INCLUDE } from './email-auth.js';
+import { ZoneRecord, normalizeTarget, splitTxt, txtStrings } from './zone-file.js';
+
+export type DnsTemplate = z.infer<typeof DnsTemplateSchema>;
+
+/**
+ * Existing record a record of a template contradicts
+ */
+export interface DnsConflict {
+  record: ZoneRecord;
+  existing: DnsRecord;
+  reason: string;
+}
+
+export interface DnsTemplatePlan extends DnsPlan {
+  template: string;
+  /** Existing records contradicting the template, deleted when replacing them */
+  conflicts: DnsConflict[];
+}
+
+/** Variable every template can use */
+const BUILTIN_VARIABLES = ['domain'];
+const PLACEHOLDER = /\{\{\s*([a-z_][a-z0-9_]*)\s*\}\}/gi;
+/** Types of which a name normally holds the records of a single service */
+const EXCLUSIVE_TYPES = new Set(['A', 'AAAA', 'MX', 'NS']);
+
+const EMAIL = '[^@\\s]+@[^@\\s]+';
+const GITHUB_PAGES_IPV4 = ['185.199.108.153', '185.199.109.153', '185.199.110.153', '185.199.111.153'];
+const GITHUB_PAGES_IPV6 = ['2606:50c0:8000::153', '2606:50c0:8001::153', '2606:50c0:8002::153', '2606:50c0:8003::153'];
+
+export const BUILTIN_DNS_TEMPLATES: DnsTemplate[] = [
+  {
+    name: 'infomaniak-mail',
+    description: 'Infomaniak Mail: MX, SPF and DMARC records',
+    variables: [
+      {
+        name: 'dmarc_policy',
+        description: 'DMARC policy: none, quarantine or reject',
+        default: 'quarantine',
+        pattern: 'none|quarantine|reject',
+      },
+      { name: 'rua', description: 'Mailbox receiving DMARC aggregate reports', default: 'postmaster@{{domain}}', pattern: EMAIL },
+    ],
+    records: [
+      { source: '@', type: 'MX', target: INFOMANIAK_MX, priority: INFOMANIAK_MX_PRIORITY },
+      { source: '@', type: 'TXT', target: `v=spf1 include:${INFOMANIAK_SPF_INCLUDE} -all` },
+      { source: '_dmarc', type: 'TXT', target: 'v=DMARC1; p={{dmarc_policy}}; rua=mailto:{{rua}}' },
+    ],
+  },
+  {
+    name: 'infomaniak-hosting',
+    description: 'Infomaniak web hosting: address records of the domain, and www pointing to it',
+    variables: [
+      {
+        name: 'ipv4',
+        description: 'IPv4 address of the hosting, shown in the Infomaniak Manager',
+        pattern: '\\d{1,3}(\\.\\d{1,3}){3}',
+      },
+      {
+        name: 'ipv6',
+        description: 'IPv6 address of the hosting; no AAAA record when empty',
+        default: '',
+        pattern: '[0-9a-fA-F:]*',
+      },
+    ],
+    records: [
+      { source: '@', type: 'A', target: '{{ipv4}}' },
+      { source: '@', type: 'AAAA', target: '{{ipv6}}' },
+      { source: 'www', type: 'CNAME', target: '{{domain}}.' },
+    ],
+  },
+  {
+    name: 'microsoft-365',
+    description: 'Microsoft 365: domain verification, MX, SPF and Autodiscover records',
+    variables: [
+      { name: 'verification', description: 'Verification TXT value from the Microsoft 365 admin center', pattern: 'MS=ms\\d+' },
+      {
+        name: 'mx_host',
+        description: 'Mail exchanger from the Microsoft 365 admin center, e.g. example-com.mail.protection.outlook.com',
+        pattern: '[a-z0-9-]+\\.mail\\.protection\\.outlook\\.com',
+      },
+    ],
+    records: [
+      { source: '@', type: 'TXT', target: '{{verification}}' },
+      { source: '@', type: 'MX', target: '{{mx_host}}.', priority: 0 },
+      { source: '@', type: 'TXT', target: 'v=spf1 include:spf.protection.outlook.com -all' },
+      { source: 'autodiscover', type: 'CNAME', target: 'autodiscover.outlook.com.' },
+    ],
+  },
+  {
+    name: 'google-workspace',
+    description: 'Google Workspace: domain verification, MX and SPF records',
+    variables: [
+      {
+        name: 'verification',
+        description: 'Verification TXT value from the Google Admin console',
+        pattern: 'google-site-verification=[A-Za-z0-9_-]+',
+      },
+    ],
+    records: [
+      { source: '@', type: 'TXT', target: '{{verification}}' },
+      { source: '@', type: 'MX', target: 'smtp.google.com.', priority: 1 },
+      { source: '@', type: 'TXT', target: 'v=spf1 include:_spf.google.com ~all' },
+    ],
+  },
+  {
+    name: 'github-pages',
+    description: 'GitHub Pages: apex address records, and www pointing to the Pages site',
+    variables: [{ name: 'user', description: 'GitHub user or organization publishing the site', pattern: '[A-Za-z0-9-]+' }],
+    records: [
+      ...GITHUB_PAGES_IPV4.map((target) => ({ source: '@', type: 'A' as const, target })),
+      ...GITHUB_PAGES_IPV6.map((target) => ({ source: '@', type: 'AAAA' as const, target })),
+      { source: 'www', type: 'CNAME', target: '{{user}}.github.io.' },
+    ],
+  },
+  {
+    name: 'letsencrypt-caa',
+    description: "Let's Encrypt CAA: only Let's Encrypt may issue certificates, wildcard ones included",
+    variables: [
+      {
+        name: 'iodef',
+        description: 'Mailbox notified of refused certificate requests; no iodef record when empty',
+        default: '',
+        pattern: `(${EMAIL})?`,
+      },
+    ],
+    records: [
+      { source: '@', type: 'CAA', target: '0 issue "letsencrypt.org"' },
+      { source: '@', type: 'CAA', target: '0 issuewild "letsencrypt.org"' },
+      { source: '@', type: 'CAA', target: '0 iodef "mailto:{{iodef}}"' },
+    ],
+  },
+  {
+    name: 'mailgun',
+    description: 'Mailgun domain verification: SPF, DKIM, MX and tracking records of the sending subdomain',
+    variables: [
+      { name: 'subdomain', description: 'Sending subdomain', default: 'mg', pattern: '[a-z0-9-]+' },
+      { name: 'dkim_selector', description: 'DKIM selector from the Mailgun dashboard, e.g. smtp', pattern: '[A-Za-z0-9-]+' },
+      {
+        name: 'dkim_key',
+        description: 'DKIM TXT value from the Mailgun dashboard, e.g. k=rsa; p=MIGfMA0...',
+        pattern: '(v=DKIM1; )?k=rsa; p=[A-Za-z0-9+/=]+',
+      },
+    ],
+    records: [
+      { source: '{{subdomain}}', type: 'TXT', target: 'v=spf1 include:mailgun.org ~all' },
+      { source: '{{dkim_selector}}._domainkey.{{subdomain}}', type: 'TXT', target: '{{dkim_key}}' },
+      { source: '{{subdomain}}', type: 'MX', target: 'mxa.mailgun.org.', priority: 10 },
+      { source: '{{subdomain}}', type: 'MX', target: 'mxb.mailgun.org.', priority: 10 },
+      { source: 'email.{{subdomain}}', type: 'CNAME', target: 'mailgun.org.' },
+    ],
+  },
+  {
+    name: 'sendgrid',
+    description: 'SendGrid domain authentication: return path and DKIM CNAME records',
+    variables: [
+      { name: 'em_id', description: 'Number of the emNNNN return path subdomain, from the SendGrid settings', pattern: '\\d+' },
+      { name: 'user_id', description: 'SendGrid user number, the NNNN of uNNNN in the CNAME targets', pattern: '\\d+' },
+      { name: 'wl_id', description: 'Number of the wlNNN label in the CNAME targets', pattern: '\\d+' },
+    ],
+    records: [
+      { source: 'em{{em_id}}', type: 'CNAME', target: 'u{{user_id}}.wl{{wl_id}}.sendgrid.net.' },
+      { source: 's1._domainkey', type: 'CNAME', target: 's1.domainkey.u{{user_id}}.wl{{wl_id}}.sendgrid.net.' },
+      { source: 's2._domainkey', type: 'CNAME', target: 's2.domainkey.u{{user_id}}.wl{{wl_id}}.sendgrid.net.' },
+    ],
+  },
+];
+
+/**
+ * Built-in templates, and the templates of the JSON files in a directory
+ *
+ * A file defines one template, named after the file unless it sets a `name`.
+ *
+ * @throws Error when a file cannot be read or is not a valid template
+ */
+export function loadDnsTemplates(dir?: string): DnsTemplate[] {
+  const templates = new Map(BUILTIN_DNS_TEMPLATES.map((template) => [template.name, template]));
+  if (!dir) return [...templates.values()];
+
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((file) => file.endsWith('.json')).sort();
+  } catch (error) {
+    throw new Error(`Cannot read the DNS templates directory ${dir}: ${(error as Error).message}`);
+  }
+  for (const file of files) {
+    try {
+      const data = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as Record<string, unknown>;
+      const template = checkTemplate(validate(DnsTemplateSchema, { name: basename(file, '.json'), ...data }));
+      templates.set(template.name, template);
+    } catch (error) {
+      throw new Error(`Cannot read DNS template ${join(dir, file)}: ${(error as Error).message}`);
+    }
+  }
+  return [...templates.values()];
+}
+
+/**
+ * Records of a template for a domain, with its variables filled
+ *
+ * Variables fall back to their default; records using a variable left empty are skipped.
+ *
+ * @throws ValidationError when a variable is unknown, missing, or does not match its pattern
+ */
+export function renderDnsTemplate(template: DnsTemplate, domain: string, variables: Record<string, string> = {}): ZoneRecord[] {
+  const declared = (template.variables ?? []).map(({ name }) => name);
+  const unknown = Object.keys(variables).filter((name) => !declared.includes(name));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown variables for template ${template.name}: ${unknown.join(', ')}`, {
+      hint: declared.length > 0 ? `the template takes ${declared.join(', ')}` : 'the template takes no variables',
+    });
+  }
+
+  const values = new Map([['domain', domain.replace(/\.$/, '')]]);
+  const missing: string[] = [];
+  for (const { name, description, default: fallback, pattern } of template.variables ?? []) {
+    const value = (variables[name] ?? fill(fallback ?? '', values)).trim();
+    if (variables[name] === undefined && fallback === undefined) {
+      missing.push(`${name} (${description})`);
+    } else if (pattern && !new RegExp(`^(?:${pattern})$`).test(value)) {
+      throw new ValidationError(`Variable ${name} of template ${template.name} does not match ${pattern}: "${value}"`);
+    }
+    values.set(name, value);
+  }
+  if (missing.length > 0) throw new ValidationError(`Template ${template.name} needs the variables ${missing.join(', ')}`);
+
+  return template.records
+    .filter((record) => placeholders(`${record.source} ${record.target}`).every((name) => values.get(name) !== ''))
+    .map(({ source, type, target, ttl, priority }) => {
+      const filled = fill(target, values);
+      return {
+        source: fill(source, values),
+        type,
+        target: type === 'TXT' ? splitTxt(filled) : filled,
+        ...(ttl !== undefined && { ttl }),
+        ...(priority !== undefined && { priority }),
+      };
+    });
+}
+
+/**
+ * Plan the creation of the records of a template missing from a zone
+ *
+ * @param replace - Delete the existing records the template conflicts with
+ */
+export function planDnsTemplate(
+  template: string,
+  domain: string,
+  current: DnsRecord[],
+  records: ZoneRecord[],
+  replace = false,
+): DnsTemplatePlan {
+  const present = (record: ZoneRecord) =>
+    current.find((existing) => sameName(existing, record) && existing.type === record.type && sameTarget(existing, record));
+  const kept = new Set(records.map(present).filter((existing): existing is DnsRecord => existing !== undefined));
+  const create = records.filter((record) => !present(record));
+
+  const conflicts = create.flatMap((record) =>
+    current
+      .filter((existing) => !kept.has(existing))
+      .map((existing) => ({ record, existing, reason: conflictReason(existing, record) }))
+      .filter((conflict): conflict is DnsConflict => conflict.reason !== undefined),
+  );
+
+  return {
+    template,
+    domain,
+    zone_version: zoneVersion(current),
+    create,
+    update: [],
+    delete: replace ? [...new Set(conflicts.map(({ existing }) => existing))] : [],
+    unchanged: records.length - create.length,
+    unmanaged: [],
+    conflicts,
+  };
+}
+
+/**
+ * Why an existing record contradicts a record of a template, if it does
+ */
+function conflictReason(existing: DnsRecord, record: ZoneRecord): string | undefined {
+  if (!sameName(existing, record)) return undefined;
+  const name = record.source || '@';
+  if (record.type === 'CNAME' || existing.type === 'CNAME') {
+    return `a CNAME record cannot coexist with other records at ${name}`;
+  }
+  if (existing.type !== record.type) return undefined;
+  if (EXCLUSIVE_TYPES.has(record.type)) return `${name} already has ${record.type} records`;
+  const version = txtVersion(record.target);
+  if (record.type === 'TXT' && version && txtVersion(existing.target) === version) {
+    return `${name} already has a ${version} record`;
+  }
+  return undefined;
+}
+
+/** Version tag of a TXT value, e.g. `v=spf1` or `v=DMARC1` */
+function txtVersion(target: string): string | undefined {
+  return /^v=[a-z0-9]+/i.exec(txtStrings(target).join('').trim())?.[0].toLowerCase();
+}
+
+/**
+ * Check the placeholders of a template are all declared
+ *
+ * @throws ValidationError naming the undeclared ones
+ */
+function checkTemplate(template: DnsTemplate): DnsTemplate {
+  const declared = new Set([...BUILTIN_VARIABLES, ...(template.variables ?? []).map(({ name }) => name)]);
+  const used = template.records.flatMap(({ source, target }) => placeholders(`${source} ${target}`));
+  const undeclared = [...new Set(used.filter((name) => !declared.has(name)))];
+  if (undeclared.length > 0) throw new ValidationError(`Undeclared variables ${undeclared.join(', ')}`);
+  return template;
+}
+
+function placeholders(text: string): string[] {
+  return [...text.matchAll(PLACEHOLDER)].map((match) => match[1]);
+}
+
+function fill(text: string, values: Map<string, string>): string {
+  return text.replace(PLACEHOLDER, (_placeholder, name: string) => values.get(name) ?? '');
+}
+
+function sameName(a: Pick<DnsRecord, 'source'>, b: Pick<DnsRecord, 'source'>): boolean {
+  return (a.source || '@').toLowerCase() === (b.source || '@').toLowerCase();
+}
+
+function sameTarget(existing: DnsRecord, record: ZoneRecord): boolean {
+  return normalizeTarget(existing.type, existing.target) === normalizeTarget(record.type, record.target);
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for DNS validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from './errors.js';
+import { DnsRecord } from './infomaniak-client.js';
+import { assertValidDns, checkDnsChange, checkRecordSyntax, lintDnsZone } from './dns-validation.js';
+
+const zone: DnsRecord[] = [
+  { id: 1, source: '@', type: 'A', target: '203.0.113.10', ttl: 3600 },
+  { id: 2, source: 'www', type: 'CNAME', target: 'example.com.', ttl: 3600 },
+  { id: 3, source: '@', type: 'MX', target: 'mta-gw.infomaniak.ch.', ttl: 3600, priority: 5 },
+  { id: 4, source: '@', type: 'TXT', target: 'v=spf1 include:spf.infomaniak.ch -all', ttl: 3600 },
+];
+
+const rules = (issues: { rule: string }[]) => issues.map(({ rule }) => rule);
+
+describe('checkRecordSyntax', () => {
+  it('should check targets per record type', () => {
+    expect(checkRecordSyntax({ source: '@', type: 'A', target: 'example.com.' })).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        rule: 'invalid-target',
+        message: 'A record @ must point to an IPv4 address, not "example.com."; use a CNAME record to point to a hostname',
+      }),
+    ]);
+    expect(rules(checkRecordSyntax({ source: '@', type: 'AAAA', target: '203.0.113.10' }))).toEqual(['invalid-target']);
+    expect(rules(checkRecordSyntax({ source: '@', type: 'MX', target: '203.0.113.10', priority: 10 }))).toEqual(['invalid-target']);
+    expect(rules(checkRecordSyntax({ source: 'www', type: 'CNAME', target: 'web-.example.com' }))).toEqual(['invalid-target']);
+    expect(rules(checkRecordSyntax({ source: '@', type: 'CAA', target: '0 issue letsencrypt.org' }))).toEqual(['invalid-target']);
+    expect(rules(checkRecordSyntax({ source: 'sip', type: 'SRV', target: '10 5060' }))).toEqual([
+      'invalid-target',
+      'missing-priority',
+      'srv-name',
+    ]);
+  });
+
+  it('should accept valid records', () => {
+    expect(checkRecordSyntax({ source: '@', type: 'AAAA', target: '2001:db8::1' })).toEqual([]);
+    expect(checkRecordSyntax({ source: '_sip._tcp', type: 'SRV', target: '10 5060 sip.example.com.', priority: 20 })).toEqual([]);
+    expect(checkRecordSyntax({ source: '@', type: 'CAA', target: '0 issue "letsencrypt.org"' })).toEqual([]);
+    expect(checkRecordSyntax({ source: '_dmarc', type: 'TXT', target: 'v=DMARC1; p=none' })).toEqual([]);
+  });
+
+  it('should require TXT values over 255 characters to be split', () => {
+    const key = `v=DKIM1; k=rsa; p=${'A'.repeat(300)}`;
+
+    expect(rules(checkRecordSyntax({ source: 'mail._domainkey', type: 'TXT', target: key }))).toEqual(['txt-too-long']);
+    expect(
+      checkRecordSyntax({ source: 'mail._domainkey', type: 'TXT', target: `"${key.slice(0, 255)}" "${key.slice(255)}"` }),
+    ).toEqual([]);
+  });
+});
+
+describe('lintDnsZone', () => {
+  it('should accept a consistent zone', () => {
+    expect(lintDnsZone('example.com', zone)).toEqual([]);
+  });
+
+  it('should find conflicts between records', () => {
+    const issues = lintDnsZone('example.com', [
+      ...zone,
+      { id: 5, source: '@', type: 'CNAME', target: 'other.example.net.', ttl: 3600 },
+      { id: 6, source: 'www', type: 'TXT', target: 'google-site-verification=abc', ttl: 3600 },
+      { id: 7, source: '@', type: 'MX', target: 'www.example.com.', ttl: 3600, priority: 10 },
+      { id: 8, source: '@', type: 'TXT', target: 'v=spf1 include:_spf.google.com ~all', ttl: 3600 },
+    ]);
+
+    expect(issues.map(({ rule, record }) => [rule, record.id])).toEqual([
+      ['cname-at-apex', 5],
+      ['cname-conflict', 5],
+      ['duplicate-spf', 4],
+      ['duplicate-spf', 8],
+      ['cname-conflict', 2],
+      ['target-is-cname', 7],
+    ]);
+    expect(issues[4].message).toBe('CNAME www cannot coexist with other records at www (TXT)');
+  });
+});
+
+describe('checkDnsChange', () => {
+  it('should only report the issues a change introduces', () => {
+    const broken = [...zone, { id: 5, source: 'mail', type: 'A', target: 'mail.example.com', ttl: 3600 }];
+
+    expect(checkDnsChange('example.com', broken, { source: 'api', type: 'A', target: '203.0.113.20' })).toEqual([]);
+    expect(rules(checkDnsChange('example.com', broken, { source: 'www', type: 'A', target: '203.0.113.20' }))).toEqual([
+      'cname-conflict',
+    ]);
+  });
+
+  it('should check updates in place of the record they replace', () => {
+    expect(checkDnsChange('example.com', zone, { ...zone[1], source: 'web' }, 2)).toEqual([]);
+    expect(rules(checkDnsChange('example.com', zone, { ...zone[1], source: '@' }, 2))).toEqual(['cname-at-apex', 'cname-conflict']);
+  });
+});
+
+describe('assertValidDns', () => {
+  it('should fail on errors only', () => {
+    const issues = checkRecordSyntax({ source: 'sip', type: 'SRV', target: '10 5060 sip.example.com.', priority: 1 });
+    expect(() => assertValidDns(issues, 'create SRV record sip')).not.toThrow();
+
+    expect(() =>
+      assertValidDns(checkRecordSyntax({ source: '@', type: 'A', target: 'example.com.' }), 'create A record @'),
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * DNS Validation
+ *
+ * Catches records that the API accepts but that break resolution or mail
+ * delivery: targets with the wrong syntax for their type, a CNAME at the apex
+ * or next to other records, MX and NS records pointing at a CNAME, TXT strings
+ * over 255 characters, and several SPF records for a name. Tools check the
+ * zone as it would be after a change, and only report the issues the change
+ * introduces.
+ */
+
+import { isIP, isIPv4, isIPv6 } from 'net';
+import { ValidationError } from './errors.js';
+import { DnsRecord } from './infomaniak-client.js';
+import { normalizeTarget, txtStrings } from './zone-file.js';
+
+export type DnsIssueSeverity = 'error' | 'warning';
+
+export interface DnsIssue {
+  severity: DnsIssueSeverity;
+  /** Rule that found the issue, e.g. `cname-at-apex` */
+  rule: string;
+  message: string;
+  /** Record at fault; `id` is unset for records not created yet */
+  record: Pick<DnsRecord, 'source' | 'type' | 'target'> & { id?: number };
+}
+
+/** Record of a zone, created or not */
+export type AnyDnsRecord = Pick<DnsRecord, 'source' | 'type' | 'target' | 'priority'> & { id?: number };
+
+/** Longest character string of a TXT record */
+const MAX_TXT_STRING = 255;
+const CAA_TAGS = new Set(['issue', 'issuewild', 'iodef']);
+
+/**
+ * Check the target syntax of a record, regardless of the rest of the zone
+ */
+export function checkRecordSyntax(record: AnyDnsRecord): DnsIssue[] {
+  const issues: DnsIssue[] = [];
+  const report = (severity: DnsIssueSeverity, rule: string, message: string) =>
+    issues.push({ severity, rule, message, record: identify(record) });
+  const target = record.target.trim();
+  const name = displayName(record.source);
+
+  switch (record.type) {
+    case 'A':
+      if (!isIPv4(target)) {
+        report('error', 'invalid-target', `A record ${name} must point to an IPv4 address, not "${target}"${aliasHint(target)}`);
+      }
+      break;
+    case 'AAAA':
+      if (!isIPv6(target)) {
+        report('error', 'invalid-target', `AAAA record ${name} must point to an IPv6 address, not "${target}"${aliasHint(target)}`);
+      }
+      break;
+    case 'CNAME':
+    case 'NS':
+    case 'MX': {
+      const problem = hostnameProblem(target);
+      if (problem) report('error', 'invalid-target', `${record.type} record ${name} must point to a hostname: ${problem}`);
+      if (record.type === 'MX' && record.priority === undefined) {
+        report('warning', 'missing-priority', `MX record ${name} has no priority`);
+      }
+      break;
+    }
+    case 'SRV': {
+      const [weight, port, host, ...rest] = target.split(/\s+/);
+      if (!isPort(weight) || !isPort(port) || !host || rest.length > 0) {
+        report('error', 'invalid-target', `SRV record ${name} must have a "weight port host" target, not "${target}"`);
+      } else if (hostnameProblem(host) && host !== '.') {
+        report('error', 'invalid-target', `SRV record ${name} must point to a hostname: ${hostnameProblem(host)}`);
+      }
+      if (record.priority === undefined) report('warning', 'missing-priority', `SRV record ${name} has no priority`);
+      if (!/^_[^.]+\._(tcp|udp|tls)(\.|$)/i.test(record.source)) {
+        report('warning', 'srv-name', `SRV record ${name} should be named _service._protocol, e.g. _sip._tcp`);
+      }
+      break;
+    }
+    case 'CAA': {
+      const match = /^(\d+)\s+([a-z0-9]+)\s+"[^"]*"$/i.exec(target);
+      if (!match || Number(match[1]) > 255) {
+        report('error', 'invalid-target', `CAA record ${name} must have a 'flags tag "value"' target, e.g. 0 issue "letsencrypt.org"`);
+      } else if (!CAA_TAGS.has(match[2].toLowerCase())) {
+        report('warning', 'caa-tag', `CAA record ${name} has the unknown tag "${match[2]}"`);
+      }
+      break;
+    }
+    case 'TXT': {
+      const longest = Math.max(...txtStrings(target).map((text) => text.length));
+      if (longest > MAX_TXT_STRING) {
+        report(
+          'error',
+          'txt-too-long',
+          `TXT record ${name} has a string of ${longest} characters; split it into quoted strings of at most ${MAX_TXT_STRING} characters, e.g. "first part" "second part"`,
+        );
+      }
+      break;
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check every record of a zone, and the records against each other
+ */
+export function lintDnsZone(domain: string, records: AnyDnsRecord[]): DnsIssue[] {
+  const issues = records.flatMap(checkRecordSyntax);
+  const report = (record: AnyDnsRecord, severity: DnsIssueSeverity, rule: string, message: string) =>
+    issues.push({ severity, rule, message, record: identify(record) });
+
+  const names = new Map<string, AnyDnsRecord[]>();
+  for (const record of records) {
+    const key = sourceKey(record.source);
+    names.set(key, [...(names.get(key) ?? []), record]);
+  }
+
+  for (const [source, atName] of names) {
+    const name = displayName(source);
+    for (const record of atName.filter(({ type }) => type === 'CNAME')) {
+      if (source === '@') {
+        report(record, 'error', 'cname-at-apex', `CNAME records cannot be at the apex of ${domain}; use A/AAAA records instead`);
+      }
+      const others = atName.filter((other) => other !== record);
+      if (others.length > 0) {
+        const types = [...new Set(others.map(({ type }) => type))].join(', ');
+        report(record, 'error', 'cname-conflict', `CNAME ${name} cannot coexist with other records at ${name} (${types})`);
+      }
+    }
+
+    const spf = atName.filter((record) => record.type === 'TXT' && isSpf(record.target));
+    if (spf.length > 1) {
+      for (const record of spf) {
+        report(record, 'error', 'duplicate-spf', `${name} has ${spf.length} SPF records; merge them into a single one`);
+      }
+    }
+
+    const seen = new Set<string>();
+    for (const record of atName) {
+      const key = `${record.type} ${normalizeTarget(record.type, record.target)}`;
+      if (seen.has(key)) report(record, 'warning', 'duplicate-record', `${record.type} record ${name} is defined twice`);
+      seen.add(key);
+    }
+  }
+
+  // Mail servers and nameservers must be named by their canonical name (RFC 2181)
+  for (const record of records.filter(({ type }) => type === 'MX' || type === 'NS')) {
+    const source = sourceWithin(record.target, domain);
+    if (source !== undefined && names.get(source)?.some(({ type }) => type === 'CNAME')) {
+      report(
+        record,
+        'error',
+        'target-is-cname',
+        `${record.type} record ${displayName(record.source)} points to ${record.target}, which is a CNAME; point it to the canonical name instead`,
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Issues changes introduce in a zone
+ *
+ * @param zone - Current records of the zone
+ * @param after - Records of the zone once changed
+ */
+export function checkDnsChanges(domain: string, zone: DnsRecord[], after: AnyDnsRecord[]): DnsIssue[] {
+  const before = new Set(lintDnsZone(domain, zone).map(issueKey));
+  return lintDnsZone(domain, after).filter((issue) => !before.has(issueKey(issue)));
+}
+
+/**
+ * Issues a change of a single record introduces in a zone
+ *
+ * @param record - Record to create, or the record as updated
+ * @param replacing - Id of the record the change updates
+ */
+export function checkDnsChange(domain: string, zone: DnsRecord[], record: AnyDnsRecord, replacing?: number): DnsIssue[] {
+  return checkDnsChanges(domain, zone, [...zone.filter(({ id }) => id !== replacing), record]);
+}
+
+/**
+ * Fail when issues include errors
+ *
+ * @throws ValidationError listing the errors
+ */
+export function assertValidDns(issues: DnsIssue[], action: string): void {
+  const errors = [...new Set(issues.filter(({ severity }) => severity === 'error').map(({ message }) => message))];
+  if (errors.length === 0) return;
+  throw new ValidationError(`Cannot ${action}: ${errors.join('; ')}`, {
+    hint: 'fix the records, or set force: true to skip DNS validation',
+  });
+}
+
+function identify({ source, type, target, ...rest }: AnyDnsRecord): DnsIssue['record'] {
+  return { ...('id' in rest && rest.id !== undefined && { id: rest.id }), source, type, target };
+}
+
+function issueKey({ rule, record }: DnsIssue): string {
+  return [rule, sourceKey(record.source), record.type, normalizeTarget(record.type, record.target)].join(' ');
+}
+
+function sourceKey(source: string): string {
+  return (source || '@').toLowerCase();
+}
+
+function displayName(source: string): string {
+  return source || '@';
+}
+
+/**
+ * Source of a hostname within the zone, or undefined outside the zone
+ */
+function sourceWithin(hostname: string, domain: string): string | undefined {
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  const zone = domain.toLowerCase().replace(/\.$/, '');
+  if (name === zone) return '@';
+  return name.endsWith(`.${zone}`) ? name.slice(0, -zone.length - 1) : undefined;
+}
+
+function hostnameProblem(target: string): string | undefined {
+  if (isIP(target)) return `"${target}" is an IP address`;
+  const name = target.replace(/\.$/, '');
+  if (name.length === 0 || name.length > 253) return `"${target}" is not a valid hostname`;
+  const valid = name.split('.').every((label) => /^[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?$/i.test(label));
+  return valid ? undefined : `"${target}" is not a valid hostname`;
+}
+
+/** Suggestion for address records given a hostname */
+function aliasHint(target: string): string {
+  return hostnameProblem(target) ? '' : '; use a CNAME record to point to a hostname';
+}
+
+function isPort(value: string | undefined): boolean {
+  return value !== undefined && /^\d+$/.test(value) && Number(value) <= 65535;
+}
+
+function isSpf(target: string): boolean {
+  return /^v=spf1(\s|$)/i.test(txtStrings(target).join('').trim());
+}
@@ -0,0 +1,91 @@
+/**
+ * Dry-run Support
+ *
+ * In dry-run mode the API clients do not send requests that change anything.
+ * They resolve to a preview of the request instead, with the current state of
+ * the affected resource when it can be read, usually with a single GET.
+ */
+
+export interface DryRunHint {
+  /** What the request would do, e.g. "Delete DNS record 42 of example.com" */
+  effect?: string;
+  /** Path of the resource the request changes, fetched to show its current state */
+  current?: string;
+  /** Read the current state of the resource the request changes when no path returns it alone */
+  readCurrent?: () => Promise<unknown>;
+  /** The request only reads despite its method, e.g. a search sent as POST, and is always sent */
+  readOnly?: boolean;
+}
+
+/**
+ * Whether a request must be previewed rather than sent
+ */
+export function isPreviewed(dryRun: boolean, method: string, hint?: DryRunHint): boolean {
+  return dryRun && method !== 'GET' && !hint?.readOnly;
+}
+
+export interface DryRunPreview {
+  method: string;
+  url: string;
+  body?: unknown;
+  effect: string;
+  /** State of the resource before the request */
+  before?: unknown;
+  /** Expected state of the resource after the request, when it can be derived */
+  after?: unknown;
+}
+
+export interface DryRunResult {
+  dry_run: DryRunPreview;
+}
+
+export function isDryRunResult(value: unknown): value is DryRunResult {
+  return value !== null && typeof value === 'object' && 'dry_run' in value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Build the preview of a request that is not sent
+ *
+ * @param fetchCurrent - Fetches the resource at a path; failures leave `before` unset
+ */
+export async function previewRequest(
+  method: string,
+  path: string,
+  url: string,
+  body: unknown,
+  hint: DryRunHint | undefined,
+  fetchCurrent: (path: string) => Promise<unknown>,
+): Promise<DryRunResult> {
+  const preview: DryRunPreview = {
+    method,
+    url,
+    effect: hint?.effect ?? `Send a ${method} request to ${path}`,
+  };
+  if (body !== undefined) preview.body = body;
+
+  // Without a hint, only requests addressing an existing resource are assumed to target `path`
+  const current = hint ? hint.current : ['PUT', 'PATCH', 'DELETE'].includes(method) ? path : undefined;
+  const read = hint?.readCurrent ?? (current ? () => fetchCurrent(current) : undefined);
+  if (read) {
+    try {
+      preview.before = await read();
+    } catch {
+      // The current state is informative only
+    }
+  }
+
+  // The expected state is only derived when the request targets the fetched resource itself
+  if (preview.before !== undefined && (hint?.readCurrent || current === path)) {
+    if (method === 'DELETE') {
+      preview.after = null;
+    } else if ((method === 'PUT' || method === 'PATCH') && isPlainObject(preview.before) && isPlainObject(body)) {
+      preview.after = { ...preview.before, ...body };
+    }
+  }
+
+  return { dry_run: preview };
+}
@@ -0,0 +1,69 @@
+/**
+ * End-to-end tests of tool flows, replaying API traffic recorded in src/__cassettes__
+ */
+
+import { describe, it, expect } from "vitest";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Cassette } from "./cassette.js";
+import { InfomaniakClient } from "./infomaniak-client.js";
+import { ChangeJournal } from "./journal.js";
+import { McpServerOptions, createMcpServer } from "./server.js";
+
+async function replay(cassette: string, options?: McpServerOptions): Promise<Client> {
+  const file = fileURLToPath(new URL(`./__cassettes__/${cassette}.json`, import.meta.url));
+  const client = new InfomaniakClient({
+    token: "token",
+    middleware: [new Cassette(file, { mode: "replay" }).middleware()],
+    validation: "strict",
+  });
+  const server = createMcpServer(client, undefined, options);
+  const mcpClient = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  await mcpClient.listTools();
+  return mcpClient;
+}
+
+describe("mailbox flows", () => {
+  it("should create a mailbox, add an alias and undo it", async () => {
+    const mcpClient = await replay("mailbox-alias", { journal: new ChangeJournal() });
+
+    const created = await mcpClient.callTool({
+      name: "infomaniak_create_mailbox",
+      arguments: { mail_id: 1234, mailbox_name: "john", password: "correct-horse" },
+    });
+    expect(created.structuredContent).toMatchObject({ data: { id: 42, email: "john@example.com" } });
+
+    const aliased = await mcpClient.callTool({
+      name: "infomaniak_add_mailbox_alias",
+      arguments: { mail_id: 1234, mailbox_id: 42, alias: "j.doe@example.com" },
+    });
+    expect(aliased.isError).toBeFalsy();
+
+    const mailbox = await mcpClient.callTool({
+      name: "infomaniak_get_mailbox",
+      arguments: { mail_id: 1234, mailbox_id: 42 },
+    });
+    expect(mailbox.structuredContent).toMatchObject({ data: { aliases: ["j.doe@example.com"] } });
+
+    const undone = await mcpClient.callTool({ name: "infomaniak_undo", arguments: { confirm: true } });
+    expect(undone.structuredContent).toMatchObject({
+      entry: { tool: "infomaniak_add_mailbox_alias", undo: { tool: "infomaniak_delete_mailbox_alias" } },
+      result: { result: "success" },
+    });
+  });
+
+  it("should report requests missing from the cassette as tool errors", async () => {
+    const mcpClient = await replay("mailbox-alias");
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_get_mailbox",
+      arguments: { mail_id: 1234, mailbox_id: 7 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: expect.stringContaining("No interaction in cassette") }]);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Tests for email authentication
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DnsRecord, MailService } from './infomaniak-client.js';
+import { auditEmailAuth, planEmailAuth } from './email-auth.js';
+
+const zone: DnsRecord[] = [
+  { id: 1, source: '@', type: 'A', target: '203.0.113.10', ttl: 3600 },
+  { id: 3, source: '@', type: 'MX', target: 'mta-gw.infomaniak.ch.', ttl: 3600, priority: 5 },
+  { id: 4, source: '@', type: 'TXT', target: 'v=spf1 include:spf.infomaniak.ch -all', ttl: 3600 },
+  { id: 5, source: '_dmarc', type: 'TXT', target: 'v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com', ttl: 3600 },
+  { id: 6, source: 'default._domainkey', type: 'TXT', target: 'v=DKIM1; k=rsa; p=MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQC1', ttl: 3600 },
+];
+
+const service = { id: 100, customer_name: 'example.com' } as MailService;
+
+const messages = (findings: { message: string }[]) => findings.map(({ message }) => message);
+
+describe('auditEmailAuth', () => {
+  it('should accept a complete setup for Infomaniak mail', async () => {
+    const report = await auditEmailAuth('example.com', zone, { mailService: service });
+
+    expect(report).toEqual({
+      domain: 'example.com',
+      mail_service: { id: 100, customer_name: 'example.com' },
+      mx: ['mta-gw.infomaniak.ch.'],
+      spf: { record: 'v=spf1 include:spf.infomaniak.ch -all', lookups: 1, all: '-all' },
+      dmarc: { record: 'v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com', policy: 'quarantine', rua: ['mailto:dmarc@example.com'] },
+      dkim: [{ selector: 'default', record: 'v=DKIM1; k=rsa; p=MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQC1' }],
+      findings: [],
+    });
+  });
+
+  it('should flag several SPF records and a DMARC record without policy', async () => {
+    const report = await auditEmailAuth('example.com', [
+      ...zone.filter(({ id }) => id !== 5),
+      { id: 7, source: '@', type: 'TXT', target: 'v=spf1 include:_spf.google.com ~all', ttl: 3600 },
+      { id: 8, source: '_dmarc', type: 'TXT', target: 'v=DMARC1; rua=mailto:dmarc@example.com', ttl: 3600 },
+    ]);
+
+    expect(report.findings).toEqual([
+      { severity: 'error', check: 'spf', message: 'example.com has 2 SPF records; receivers reject them all (permerror), merge them' },
+      { severity: 'error', check: 'dmarc', message: 'DMARC has no policy (p=), so receivers ignore it' },
+    ]);
+  });
+
+  it('should count nested SPF lookups through the resolver', async () => {
+    const nested: Record<string, string[]> = {
+      'spf.infomaniak.ch': ['v=spf1 ip4:203.0.113.0/24 include:spf2.infomaniak.ch -all'],
+      'spf2.infomaniak.ch': ['v=spf1 a mx -all'],
+      '_spf.google.com': ['v=spf1 include:_netblocks.google.com include:_netblocks2.google.com include:_netblocks3.google.com ~all'],
+      '_netblocks.google.com': ['v=spf1 ip4:198.51.100.0/24 ~all'],
+      '_netblocks2.google.com': ['v=spf1 ip6:2001:db8::/32 ~all'],
+      'spf.example.net': ['v=spf1 exists:%{i}.spf.example.net include:spf.infomaniak.ch -all'],
+    };
+    const resolved: string[] = [];
+    const resolveTxt = async (name: string) => {
+      resolved.push(name);
+      if (!nested[name]) throw new Error('queryTxt ENOTFOUND');
+      return nested[name];
+    };
+    const record = 'v=spf1 include:spf.infomaniak.ch include:_spf.google.com include:spf.example.net a mx ptr ~all';
+
+    const report = await auditEmailAuth('example.com', [{ id: 4, source: '@', type: 'TXT', target: record, ttl: 3600 }], {
+      resolveTxt,
+    });
+
+    // 6 in the record, 3 under spf.infomaniak.ch, 3 under _spf.google.com, 2 under spf.example.net
+    expect(report.spf).toEqual({ record, lookups: 14, all: '~all' });
+    expect(resolved.filter((name) => name === 'spf.infomaniak.ch')).toHaveLength(1);
+    expect(messages(report.findings)).toEqual([
+      'example.com has no MX record, so it cannot receive mail',
+      'Could not resolve _netblocks3.google.com, included by SPF: queryTxt ENOTFOUND',
+      'SPF needs 14 DNS lookups, more than the 10 allowed; flatten includes',
+      'SPF uses the "ptr" mechanism, which is deprecated and slow',
+      'example.com has no DMARC record at _dmarc.example.com',
+      'example.com has no DKIM key at <selector>._domainkey.example.com; enable DKIM for the mail service',
+    ]);
+  });
+
+  it('should check the records match the Infomaniak mail service', async () => {
+    const report = await auditEmailAuth(
+      'example.com',
+      [
+        { id: 3, source: '@', type: 'MX', target: 'aspmx.l.google.com.', ttl: 3600, priority: 1 },
+        { id: 4, source: '@', type: 'TXT', target: 'v=spf1 include:_spf.google.com +all', ttl: 3600 },
+        { id: 5, source: '_dmarc', type: 'TXT', target: 'v=DMARC1; p=none; pct=50', ttl: 3600 },
+        { id: 6, source: 'old._domainkey', type: 'TXT', target: 'v=DKIM1; p=', ttl: 3600 },
+      ],
+      { mailService: { ...service, customer_name: 'example.org' } },
+    );
+
+    expect(report.findings.map(({ severity, check }) => `${severity} ${check}`)).toEqual([
+      'error service',
+      'error mx',
+      'error spf',
+      'error spf',
+      'warning dmarc',
+      'warning dmarc',
+      'info dmarc',
+      'warning dkim',
+    ]);
+    expect(messages(report.findings)[0]).toBe('Mail service 100 serves example.org, not example.com');
+  });
+});
+
+describe('planEmailAuth', () => {
+  it('should leave a complete setup unchanged', () => {
+    expect(planEmailAuth('example.com', zone)).toMatchObject({ create: [], update: [], delete: [], unchanged: 3 });
+  });
+
+  it('should merge SPF records and replace foreign MX records', () => {
+    const plan = planEmailAuth(
+      'example.com',
+      [
+        { id: 2, source: '@', type: 'MX', target: 'aspmx.l.google.com.', ttl: 3600, priority: 1 },
+        { id: 3, source: '@', type: 'MX', target: 'alt1.aspmx.l.google.com.', ttl: 3600, priority: 5 },
+        { id: 4, source: '@', type: 'TXT', target: 'v=spf1 include:_spf.google.com ~all', ttl: 300 },
+        { id: 5, source: '@', type: 'TXT', target: 'v=spf1 ip4:203.0.113.10 -all', ttl: 3600 },
+      ],
+      { policy: 'reject', rua: 'dmarc@example.com' },
+    );
+
+    expect(plan.update).toEqual([
+      {
+        id: 2,
+        before: expect.objectContaining({ target: 'aspmx.l.google.com.' }),
+        after: { source: '@', type: 'MX', target: 'mta-gw.infomaniak.ch.', priority: 5, ttl: 3600 },
+      },
+      {
+        id: 4,
+        before: expect.objectContaining({ target: 'v=spf1 include:_spf.google.com ~all' }),
+        after: {
+          source: '@',
+          type: 'TXT',
+          target: 'v=spf1 include:spf.infomaniak.ch include:_spf.google.com ip4:203.0.113.10 ~all',
+          ttl: 300,
+        },
+      },
+    ]);
+    expect(plan.delete.map(({ id }) => id)).toEqual([3, 5]);
+    expect(plan.create).toEqual([
+      { source: '_dmarc', type: 'TXT', target: 'v=DMARC1; p=reject; rua=mailto:dmarc@example.com' },
+    ]);
+  });
+
+  it('should keep the existing DMARC report address', () => {
+    const plan = planEmailAuth(
+      'example.com',
+      [...zone.slice(0, 3), { id: 5, source: '_dmarc', type: 'TXT', target: 'v=DMARC1; p=none; rua=mailto:reports@example.net', ttl: 3600 }],
+      { policy: 'quarantine' },
+    );
+
+    expect(plan.update.map(({ after }) => after.target)).toEqual(['v=DMARC1; p=quarantine; rua=mailto:reports@example.net']);
+  });
+
+  it('should keep the existing DMARC policy when none is given', () => {
+    const dmarc = (target: string) =>
+      planEmailAuth('example.com', [...zone.slice(0, 3), { id: 5, source: '_dmarc', type: 'TXT', target, ttl: 3600 }]);
+
+    expect(dmarc('v=DMARC1; p=reject; rua=mailto:dmarc@example.com')).toMatchObject({ update: [], unchanged: 3 });
+    expect(dmarc('v=DMARC1; rua=mailto:dmarc@example.com').update.map(({ after }) => after.target)).toEqual([
+      'v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com',
+    ]);
+  });
+
+  it('should keep the other DMARC tags', () => {
+    const plan = planEmailAuth(
+      'example.com',
+      [
+        ...zone.slice(0, 3),
+        {
+          id: 5,
+          source: '_dmarc',
+          type: 'TXT',
+          target: 'v=DMARC1; p=none; rua=mailto:reports@example.net; ruf=mailto:forensic@example.net; sp=none; pct=50; adkim=s; aspf=s',
+          ttl: 3600,
+        },
+      ],
+      { policy: 'reject', rua: 'dmarc@example.com' },
+    );
+
+    expect(plan.update.map(({ after }) => after.target)).toEqual([
+      'v=DMARC1; p=reject; rua=mailto:dmarc@example.com; ruf=mailto:forensic@example.net; sp=none; pct=50; adkim=s; aspf=s',
+    ]);
+  });
+
+  it('should keep the SPF qualifier, and a redirect only without all', () => {
+    const spf = (target: string) =>
+      planEmailAuth('example.com', [...zone.filter(({ id }) => id !== 4), { id: 4, source: '@', type: 'TXT', target, ttl: 3600 }])
+        .update.map(({ after }) => after.target);
+
+    expect(spf('v=spf1 ip4:203.0.113.10 ~all')).toEqual(['v=spf1 include:spf.infomaniak.ch ip4:203.0.113.10 ~all']);
+    expect(spf('v=spf1 redirect=_spf.example.net')).toEqual([
+      'v=spf1 include:spf.infomaniak.ch redirect=_spf.example.net',
+    ]);
+    expect(spf('v=spf1 mx redirect=_spf.example.net -all')).toEqual(['v=spf1 include:spf.infomaniak.ch mx -all']);
+  });
+
+  it('should not keep an SPF qualifier letting any server pass', async () => {
+    const spf = (target: string, spfAll?: '-all' | '~all') =>
+      planEmailAuth(
+        'example.com',
+        [...zone.filter(({ id }) => id !== 4), { id: 4, source: '@', type: 'TXT', target, ttl: 3600 }],
+        { spfAll },
+      ).update.map(({ after }) => after.target);
+
+    expect(spf('v=spf1 ip4:203.0.113.10 +all')).toEqual(['v=spf1 include:spf.infomaniak.ch ip4:203.0.113.10 ~all']);
+    expect(spf('v=spf1 ip4:203.0.113.10 ?all')).toEqual(['v=spf1 include:spf.infomaniak.ch ip4:203.0.113.10 ~all']);
+    expect(spf('v=spf1 ip4:203.0.113.10 ?all', '-all')).toEqual(['v=spf1 include:spf.infomaniak.ch ip4:203.0.113.10 -all']);
+
+    const [target] = spf('v=spf1 include:spf.infomaniak.ch all');
+    const report = await auditEmailAuth('example.com', [...zone.filter(({ id }) => id !== 4), { id: 4, source: '@', type: 'TXT', target, ttl: 3600 }]);
+    expect(report.findings).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Email Authentication
+ *
+ * Parses the SPF, DMARC and DKIM records of a zone and flags what makes mail
+ * fail authentication or land in spam: no SPF record or several of them, more
+ * than 10 DNS lookups in SPF, no DMARC policy, revoked DKIM keys... When the
+ * domain uses Infomaniak mail, the records are also checked against what the
+ * service needs, and the records it needs can be generated.
+ */
+
+import { DnsRecord, MailService } from './infomaniak-client.js';
+import { DnsPlan, zoneVersion } from './dns-plan.js';
+import { ZoneRecord, normalizeTarget, splitTxt, txtStrings } from './zone-file.js';
+
+/** Mail exchanger of Infomaniak mail */
+export const INFOMANIAK_MX = 'mta-gw.infomaniak.ch.';
+export const INFOMANIAK_MX_PRIORITY = 5;
+/** SPF record authorizing the Infomaniak mail servers */
+export const INFOMANIAK_SPF_INCLUDE = 'spf.infomaniak.ch';
+
+/** Most DNS lookups an SPF evaluation may need (RFC 7208, section 4.6.4) */
+const MAX_SPF_LOOKUPS = 10;
+const DMARC_POLICIES = ['none', 'quarantine', 'reject'];
+
+export type DmarcPolicy = 'none' | 'quarantine' | 'reject';
+export type SpfAll = '-all' | '~all';
+
+export interface EmailAuthFinding {
+  severity: 'error' | 'warning' | 'info';
+  check: 'mx' | 'spf' | 'dmarc' | 'dkim' | 'service';
+  message: string;
+}
+
+export interface EmailAuthReport {
+  domain: string;
+  /** Infomaniak mail service of the domain, if any */
+  mail_service: { id: number; customer_name: string } | null;
+  mx: string[];
+  spf: { record: string; lookups: number; all: string | null } | null;
+  dmarc: { record: string; policy: string | null; rua: string[] } | null;
+  dkim: { selector: string; record: string }[];
+  findings: EmailAuthFinding[];
+}
+
+/**
+ * TXT records of a name, as published by public DNS
+ */
+export type TxtResolver = (name: string) => Promise<string[]>;
+
+export interface AuditOptions {
+  mailService?: MailService;
+  /** Follows SPF `include:` and `redirect=` to count nested lookups; only the record itself is counted without it */
+  resolveTxt?: TxtResolver;
+}
+
+/**
+ * Audit the email authentication records of a zone
+ */
+export async function auditEmailAuth(domain: string, records: DnsRecord[], options: AuditOptions = {}): Promise<EmailAuthReport> {
+  const findings: EmailAuthFinding[] = [];
+  const report = (severity: EmailAuthFinding['severity'], check: EmailAuthFinding['check'], message: string) =>
+    findings.push({ severity, check, message });
+  const service = options.mailService;
+  const txt = (source: string) =>
+    records.filter((record) => record.type === 'TXT' && sameSource(record.source, source)).map(({ target }) => txtValue(target));
+
+  // Service
+  if (service && service.customer_name.toLowerCase() !== domain.toLowerCase()) {
+    report('error', 'service', `Mail service ${service.id} serves ${service.customer_name}, not ${domain}`);
+  }
+
+  // MX
+  const mx = records.filter((record) => record.type === 'MX' && sameSource(record.source, '@')).map(({ target }) => target);
+  if (mx.length === 0) {
+    report(service ? 'error' : 'warning', 'mx', `${domain} has no MX record, so it cannot receive mail`);
+  } else if (service) {
+    const infomaniak = mx.filter((target) => normalizeTarget('MX', target) === normalizeTarget('MX', INFOMANIAK_MX));
+    if (infomaniak.length === 0) {
+      report('error', 'mx', `No MX record points to ${INFOMANIAK_MX}, so mail for ${domain} does not reach Infomaniak`);
+    } else if (infomaniak.length < mx.length) {
+      report('warning', 'mx', `Some MX records do not point to ${INFOMANIAK_MX}, so part of the mail goes elsewhere`);
+    }
+  }
+
+  // SPF
+  const spfRecords = txt('@').filter(isSpf);
+  let spf: EmailAuthReport['spf'] = null;
+  if (spfRecords.length === 0) {
+    report('error', 'spf', `${domain} has no SPF record, so receivers cannot tell which servers may send its mail`);
+  } else {
+    if (spfRecords.length > 1) {
+      report('error', 'spf', `${domain} has ${spfRecords.length} SPF records; receivers reject them all (permerror), merge them`);
+    }
+    const record = spfRecords[0];
+    const terms = spfTerms(record);
+    const all = terms.find(isSpfAll) ?? null;
+    const lookups = await countSpfLookups(record, options.resolveTxt, new Set([domain.toLowerCase()]), (message) =>
+      report('warning', 'spf', message),
+    );
+    spf = { record, lookups, all };
+
+    if (lookups > MAX_SPF_LOOKUPS) {
+      report('error', 'spf', `SPF needs ${lookups} DNS lookups, more than the ${MAX_SPF_LOOKUPS} allowed; flatten includes`);
+    }
+    if (all === null) {
+      if (!terms.some((term) => term.toLowerCase().startsWith('redirect='))) {
+        report('warning', 'spf', 'SPF does not end with an "all" mechanism, so other servers are neutral rather than refused');
+      }
+    } else if (all === 'all' || all === '+all') {
+      report('error', 'spf', 'SPF ends with "+all", which allows any server to send mail for the domain');
+    } else if (all === '?all') {
+      report('warning', 'spf', 'SPF ends with "?all", which gives no protection; use "-all" or "~all"');
+    }
+    if (terms.some((term) => /^[-+~?]?ptr(:|$)/i.test(term))) {
+      report('warning', 'spf', 'SPF uses the "ptr" mechanism, which is deprecated and slow');
+    }
+    if (service && !terms.some((term) => term.toLowerCase() === `include:${INFOMANIAK_SPF_INCLUDE}`)) {
+      report('error', 'spf', `SPF does not include ${INFOMANIAK_SPF_INCLUDE}, so mail sent through Infomaniak fails SPF`);
+    }
+  }
+
+  // DMARC
+  const dmarcRecords = txt('_dmarc').filter((value) => /^v=DMARC1(;|\s|$)/i.test(value.trim()));
+  let dmarc: EmailAuthReport['dmarc'] = null;
+  if (dmarcRecords.length === 0) {
+    report('error', 'dmarc', `${domain} has no DMARC record at _dmarc.${domain}`);
+  } else {
+    if (dmarcRecords.length > 1) {
+      report('error', 'dmarc', `_dmarc.${domain} has ${dmarcRecords.length} DMARC records; receivers ignore them all`);
+    }
+    const tags = recordTags(dmarcRecords[0]);
+    const policy = tags.get('p') ?? null;
+    const rua = (tags.get('rua') ?? '').split(',').map((uri) => uri.trim()).filter(Boolean);
+    dmarc = { record: dmarcRecords[0], policy, rua };
+
+    if (policy === null) {
+      report('error', 'dmarc', 'DMARC has no policy (p=), so receivers ignore it');
+    } else if (!DMARC_POLICIES.includes(policy.toLowerCase())) {
+      report('error', 'dmarc', `DMARC has the invalid policy "p=${policy}"`);
+    } else if (policy.toLowerCase() === 'none') {
+      report('warning', 'dmarc', 'DMARC policy is p=none, which only monitors; move to p=quarantine once reports are clean');
+    }
+    if (rua.length === 0) report('warning', 'dmarc', 'DMARC has no rua address, so no aggregate report is received');
+    const pct = tags.get('pct');
+    if (pct !== undefined && Number(pct) < 100) {
+      report('info', 'dmarc', `DMARC policy only applies to ${pct}% of the failing mail`);
+    }
+  }
+
+  // DKIM
+  const dkim = records
+    .filter((record) => record.type === 'TXT' && /(^|\.)_domainkey$/i.test(record.source))
+    .map((record) => ({ selector: record.source.replace(/\._domainkey$/i, ''), record: txtValue(record.target) }))
+    .filter(({ record }) => /(^|;)\s*(v=DKIM1|k=|p=)/i.test(record));
+  if (dkim.length === 0) {
+    report(service ? 'error' : 'warning', 'dkim', `${domain} has no DKIM key at <selector>._domainkey.${domain}; enable DKIM for the mail service`);
+  }
+  for (const { selector, record } of dkim) {
+    const key = recordTags(record).get('p');
+    if (key === undefined) report('error', 'dkim', `DKIM key of selector ${selector} has no public key (p=)`);
+    else if (key === '') report('warning', 'dkim', `DKIM key of selector ${selector} is revoked (empty p=)`);
+    else if (!/^[A-Za-z0-9+/]+={0,2}$/.test(key.replace(/\s+/g, ''))) {
+      report('error', 'dkim', `DKIM key of selector ${selector} is not valid base64`);
+    }
+  }
+
+  return {
+    domain,
+    mail_service: service ? { id: service.id, customer_name: service.customer_name } : null,
+    mx,
+    spf,
+    dmarc,
+    dkim,
+    findings,
+  };
+}
+
+export interface EmailAuthSetup {
+  /** DMARC policy for mail failing authentication; the existing one is kept when omitted, or else quarantine */
+  policy?: DmarcPolicy;
+  /**
+   * Qualifier of the SPF `all` mechanism; the existing one is kept when omitted, unless it lets other servers
+   * pass (`+all`, `?all`), or else `-all`
+   */
+  spfAll?: SpfAll;
+  /** Mailbox receiving DMARC aggregate reports; an existing rua is kept when omitted */
+  rua?: string;
+}
+
+/**
+ * Plan the MX, SPF and DMARC records Infomaniak mail needs
+ *
+ * Mechanisms of an existing SPF record are kept, merging several SPF records into one, along with the
+ * qualifier of its `all` unless the audit flags it. The tags of an existing DMARC record are kept too. MX records
+ * pointing elsewhere are replaced. DKIM keys are published by the mail service.
+ */
+export function planEmailAuth(domain: string, records: DnsRecord[], setup: EmailAuthSetup = {}): DnsPlan {
+  const plan: DnsPlan = {
+    domain,
+    zone_version: zoneVersion(records),
+    create: [],
+    update: [],
+    delete: [],
+    unchanged: 0,
+    unmanaged: [],
+  };
+  // Reuse the existing records of a kind, deleting the extra ones
+  const converge = (current: DnsRecord[], desired: ZoneRecord) => {
+    const [first, ...extra] = current;
+    if (!first) plan.create.push(desired);
+    else if (normalizeTarget(first.type, first.target) === normalizeTarget(desired.type, desired.target) && first.priority === desired.priority) {
+      plan.unchanged++;
+    } else {
+      plan.update.push({ id: first.id, before: first, after: { ...desired, ttl: first.ttl } });
+    }
+    plan.delete.push(...extra);
+  };
+
+  const mx = records.filter((record) => record.type === 'MX' && sameSource(record.source, '@'));
+  const infomaniak = mx.filter((record) => normalizeTarget('MX', record.target) === normalizeTarget('MX', INFOMANIAK_MX));
+  converge([...infomaniak, ...mx.filter((record) => !infomaniak.includes(record))], {
+    source: '@',
+    type: 'MX',
+    target: INFOMANIAK_MX,
+    priority: INFOMANIAK_MX_PRIORITY,
+  });
+
+  const spf = records.filter((record) => record.type === 'TXT' && sameSource(record.source, '@') && isSpf(txtValue(record.target)));
+  const terms = [...new Set(spf.flatMap((record) => spfTerms(txtValue(record.target))))];
+  const existingAll = terms.find(isSpfAll);
+  // +all and ?all let any server pass, and without an `all` a redirect decides the result for the other senders
+  const all =
+    setup.spfAll ??
+    (existingAll && !/^[+?]?all$/i.test(existingAll) ? existingAll : undefined) ??
+    (existingAll ? '~all' : terms.some((term) => /^redirect=/i.test(term)) ? undefined : '-all');
+  const mechanisms = terms.filter(
+    (term) =>
+      !isSpfAll(term) &&
+      // A redirect next to an `all` is ignored (RFC 7208, section 6.1)
+      !(all && /^redirect=/i.test(term)) &&
+      term.toLowerCase() !== `include:${INFOMANIAK_SPF_INCLUDE}`,
+  );
+  const spfValue = ['v=spf1', `include:${INFOMANIAK_SPF_INCLUDE}`, ...mechanisms, ...(all ? [all] : [])].join(' ');
+  converge(spf, { source: '@', type: 'TXT', target: splitTxt(spfValue) });
+
+  const dmarc = records.filter(
+    (record) => record.type === 'TXT' && sameSource(record.source, '_dmarc') && /^v=DMARC1/i.test(txtValue(record.target).trim()),
+  );
+  const tags = dmarc.length > 0 ? recordTags(txtValue(dmarc[0].target)) : new Map<string, string>();
+  const policy = setup.policy ?? DMARC_POLICIES.find((value) => value === tags.get('p')?.toLowerCase()) ?? 'quarantine';
+  tags.delete('v');
+  tags.delete('p');
+  if (setup.rua) tags.set('rua', `mailto:${setup.rua}`);
+  const dmarcValue = [`v=DMARC1`, `p=${policy}`, ...[...tags].map(([tag, value]) => `${tag}=${value}`)].join('; ');
+  converge(dmarc, { source: '_dmarc', type: 'TXT', target: dmarcValue });
+
+  return plan;
+}
+
+/**
+ * Count the DNS lookups an SPF evaluation needs, following includes and redirects when a resolver is given
+ */
+async function countSpfLookups(
+  record: string,
+  resolveTxt: TxtResolver | undefined,
+  seen: Set<string>,
+  warn: (message: string) => void,
+): Promise<number> {
+  let lookups = 0;
+  for (const term of spfTerms(record)) {
+    const match = /^[-+~?]?(include:|redirect=|a|mx|ptr|exists:)(.*)$/i.exec(term);
+    if (!match || (/^(a|mx|ptr)$/i.test(match[1]) && match[2] !== '' && !/^[:/]/.test(match[2]))) continue;
+    lookups++;
+
+    const target = /^(include:|redirect=)$/i.test(match[1]) ? match[2].toLowerCase() : undefined;
+    if (!target || !resolveTxt || seen.has(target)) continue;
+    seen.add(target);
+    try {
+      const nested = (await resolveTxt(target)).find(isSpf);
+      if (nested) lookups += await countSpfLookups(nested, resolveTxt, seen, warn);
+      else warn(`${target}, included by SPF, has no SPF record`);
+    } catch (error) {
+      warn(`Could not resolve ${target}, included by SPF: ${(error as Error).message}`);
+    }
+  }
+  return lookups;
+}
+
+function spfTerms(record: string): string[] {
+  return record.trim().split(/\s+/).slice(1);
+}
+
+function isSpf(value: string): boolean {
+  return /^v=spf1(\s|$)/i.test(value.trim());
+}
+
+function isSpfAll(term: string): boolean {
+  return /^[-+~?]?all$/i.test(term);
+}
+
+/**
+ * Tags of a DMARC or DKIM record, e.g. `p` => `quarantine`
+ */
+function recordTags(record: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const part of record.split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) tags.set(part.slice(0, index).trim().toLowerCase(), part.slice(index + 1).trim());
+  }
+  return tags;
+}
+
+/** Value of a TXT target, joining the strings of a split value */
+function txtValue(target: string): string {
+  return txtStrings(target).join('');
+}
+
+function sameSource(source: string, name: string): boolean {
+  return (source || '@').toLowerCase() === name;
+}
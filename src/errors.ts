@@ -0,0 +1,228 @@
+/**
+ * Errors
+ *
+ * Typed errors raised by the API clients and tool calls. Each one carries a
+ * machine-readable code, whether retrying can help, the Infomaniak error code
+ * and request id when the API returned them, and a hint on how to fix the call.
+ */
+
+export type ErrorCode =
+  | 'auth_error'
+  | 'not_found'
+  | 'validation_error'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'timeout'
+  | 'cancelled'
+  | 'conflict';
+
+export interface ErrorDetails {
+  /** HTTP status of the upstream response */
+  status?: number;
+  /** Error code returned by the API, e.g. `not_authorized` */
+  apiCode?: string;
+  /** Request id returned by the API, to quote when contacting support */
+  requestId?: string;
+  /** How to fix the call */
+  hint?: string;
+  /** What the call did before failing, e.g. the changes an atomic DNS apply reverted */
+  data?: unknown;
+  cause?: unknown;
+}
+
+export abstract class InfomaniakError extends Error {
+  abstract readonly code: ErrorCode;
+  /** Whether the same call can succeed if it is repeated later */
+  abstract readonly retryable: boolean;
+  readonly status?: number;
+  readonly apiCode?: string;
+  readonly requestId?: string;
+  readonly hint?: string;
+  readonly data?: unknown;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.apiCode = details.apiCode;
+    this.requestId = details.requestId;
+    this.hint = details.hint;
+    this.data = details.data;
+  }
+}
+
+/** The token is missing, invalid, expired or lacks a scope */
+export class AuthError extends InfomaniakError {
+  readonly code = 'auth_error';
+  readonly retryable = false;
+}
+
+export class NotFoundError extends InfomaniakError {
+  readonly code = 'not_found';
+  readonly retryable = false;
+}
+
+/** The arguments were rejected, by the tool schema or by the API */
+export class ValidationError extends InfomaniakError {
+  readonly code = 'validation_error';
+  readonly retryable = false;
+}
+
+export class RateLimitError extends InfomaniakError {
+  readonly code = 'rate_limited';
+  readonly retryable = true;
+  /** Seconds to wait before retrying, from the Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: ErrorDetails & { retryAfter?: number } = {}) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/** The API failed or answered with an unexpected status */
+export class UpstreamError extends InfomaniakError {
+  readonly code = 'upstream_error';
+
+  get retryable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
+export class TimeoutError extends InfomaniakError {
+  readonly code = 'timeout';
+  readonly retryable = true;
+}
+
+/** The caller cancelled the request, e.g. the MCP client cancelled the tool call */
+export class CancelledError extends InfomaniakError {
+  readonly code = 'cancelled';
+  readonly retryable = false;
+}
+
+/** The resource changed since the call was prepared, e.g. a DNS zone since its plan was computed */
+export class ConflictError extends InfomaniakError {
+  readonly code = 'conflict';
+  readonly retryable = false;
+}
+
+const TOKEN_URL = 'https://manager.infomaniak.com/v3/ng/accounts/token/list';
+
+/** Token scope needed by each API area, keyed by the first path segment */
+const SCOPES: Record<string, string> = {
+  account: 'accounts',
+  profile: 'user_info',
+  domain: 'domain',
+  mail: 'mail',
+  web: 'web',
+  drive: 'drive',
+  swiss_backup: 'swiss_backup',
+  vps: 'vps',
+  dedicated: 'dedicated',
+  certificate: 'certificate',
+  invoicing: 'accounts',
+};
+
+export interface FailedResponse {
+  service: 'infomaniak' | 'kchat';
+  path: string;
+  status: number;
+  headers?: Headers;
+  /** Raw response body */
+  body: string;
+}
+
+/**
+ * Typed error for a non-2xx API response, with a hint for the status and endpoint
+ */
+export function errorFromResponse({ service, path, status, headers, body }: FailedResponse): InfomaniakError {
+  let description = body;
+  let apiCode: string | undefined;
+  let bodyRequestId: string | undefined;
+  try {
+    const json = JSON.parse(body);
+    description = json.error?.description ?? json.message ?? body;
+    apiCode = json.error?.code ?? json.id;
+    bodyRequestId = json.request_id;
+  } catch {
+    // Plain text body
+  }
+
+  const message = `${service === 'kchat' ? 'kChat' : 'Infomaniak'} API Error (${status}): ${description}`;
+  const details: ErrorDetails = {
+    status,
+    apiCode,
+    requestId: headers?.get('X-Request-Id') ?? bodyRequestId ?? undefined,
+  };
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, { ...details, hint: authHint(service, path, status) });
+  }
+  if (status === 404) {
+    return new NotFoundError(message, {
+      ...details,
+      hint: 'check the IDs in the arguments; list the parent resources to find valid ones',
+    });
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, { ...details, hint: 'fix the arguments rejected by the API and call again' });
+  }
+  if (status === 429) {
+    const retryAfter = headers?.get('Retry-After');
+    const seconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
+    return new RateLimitError(message, {
+      ...details,
+      retryAfter: seconds,
+      hint: `rate limit reached — retry ${seconds ? `in ${seconds} seconds` : 'in a minute'}`,
+    });
+  }
+  return new UpstreamError(message, {
+    ...details,
+    hint: status >= 500 ? 'the API is failing — retry later' : undefined,
+  });
+}
+
+function authHint(service: FailedResponse['service'], path: string, status: number): string {
+  if (service === 'kchat') {
+    return status === 401
+      ? 'the kChat token is invalid or expired — check KCHAT_TOKEN'
+      : 'the kChat user is not allowed to do this — ask the user to grant access to the team or channel';
+  }
+  if (status === 401) return `the API token is invalid or expired — create a new one at ${TOKEN_URL}`;
+
+  const scope = SCOPES[path.split('/')[2] ?? ''];
+  return scope
+    ? `token lacks scope \`${scope}\` — regenerate at ${TOKEN_URL}`
+    : `the API token is not allowed to do this — check its scopes at ${TOKEN_URL}`;
+}
+
+/**
+ * Machine-readable description of a failed tool call, for the `_meta` of MCP error results
+ */
+export interface ToolErrorDetails {
+  /** One of the `ErrorCode` values, or `tool_error` for other failures (refused by the policy, not confirmed...) */
+  code: ErrorCode | 'tool_error';
+  message: string;
+  retryable: boolean;
+  status?: number;
+  api_code?: string;
+  request_id?: string;
+  hint?: string;
+  data?: unknown;
+}
+
+export function describeError(error: unknown): ToolErrorDetails {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!(error instanceof InfomaniakError)) return { code: 'tool_error', message, retryable: false };
+
+  return {
+    code: error.code,
+    message,
+    retryable: error.retryable,
+    ...(error.status !== undefined && { status: error.status }),
+    ...(error.apiCode && { api_code: error.apiCode }),
+    ...(error.requestId && { request_id: error.requestId }),
+    ...(error.hint && { hint: error.hint }),
+    ...(error.data !== undefined && { data: error.data }),
+  };
+}
@@ -0,0 +1,387 @@
+/**
+ * Tests for the fake Infomaniak API and fake kChat, driven through the real clients
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { Express } from "express";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { InfomaniakClient, paginate } from "../infomaniak-client.js";
+import { KChatClient } from "../kchat-client.js";
+import { McpServerOptions, createMcpServer } from "../server.js";
+import { FakeInfomaniakState, createFakeInfomaniakApi, createFakeInfomaniakState } from "./infomaniak-api.js";
+import { createFakeKChatApi } from "./kchat-api.js";
+
+async function listen(app: Express): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, "127.0.0.1", () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    });
+  });
+}
+
+async function connect(client: InfomaniakClient, options?: McpServerOptions): Promise<Client> {
+  const mcpServer = createMcpServer(client, undefined, options);
+  const mcpClient = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([mcpServer.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  return mcpClient;
+}
+
+describe("fake Infomaniak API", () => {
+  let server: Server;
+  let url: string;
+  let client: InfomaniakClient;
+  let state: FakeInfomaniakState;
+
+  beforeEach(async () => {
+    state = createFakeInfomaniakState();
+    ({ server, url } = await listen(createFakeInfomaniakApi({ token: "demo", state })));
+    client = new InfomaniakClient({ token: "demo", baseUrl: url, cache: false, maxAttempts: 1, validation: "strict" });
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  it("should create, list and delete DNS records", async () => {
+    const created = await client.createDnsRecord("example.com", { source: "api", type: "A", target: "203.0.113.99" });
+    expect(created.data).toMatchObject({ source: "api", type: "A", target: "203.0.113.99", ttl: 3600 });
+
+    const records = (await client.getDnsRecords("example.com")).data;
+    expect(records).toContainEqual(created.data);
+
+    await client.deleteDnsRecord("example.com", created.data.id);
+    expect((await client.getDnsRecords("example.com")).data).not.toContainEqual(created.data);
+  });
+
+  it("should paginate lists", async () => {
+    const first = await client.getDnsRecords("example.com", { page: 1, per_page: 2 });
+    expect(first).toMatchObject({ total: 4, page: 1, pages: 2, items_per_page: 2 });
+
+    const all = [];
+    for await (const record of paginate((pagination) => client.getDnsRecords("example.com", pagination), 3)) {
+      all.push(record);
+    }
+    expect(all).toHaveLength(4);
+  });
+
+  it("should answer with API errors", async () => {
+    await expect(client.getMailbox(100, 999)).rejects.toMatchObject({ code: "not_found", apiCode: "not_found" });
+    await expect(new InfomaniakClient({ token: "wrong", baseUrl: url, maxAttempts: 1 }).ping()).rejects.toMatchObject({
+      code: "auth_error",
+      status: 401,
+    });
+  });
+
+  it("should serve tool calls of the MCP server", async () => {
+    const mcpClient = await connect(client);
+
+    await mcpClient.callTool({
+      name: "infomaniak_create_mailbox",
+      arguments: { mail_id: 100, mailbox_name: "john", password: "correct-horse" },
+    });
+    const result = await mcpClient.callTool({ name: "infomaniak_list_mailboxes", arguments: { mail_id: 100 } });
+
+    expect(result.structuredContent).toMatchObject({
+      data: [{ email: "contact@example.com" }, { email: "john@example.com", aliases: [] }],
+      has_more: false,
+    });
+  });
+
+  it("should wait for long-running operations and report progress", async () => {
+    const mcpClient = await connect(client, { taskPollIntervalMs: 1 });
+    const progress: unknown[] = [];
+
+    await mcpClient.callTool({ name: "infomaniak_shutdown_vps", arguments: { vps_id: 500, confirm: true } });
+    const result = await mcpClient.callTool(
+      { name: "infomaniak_boot_vps", arguments: { vps_id: 500, wait: true } },
+      undefined,
+      { onprogress: (notification) => progress.push(notification) },
+    );
+
+    expect(result.structuredContent).toMatchObject({
+      task: { status: "completed", message: "VPS vps1.example.com is running", polls: 1, data: { state: "running" } },
+    });
+    expect(progress).toEqual([{ progress: 1, message: "VPS vps1.example.com is running" }]);
+  });
+
+  it("should follow the renewal of a domain of another account", async () => {
+    const mcpClient = await connect(client, { taskPollIntervalMs: 1 });
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_renew_domain",
+      arguments: { domain: "example.net", duration: 1, wait: true },
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      task: { status: "completed", message: "example.net now expires on 2027-11-30", polls: 1 },
+    });
+  });
+
+  it("should wait for a VPS to go down and come back up when rebooting", async () => {
+    const mcpClient = await connect(client, { taskPollIntervalMs: 1 });
+
+    const result = await mcpClient.callTool({ name: "infomaniak_reboot_vps", arguments: { vps_id: 500, wait: true, confirm: true } });
+
+    expect(result.structuredContent).toMatchObject({
+      task: { status: "completed", message: "VPS vps1.example.com is running", polls: 2, data: { state: "running" } },
+    });
+  });
+
+  it("should complete a reboot that started and ended between two polls", async () => {
+    const rebootVps = InfomaniakClient.prototype.rebootVps;
+    vi.spyOn(InfomaniakClient.prototype, "rebootVps").mockImplementation(async function (this: InfomaniakClient, vpsId) {
+      const response = await rebootVps.call(this, vpsId);
+      state.vps[0].state = "running";
+      return response;
+    });
+    try {
+      const mcpClient = await connect(client, { taskPollIntervalMs: 1 });
+
+      const result = await mcpClient.callTool({ name: "infomaniak_reboot_vps", arguments: { vps_id: 500, wait: true, confirm: true } });
+
+      expect(result.structuredContent).toMatchObject({
+        task: { status: "completed", message: "VPS vps1.example.com is running", polls: 6 },
+      });
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("should migrate a zone by exporting and importing it", async () => {
+    const mcpClient = await connect(client);
+
+    const exported = await mcpClient.callTool({ name: "infomaniak_export_dns_zone", arguments: { domain: "example.com" } });
+    const { zone } = exported.structuredContent as { zone: string };
+    const zoneOfOrg = zone.replace("$ORIGIN example.com.", "$ORIGIN example.org.").replace("203.0.113.10", "203.0.113.20");
+
+    const preview = await mcpClient.callTool({
+      name: "infomaniak_import_dns_zone",
+      arguments: { domain: "example.org", zone: zoneOfOrg, dry_run: true },
+    });
+    expect(preview.structuredContent).toMatchObject({
+      existing: [{ source: "@", type: "A", target: "203.0.113.20" }],
+      dry_run: { method: "POST", effect: "Create 3 DNS records in example.org (1 MX, 1 TXT, 1 CNAME)" },
+    });
+
+    const imported = await mcpClient.callTool({
+      name: "infomaniak_import_dns_zone",
+      arguments: { domain: "example.org", zone: zoneOfOrg, confirm: true },
+    });
+    expect(imported.structuredContent).toMatchObject({ created: { length: 3 }, failed: [] });
+    expect((await client.getDnsRecords("example.org")).data.map(({ type }) => type).sort()).toEqual([
+      "A",
+      "CNAME",
+      "MX",
+      "TXT",
+    ]);
+  });
+
+  it("should refuse DNS records that break the zone unless forced", async () => {
+    const mcpClient = await connect(client);
+    const record = { domain: "example.com", source: "www", type: "A", target: "203.0.113.21" };
+
+    const refused = await mcpClient.callTool({ name: "infomaniak_create_dns_record", arguments: record });
+    expect(refused).toMatchObject({
+      isError: true,
+      _meta: {
+        error: {
+          code: "validation_error",
+          message: "Cannot create A record www in example.com: CNAME www cannot coexist with other records at www (A)",
+        },
+      },
+    });
+
+    const forced = await mcpClient.callTool({ name: "infomaniak_create_dns_record", arguments: { ...record, force: true } });
+    expect(forced.isError).toBeFalsy();
+    const lint = await mcpClient.callTool({ name: "infomaniak_lint_dns_zone", arguments: { domain: "example.com" } });
+    expect(lint.structuredContent).toMatchObject({ errors: 1, issues: [{ rule: "cname-conflict" }] });
+  });
+
+  it("should refuse to update a DNS record missing from the zone", async () => {
+    const mcpClient = await connect(client);
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_update_dns_record",
+      arguments: { domain: "example.org", record_id: 999, target: "203.0.113.22" },
+    });
+
+    expect(result).toMatchObject({
+      isError: true,
+      _meta: { error: { code: "not_found", message: "DNS record 999 was not found in the zone of example.org" } },
+    });
+  });
+
+  it("should apply a DNS plan only if the zone did not change since planning", async () => {
+    const mcpClient = await connect(client);
+    const records = ["- source: '@'", "  type: A", "  target: 203.0.113.10", "  ttl: 300"].join("\n");
+
+    const planned = await mcpClient.callTool({ name: "infomaniak_dns_plan", arguments: { domain: "example.com", records } });
+    const { zone_version } = planned.structuredContent as { zone_version: string };
+    expect(planned.structuredContent).toMatchObject({ update: [{ after: { ttl: 300 } }], create: [], delete: [] });
+
+    const extra = await client.createDnsRecord("example.com", { source: "@", type: "A", target: "203.0.113.11" });
+    const stale = await mcpClient.callTool({
+      name: "infomaniak_dns_apply",
+      arguments: { domain: "example.com", records, zone_version, confirm: true },
+    });
+    expect(stale).toMatchObject({ isError: true, _meta: { error: { code: "conflict" } } });
+
+    const replanned = await mcpClient.callTool({ name: "infomaniak_dns_plan", arguments: { domain: "example.com", records } });
+    const { zone_version: current } = replanned.structuredContent as { zone_version: string };
+    const unreviewed = await mcpClient.callTool({
+      name: "infomaniak_dns_apply",
+      arguments: {
+        domain: "example.com",
+        records: records.replace("203.0.113.10", "203.0.113.66"),
+        zone_version: current,
+        confirm: true,
+      },
+    });
+    expect(unreviewed).toMatchObject({ isError: true, _meta: { error: { code: "conflict" } } });
+    const pruned = await mcpClient.callTool({
+      name: "infomaniak_dns_apply",
+      arguments: { domain: "example.com", records, prune: true, zone_version: current, confirm: true },
+    });
+    expect(pruned).toMatchObject({ isError: true, _meta: { error: { code: "conflict" } } });
+
+    const applied = await mcpClient.callTool({
+      name: "infomaniak_dns_apply",
+      arguments: {
+        domain: "example.com",
+        records,
+        zone_version: current,
+        confirm: true,
+      },
+    });
+
+    expect(applied.structuredContent).toMatchObject({
+      applied: [
+        { action: "delete", record: { id: extra.data.id } },
+        { action: "update", record: { target: "203.0.113.10", ttl: 300 } },
+      ],
+      failed: [],
+    });
+  });
+
+  it("should audit email authentication and set up the missing records", async () => {
+    const mcpClient = await connect(client);
+    const audit = () =>
+      mcpClient.callTool({ name: "infomaniak_audit_email_auth", arguments: { domain: "example.com", resolve_includes: false } });
+
+    expect((await audit()).structuredContent).toMatchObject({
+      mail_service: { id: 100 },
+      spf: { record: "v=spf1 include:spf.infomaniak.ch -all", lookups: 1, all: "-all" },
+      dmarc: null,
+      findings: [{ check: "dmarc", severity: "error" }, { check: "dkim" }],
+    });
+
+    const setup = await mcpClient.callTool({
+      name: "infomaniak_setup_email_auth",
+      arguments: { domain: "example.com", rua: "dmarc@example.com", confirm: true },
+    });
+    expect(setup.structuredContent).toMatchObject({
+      unchanged: 2,
+      applied: [{ action: "create", record: { source: "_dmarc", target: "v=DMARC1; p=quarantine; rua=mailto:dmarc@example.com" } }],
+      failed: [],
+    });
+    expect((await audit()).structuredContent).toMatchObject({ dmarc: { policy: "quarantine" }, findings: [{ check: "dkim" }] });
+  });
+
+  it("should apply DNS templates, replacing conflicting records on request", async () => {
+    const mcpClient = await connect(client);
+    const google = {
+      domain: "example.com",
+      template: "google-workspace",
+      variables: { verification: "google-site-verification=abc123" },
+    };
+
+    const conflicting = await mcpClient.callTool({ name: "infomaniak_apply_dns_template", arguments: google });
+    expect(conflicting).toMatchObject({
+      isError: true,
+      _meta: {
+        error: {
+          code: "conflict",
+          message:
+            "Template google-workspace conflicts with records of example.com: MX @ mta-gw.infomaniak.ch. " +
+            "(@ already has MX records); TXT @ v=spf1 include:spf.infomaniak.ch -all (@ already has a v=spf1 record)",
+        },
+      },
+    });
+
+    const replaced = await mcpClient.callTool({
+      name: "infomaniak_apply_dns_template",
+      arguments: { ...google, replace: true, confirm: true },
+    });
+    expect(replaced.structuredContent).toMatchObject({
+      template: "google-workspace",
+      applied: [
+        { action: "delete", record: { type: "MX" } },
+        { action: "delete", record: { type: "TXT" } },
+        { action: "create", record: { type: "TXT", target: "google-site-verification=abc123" } },
+        { action: "create", record: { type: "MX", target: "smtp.google.com.", priority: 1 } },
+        { action: "create", record: { type: "TXT", target: "v=spf1 include:_spf.google.com ~all" } },
+      ],
+      failed: [],
+    });
+
+    const again = await mcpClient.callTool({ name: "infomaniak_apply_dns_template", arguments: google });
+    expect(again.structuredContent).toMatchObject({ create: [], unchanged: 3, applied: [] });
+  });
+});
+
+describe("fake kChat", () => {
+  let server: Server;
+  let client: KChatClient;
+
+  beforeEach(async () => {
+    const fake = await listen(createFakeKChatApi());
+    server = fake.server;
+    client = new KChatClient({
+      host: "localhost",
+      baseUrl: `${fake.url}/api/v4`,
+      token: "demo",
+      maxAttempts: 1,
+      validation: "strict",
+    });
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  it("should post to a channel and find the post", async () => {
+    const [team] = await client.listMyTeams();
+    const [channel] = await client.listChannels(team.id);
+
+    const post = await client.createPost(channel.id, "Deploy finished");
+    const posts = await client.getChannelPosts(channel.id);
+    expect(posts.order[0]).toBe(post.id);
+
+    const found = await client.searchPosts(team.id, "deploy");
+    expect(found.order).toEqual([post.id]);
+
+    await client.deletePost(post.id);
+    expect((await client.getChannelPosts(channel.id)).posts[post.id]).toBeUndefined();
+  });
+
+  it("should open a single direct channel per pair of users", async () => {
+    const me = await client.getMe();
+    const [alice] = await client.searchUsers("alice");
+
+    const channel = await client.createDirectChannel([me.id, alice.id]);
+
+    expect(channel.type).toBe("D");
+    expect(await client.createDirectChannel([alice.id, me.id])).toEqual(channel);
+  });
+
+  it("should answer with Mattermost errors", async () => {
+    await expect(client.getChannel("missing")).rejects.toMatchObject({
+      code: "not_found",
+      apiCode: "app.context.404.app_error",
+    });
+  });
+});
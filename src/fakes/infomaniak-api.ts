@@ -0,0 +1,783 @@
+/**
+ * Fake Infomaniak API
+ *
+ * Stateful in-memory stand-in for the Infomaniak endpoints used by
+ * InfomaniakClient, seeded with a demo account. Resources created, updated or
+ * deleted through it show up in later reads, so tool flows can be demoed and
+ * integration-tested without a real account. Point `baseUrl` at it.
+ */
+
+import express, { Express, NextFunction, Request, Response } from "express";
+import type {
+  Account,
+  AutoresponderSettings,
+  CronJob,
+  Database,
+  DedicatedServer,
+  DnsRecord,
+  Domain,
+  DomainNameserver,
+  EmailRedirection,
+  FtpAccount,
+  Invoice,
+  KDrive,
+  KDriveFile,
+  MailService,
+  Mailbox,
+  Product,
+  Profile,
+  Site,
+  SslCertificate,
+  SwissBackup,
+  Vps,
+  WebHosting,
+} from "../infomaniak-client.js";
+
+export interface FakeInfomaniakState {
+  profile: Profile;
+  accounts: Account[];
+  products: Product[];
+  /** Keyed by account id */
+  domains: Map<number, Domain[]>;
+  /** Keyed by domain name */
+  nameservers: Map<string, DomainNameserver[]>;
+  dnsRecords: Map<string, DnsRecord[]>;
+  mailServices: MailService[];
+  /** Keyed by mail service id */
+  mailboxes: Map<number, Mailbox[]>;
+  redirections: Map<number, EmailRedirection[]>;
+  /** Keyed by mailbox id */
+  autoresponders: Map<number, AutoresponderSettings>;
+  hostings: WebHosting[];
+  /** Keyed by hosting id */
+  sites: Map<number, Site[]>;
+  databases: Map<number, Database[]>;
+  cronJobs: Map<number, CronJob[]>;
+  ftpAccounts: Map<number, FtpAccount[]>;
+  drives: KDrive[];
+  /** Keyed by drive id */
+  files: Map<number, KDriveFile[]>;
+  trash: Map<number, KDriveFile[]>;
+  favorites: Set<number>;
+  backups: SwissBackup[];
+  vps: Vps[];
+  dedicated: DedicatedServer[];
+  certificates: SslCertificate[];
+  /** Keyed by account id */
+  invoices: Map<number, Invoice[]>;
+}
+
+export interface FakeInfomaniakApiOptions {
+  /** Only accept this bearer token; any token is accepted when omitted */
+  token?: string;
+  /** Initial state (default: the demo account of `createFakeInfomaniakState`) */
+  state?: FakeInfomaniakState;
+}
+
+/** Id of the root directory of every kDrive */
+const ROOT_DIRECTORY = 1;
+
+/**
+ * Demo account with two domains, a mail service, a web hosting, a kDrive, a VPS and billing data
+ */
+export function createFakeInfomaniakState(): FakeInfomaniakState {
+  const created_at = "2024-01-15T09:00:00Z";
+  const file = (id: number, name: string, type: "dir" | "file", parent_id: number): KDriveFile => ({
+    id,
+    name,
+    type,
+    size: type === "dir" ? 0 : 2048,
+    created_at: 1_705_309_200,
+    updated_at: 1_705_309_200,
+    parent_id,
+    is_shared: false,
+    ...(type === "file" && { mime_type: "application/pdf" }),
+  });
+
+  return {
+    profile: {
+      id: 1,
+      login: "demo",
+      email: "demo@example.com",
+      first_name: "Demo",
+      last_name: "User",
+      current_account_id: 1,
+    },
+    accounts: [
+      { id: 1, name: "Demo SA", legal_entity_type: "company", created_at },
+      { id: 2, name: "Demo Association", legal_entity_type: "association", created_at },
+    ],
+    products: [
+      { id: 1, service_id: 14, service_name: "domain", account_id: 1, customer_name: "example.com" },
+      { id: 2, service_id: 29, service_name: "email_hosting", account_id: 1, customer_name: "example.com" },
+      { id: 3, service_id: 2, service_name: "hosting", account_id: 1, customer_name: "example.com" },
+    ],
+    domains: new Map([
+      [
+        1,
+        [
+          {
+            id: 1,
+            customer_name: "example.com",
+            registrant: "Demo SA",
+            registry_expiration: "2027-01-15",
+            auto_renew: true,
+            status: "active",
+          },
+          {
+            id: 2,
+            customer_name: "example.org",
+            registrant: "Demo SA",
+            registry_expiration: "2026-12-01",
+            auto_renew: false,
+            status: "active",
+          },
+        ],
+      ],
+      [
+        2,
+        [
+          {
+            id: 3,
+            customer_name: "example.net",
+            registrant: "Demo Association",
+            registry_expiration: "2026-11-30",
+            auto_renew: false,
+            status: "active",
+          },
+        ],
+      ],
+    ]),
+    nameservers: new Map([
+      ["example.com", [{ host: "ns11.infomaniak.ch" }, { host: "ns12.infomaniak.ch" }]],
+      ["example.org", [{ host: "ns11.infomaniak.ch" }, { host: "ns12.infomaniak.ch" }]],
+    ]),
+    dnsRecords: new Map([
+      [
+        "example.com",
+        [
+          { id: 1, source: "@", type: "A", target: "203.0.113.10", ttl: 3600 },
+          { id: 2, source: "www", type: "CNAME", target: "example.com.", ttl: 3600 },
+          { id: 3, source: "@", type: "MX", target: "mta-gw.infomaniak.ch.", ttl: 3600, priority: 5 },
+          { id: 4, source: "@", type: "TXT", target: "v=spf1 include:spf.infomaniak.ch -all", ttl: 3600 },
+        ],
+      ],
+      ["example.org", [{ id: 5, source: "@", type: "A", target: "203.0.113.20", ttl: 3600 }]],
+    ]),
+    mailServices: [{ id: 100, account_id: 1, customer_name: "example.com", nb_mailbox: 1, max_mailbox: 10 }],
+    mailboxes: new Map([
+      [
+        100,
+        [
+          {
+            id: 1,
+            mail_id: 100,
+            mailbox_name: "contact",
+            email: "contact@example.com",
+            aliases: ["info@example.com"],
+            size_used: 1024,
+            max_size: 20_480,
+          },
+        ],
+      ],
+    ]),
+    redirections: new Map([[100, []]]),
+    autoresponders: new Map(),
+    hostings: [
+      {
+        id: 200,
+        account_id: 1,
+        customer_name: "example.com",
+        ip: "203.0.113.10",
+        service_name: "hosting",
+        quota_used: 512,
+        quota: 256_000,
+      },
+    ],
+    sites: new Map([[200, [{ id: 1, fqdn: "example.com", path: "/web", php_version: "8.3", ssl_enabled: true }]]]),
+    databases: new Map([[200, [{ id: 1, name: "demo_shop", size: 12, charset: "utf8mb4" }]]]),
+    cronJobs: new Map([[200, []]]),
+    ftpAccounts: new Map([[200, [{ id: 1, hosting_id: 200, login: "demo", home_directory: "/", is_active: true }]]]),
+    drives: [{ id: 300, name: "Demo kDrive", account_id: 1, size_used: 4096, size: 1_099_511_627_776 }],
+    files: new Map([
+      [
+        300,
+        [
+          file(ROOT_DIRECTORY, "Private", "dir", 0),
+          file(2, "Documents", "dir", ROOT_DIRECTORY),
+          file(3, "Invoices", "dir", 2),
+          file(4, "invoice-2024-01.pdf", "file", 3),
+          file(5, "report.pdf", "file", 2),
+        ],
+      ],
+    ]),
+    trash: new Map([[300, []]]),
+    favorites: new Set(),
+    backups: [
+      {
+        id: 400,
+        account_id: 1,
+        customer_name: "Demo backup",
+        slots: [{ id: 1, name: "laptop", size_used: 1024, max_size: 102_400, protocol: "swift" }],
+      },
+    ],
+    vps: [
+      {
+        id: 500,
+        account_id: 1,
+        hostname: "vps1.example.com",
+        state: "running",
+        cpu: 2,
+        memory: 4096,
+        disk: 80,
+        ip: "203.0.113.50",
+        created_at,
+      },
+    ],
+    dedicated: [{ id: 600, account_id: 1, hostname: "server1.example.com", state: "running", ip: "203.0.113.60" }],
+    certificates: [
+      {
+        id: 700,
+        account_id: 1,
+        common_name: "example.com",
+        alternative_names: ["www.example.com"],
+        type: "lets_encrypt",
+        status: "valid",
+        not_before: "2026-01-01T00:00:00Z",
+        not_after: "2026-04-01T00:00:00Z",
+      },
+    ],
+    invoices: new Map([
+      [
+        1,
+        [
+          {
+            id: 800,
+            account_id: 1,
+            reference: "INV-2026-0001",
+            amount_ttc: 129.9,
+            currency: "CHF",
+            status: "paid",
+            due_date: "2026-02-15",
+            created_at: "2026-01-15T00:00:00Z",
+          },
+        ],
+      ],
+    ]),
+  };
+}
+
+type ApiRequest = Request<Record<string, string>>;
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    description: string,
+  ) {
+    super(description);
+  }
+}
+
+function notFound(what: string): never {
+  throw new ApiError(404, "not_found", `${what} not found`);
+}
+
+function required(body: Record<string, unknown>, ...fields: string[]): void {
+  const missing = fields.filter((field) => body[field] === undefined || body[field] === "");
+  if (missing.length > 0) throw new ApiError(422, "validation_failed", `Missing fields: ${missing.join(", ")}`);
+}
+
+function ok(res: Response, data: unknown, status = 200): void {
+  res.status(status).json({ result: "success", data });
+}
+
+/**
+ * Respond with one page of a list, with the pagination fields of the API
+ */
+function page(req: Request, res: Response, items: unknown[]): void {
+  const perPage = Math.max(1, Number(req.query.per_page) || items.length || 1);
+  const current = Math.max(1, Number(req.query.page) || 1);
+  res.json({
+    result: "success",
+    data: items.slice((current - 1) * perPage, current * perPage),
+    total: items.length,
+    page: current,
+    pages: Math.max(1, Math.ceil(items.length / perPage)),
+    items_per_page: perPage,
+  });
+}
+
+function listOf<K, T>(map: Map<K, T[]>, key: K, what: string): T[] {
+  return map.get(key) ?? notFound(what);
+}
+
+function find<T extends { id: number }>(items: T[], id: string, what: string): T {
+  return items.find((item) => item.id === Number(id)) ?? notFound(`${what} ${id}`);
+}
+
+function remove<T extends { id: number }>(items: T[], id: string, what: string): T {
+  const item = find(items, id, what);
+  items.splice(items.indexOf(item), 1);
+  return item;
+}
+
+/** Copy the fields of a request body that a resource has */
+function assign<T extends object>(target: T, body: Record<string, unknown>, fields: (keyof T & string)[]): T {
+  for (const field of fields) {
+    if (body[field] !== undefined) (target as Record<string, unknown>)[field] = body[field];
+  }
+  return target;
+}
+
+/**
+ * Create the Express app serving the fake API
+ */
+export function createFakeInfomaniakApi(options: FakeInfomaniakApiOptions = {}): Express {
+  const state = options.state ?? createFakeInfomaniakState();
+  let lastId = 1000;
+  const nextId = () => ++lastId;
+
+  const app = express();
+  app.use(express.json());
+
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (!token || (options.token && token !== options.token)) {
+      throw new ApiError(401, "not_authorized", "The token is invalid or expired");
+    }
+    req.body ??= {};
+    next();
+  });
+
+  // ─── Profile & Accounts ───────────────────────────────────────────────────
+
+  app.get("/1/ping", (_req, res) => ok(res, { message: "pong" }));
+  app.get("/1/profile", (_req, res) => ok(res, state.profile));
+  app.get("/1/account", (req, res) => page(req, res, state.accounts));
+  app.get("/1/account/:account", (req, res) => ok(res, find(state.accounts, req.params.account, "Account")));
+  app.get("/1/account/:account/product", (req, res) =>
+    page(req, res, state.products.filter((product) => product.account_id === Number(req.params.account))),
+  );
+
+  // ─── Domains & DNS ────────────────────────────────────────────────────────
+
+  app.get("/1/domain/account/:account", (req, res) =>
+    page(req, res, listOf(state.domains, Number(req.params.account), `Account ${req.params.account}`)),
+  );
+  app.get("/1/domain/account/:account/domain/:domain", (req, res) => {
+    const domains = listOf(state.domains, Number(req.params.account), `Account ${req.params.account}`);
+    ok(res, domains.find((domain) => domain.customer_name === req.params.domain) ?? notFound(`Domain ${req.params.domain}`));
+  });
+  app.get("/1/domain/:domain/nameserver", (req, res) =>
+    page(req, res, listOf(state.nameservers, req.params.domain, `Domain ${req.params.domain}`)),
+  );
+  app.put("/1/domain/:domain/nameserver", (req, res) => {
+    listOf(state.nameservers, req.params.domain, `Domain ${req.params.domain}`);
+    required(req.body, "nameservers");
+    state.nameservers.set(req.params.domain, req.body.nameservers);
+    ok(res, true);
+  });
+  app.post("/1/domain/:domain/renew", (req, res) => {
+    const domain = [...state.domains.values()].flat().find((item) => item.customer_name === req.params.domain);
+    if (!domain) notFound(`Domain ${req.params.domain}`);
+    const expiration = new Date(domain.registry_expiration);
+    expiration.setFullYear(expiration.getFullYear() + (Number(req.body.duration) || 1));
+    domain.registry_expiration = expiration.toISOString().slice(0, 10);
+    ok(res, true);
+  });
+  app.get("/1/domain/:domain/dns/record", (req, res) =>
+    page(req, res, listOf(state.dnsRecords, req.params.domain, `Domain ${req.params.domain}`)),
+  );
+  app.post("/1/domain/:domain/dns/record", (req, res) => {
+    const records = listOf(state.dnsRecords, req.params.domain, `Domain ${req.params.domain}`);
+    required(req.body, "source", "type", "target");
+    const record = assign({ id: nextId(), source: "", type: "", target: "", ttl: 3600 } as DnsRecord, req.body, [
+      "source",
+      "type",
+      "target",
+      "ttl",
+      "priority",
+    ]);
+    records.push(record);
+    ok(res, record, 201);
+  });
+  app.put("/1/domain/:domain/dns/record/:record", (req, res) => {
+    const records = listOf(state.dnsRecords, req.params.domain, `Domain ${req.params.domain}`);
+    const record = find(records, req.params.record, "DNS record");
+    ok(res, assign(record, req.body, ["source", "type", "target", "ttl", "priority"]));
+  });
+  app.delete("/1/domain/:domain/dns/record/:record", (req, res) => {
+    remove(listOf(state.dnsRecords, req.params.domain, `Domain ${req.params.domain}`), req.params.record, "DNS record");
+    ok(res, true);
+  });
+
+  // ─── Mail ─────────────────────────────────────────────────────────────────
+
+  const mailService = (id: string) => find(state.mailServices, id, "Mail service");
+  const mailboxOf = (req: ApiRequest) =>
+    find(listOf(state.mailboxes, mailService(req.params.mail).id, "Mail service"), req.params.mailbox, "Mailbox");
+
+  app.get("/1/mail", (req, res) =>
+    page(req, res, state.mailServices.filter((service) => !req.query.account_id || service.account_id === Number(req.query.account_id))),
+  );
+  app.get("/1/mail/:mail", (req, res) => ok(res, mailService(req.params.mail)));
+  app.get("/1/mail/:mail/mailbox", (req, res) =>
+    page(req, res, listOf(state.mailboxes, mailService(req.params.mail).id, "Mail service")),
+  );
+  app.post("/1/mail/:mail/mailbox", (req, res) => {
+    const service = mailService(req.params.mail);
+    const mailboxes = listOf(state.mailboxes, service.id, "Mail service");
+    required(req.body, "mailbox_name", "password");
+    if (mailboxes.some((mailbox) => mailbox.mailbox_name === req.body.mailbox_name)) {
+      throw new ApiError(409, "mailbox_already_exists", `Mailbox ${req.body.mailbox_name} already exists`);
+    }
+    const mailbox: Mailbox = {
+      id: nextId(),
+      mail_id: service.id,
+      mailbox_name: req.body.mailbox_name,
+      email: `${req.body.mailbox_name}@${service.customer_name}`,
+      aliases: [],
+      size_used: 0,
+      max_size: req.body.max_size ?? 20_480,
+    };
+    mailboxes.push(mailbox);
+    service.nb_mailbox = mailboxes.length;
+    ok(res, mailbox, 201);
+  });
+  app.get("/1/mail/:mail/mailbox/:mailbox", (req, res) => ok(res, mailboxOf(req)));
+  app.put("/1/mail/:mail/mailbox/:mailbox", (req, res) => ok(res, assign(mailboxOf(req), req.body, ["max_size"])));
+  app.delete("/1/mail/:mail/mailbox/:mailbox", (req, res) => {
+    const service = mailService(req.params.mail);
+    const mailboxes = listOf(state.mailboxes, service.id, "Mail service");
+    remove(mailboxes, req.params.mailbox, "Mailbox");
+    service.nb_mailbox = mailboxes.length;
+    ok(res, true);
+  });
+  app.post("/1/mail/:mail/mailbox/:mailbox/alias", (req, res) => {
+    const mailbox = mailboxOf(req);
+    required(req.body, "alias");
+    if (!mailbox.aliases.includes(req.body.alias)) mailbox.aliases.push(req.body.alias);
+    ok(res, true);
+  });
+  app.delete("/1/mail/:mail/mailbox/:mailbox/alias/:alias", (req, res) => {
+    const mailbox = mailboxOf(req);
+    if (!mailbox.aliases.includes(req.params.alias)) notFound(`Alias ${req.params.alias}`);
+    mailbox.aliases = mailbox.aliases.filter((alias) => alias !== req.params.alias);
+    ok(res, true);
+  });
+  app.get("/1/mail/:mail/mailbox/:mailbox/autoresponder", (req, res) =>
+    ok(res, state.autoresponders.get(mailboxOf(req).id) ?? { enabled: false }),
+  );
+  app.put("/1/mail/:mail/mailbox/:mailbox/autoresponder", (req, res) => {
+    const settings = assign({ enabled: false } as AutoresponderSettings, req.body, [
+      "enabled",
+      "subject",
+      "body",
+      "from_date",
+      "to_date",
+    ]);
+    state.autoresponders.set(mailboxOf(req).id, settings);
+    ok(res, settings);
+  });
+  app.get("/1/mail/:mail/mailbox/:mailbox/folder", (req, res) => {
+    const mailbox = mailboxOf(req);
+    const folder = (name: string, messages_count: number, unseen_count: number) => ({
+      id: `${mailbox.id}-${name}`,
+      name,
+      path: name === "INBOX" ? name : `INBOX.${name}`,
+      messages_count,
+      unseen_count,
+    });
+    page(req, res, [folder("INBOX", 12, 3), folder("Sent", 8, 0), folder("Trash", 1, 0)]);
+  });
+  app.get("/1/mail/:mail/redirection", (req, res) =>
+    page(req, res, listOf(state.redirections, mailService(req.params.mail).id, "Mail service")),
+  );
+  app.post("/1/mail/:mail/redirection", (req, res) => {
+    const service = mailService(req.params.mail);
+    required(req.body, "from", "to");
+    const redirection: EmailRedirection = {
+      id: nextId(),
+      mail_id: service.id,
+      from: req.body.from,
+      to: req.body.to,
+      keep_copy: req.body.keep_copy ?? false,
+      created_at: new Date().toISOString(),
+    };
+    listOf(state.redirections, service.id, "Mail service").push(redirection);
+    ok(res, redirection, 201);
+  });
+  app.delete("/1/mail/:mail/redirection/:redirection", (req, res) => {
+    remove(listOf(state.redirections, mailService(req.params.mail).id, "Mail service"), req.params.redirection, "Redirection");
+    ok(res, true);
+  });
+
+  // ─── Web Hosting ──────────────────────────────────────────────────────────
+
+  const hostingItems = <T>(map: Map<number, T[]>, req: ApiRequest): T[] =>
+    listOf(map, find(state.hostings, req.params.hosting, "Hosting").id, `Hosting ${req.params.hosting}`);
+
+  app.get("/1/web", (req, res) =>
+    page(req, res, state.hostings.filter((hosting) => !req.query.account_id || hosting.account_id === Number(req.query.account_id))),
+  );
+  app.get("/1/web/:hosting", (req, res) => ok(res, find(state.hostings, req.params.hosting, "Hosting")));
+
+  app.get("/1/web/:hosting/site", (req, res) => page(req, res, hostingItems(state.sites, req)));
+  app.get("/1/web/:hosting/site/:site", (req, res) => ok(res, find(hostingItems(state.sites, req), req.params.site, "Site")));
+  app.post("/1/web/:hosting/site", (req, res) => {
+    required(req.body, "fqdn");
+    const site: Site = {
+      id: nextId(),
+      fqdn: req.body.fqdn,
+      path: req.body.path ?? `/sites/${req.body.fqdn}`,
+      php_version: req.body.php_version ?? "8.3",
+      ssl_enabled: false,
+    };
+    hostingItems(state.sites, req).push(site);
+    ok(res, site, 201);
+  });
+  app.put("/1/web/:hosting/site/:site", (req, res) =>
+    ok(res, assign(find(hostingItems(state.sites, req), req.params.site, "Site"), req.body, ["path", "php_version"])),
+  );
+  app.delete("/1/web/:hosting/site/:site", (req, res) => {
+    remove(hostingItems(state.sites, req), req.params.site, "Site");
+    ok(res, true);
+  });
+
+  app.get("/1/web/:hosting/database", (req, res) => page(req, res, hostingItems(state.databases, req)));
+  app.get("/1/web/:hosting/database/:database", (req, res) =>
+    ok(res, find(hostingItems(state.databases, req), req.params.database, "Database")),
+  );
+  app.post("/1/web/:hosting/database", (req, res) => {
+    required(req.body, "name");
+    const database: Database = { id: nextId(), name: req.body.name, size: 0, charset: req.body.charset ?? "utf8mb4" };
+    hostingItems(state.databases, req).push(database);
+    ok(res, database, 201);
+  });
+  app.delete("/1/web/:hosting/database/:database", (req, res) => {
+    remove(hostingItems(state.databases, req), req.params.database, "Database");
+    ok(res, true);
+  });
+
+  app.get("/1/web/:hosting/cron", (req, res) => page(req, res, hostingItems(state.cronJobs, req)));
+  app.post("/1/web/:hosting/cron", (req, res) => {
+    required(req.body, "command", "schedule");
+    const cron: CronJob = {
+      id: nextId(),
+      hosting_id: Number(req.params.hosting),
+      command: req.body.command,
+      schedule: req.body.schedule,
+      description: req.body.description,
+      status: "active",
+    };
+    hostingItems(state.cronJobs, req).push(cron);
+    ok(res, cron, 201);
+  });
+  app.put("/1/web/:hosting/cron/:cron", (req, res) =>
+    ok(res, assign(find(hostingItems(state.cronJobs, req), req.params.cron, "Cron job"), req.body, ["command", "schedule", "description"])),
+  );
+  app.delete("/1/web/:hosting/cron/:cron", (req, res) => {
+    remove(hostingItems(state.cronJobs, req), req.params.cron, "Cron job");
+    ok(res, true);
+  });
+
+  app.get("/1/web/:hosting/ftp", (req, res) => page(req, res, hostingItems(state.ftpAccounts, req)));
+  app.post("/1/web/:hosting/ftp", (req, res) => {
+    required(req.body, "login", "password");
+    const ftp: FtpAccount = {
+      id: nextId(),
+      hosting_id: Number(req.params.hosting),
+      login: req.body.login,
+      home_directory: req.body.home_directory ?? "/",
+      is_active: true,
+    };
+    hostingItems(state.ftpAccounts, req).push(ftp);
+    ok(res, ftp, 201);
+  });
+  app.put("/1/web/:hosting/ftp/:ftp", (req, res) =>
+    ok(res, assign(find(hostingItems(state.ftpAccounts, req), req.params.ftp, "FTP account"), req.body, ["home_directory", "is_active"])),
+  );
+  app.delete("/1/web/:hosting/ftp/:ftp", (req, res) => {
+    remove(hostingItems(state.ftpAccounts, req), req.params.ftp, "FTP account");
+    ok(res, true);
+  });
+
+  // ─── kDrive ───────────────────────────────────────────────────────────────
+
+  const driveFiles = (req: ApiRequest) =>
+    listOf(state.files, find(state.drives, req.params.drive, "kDrive").id, `kDrive ${req.params.drive}`);
+  const driveTrash = (req: ApiRequest) => listOf(state.trash, Number(req.params.drive), `kDrive ${req.params.drive}`);
+  const directory = (files: KDriveFile[], id: unknown) => {
+    const target = find(files, String(id), "Directory");
+    if (target.type !== "dir") throw new ApiError(422, "not_a_directory", `File ${target.id} is not a directory`);
+    return target;
+  };
+
+  app.get("/2/drive", (req, res) =>
+    page(req, res, state.drives.filter((drive) => !req.query.account_id || drive.account_id === Number(req.query.account_id))),
+  );
+  app.get("/2/drive/:drive", (req, res) => ok(res, find(state.drives, req.params.drive, "kDrive")));
+  app.get("/2/drive/:drive/activity", (req, res) => {
+    driveFiles(req);
+    page(req, res, []);
+  });
+  app.get("/2/drive/:drive/files", (req, res) =>
+    page(req, res, driveFiles(req).filter((file) => file.parent_id === ROOT_DIRECTORY)),
+  );
+  app.get("/2/drive/:drive/files/search", (req, res) => {
+    const query = String(req.query.query ?? "").toLowerCase();
+    page(req, res, driveFiles(req).filter((file) => file.id !== ROOT_DIRECTORY && file.name.toLowerCase().includes(query)));
+  });
+  app.get("/2/drive/:drive/files/favorites", (req, res) =>
+    page(req, res, driveFiles(req).filter((file) => state.favorites.has(file.id))),
+  );
+  app.get("/2/drive/:drive/files/trash", (req, res) => page(req, res, driveTrash(req)));
+  app.delete("/2/drive/:drive/files/trash", (req, res) => {
+    driveTrash(req).length = 0;
+    ok(res, true);
+  });
+  app.post("/2/drive/:drive/files/trash/:file/restore", (req, res) => {
+    const file = remove(driveTrash(req), req.params.file, "Trashed file");
+    driveFiles(req).push(file);
+    ok(res, file);
+  });
+  app.post("/2/drive/:drive/files/directories", (req, res) => {
+    const files = driveFiles(req);
+    required(req.body, "name");
+    const parent = directory(files, req.body.parent_id ?? ROOT_DIRECTORY);
+    const now = Math.floor(Date.now() / 1000);
+    const created: KDriveFile = {
+      id: nextId(),
+      name: req.body.name,
+      type: "dir",
+      size: 0,
+      created_at: now,
+      updated_at: now,
+      parent_id: parent.id,
+      is_shared: false,
+    };
+    files.push(created);
+    ok(res, created, 201);
+  });
+  app.get("/2/drive/:drive/files/:file", (req, res) => ok(res, find(driveFiles(req), req.params.file, "File")));
+  app.get("/2/drive/:drive/files/:file/files", (req, res) => {
+    const files = driveFiles(req);
+    const parent = directory(files, req.params.file);
+    page(req, res, files.filter((file) => file.parent_id === parent.id));
+  });
+  app.get("/2/drive/:drive/files/:file/activity", (req, res) => {
+    find(driveFiles(req), req.params.file, "File");
+    page(req, res, []);
+  });
+  app.get("/2/drive/:drive/files/:file/versions", (req, res) => {
+    const file = find(driveFiles(req), req.params.file, "File");
+    page(req, res, [{ id: 1, file_id: file.id, size: file.size, created_at: file.updated_at, created_by: state.profile.id }]);
+  });
+  app.post("/2/drive/:drive/files/:file/rename", (req, res) => {
+    required(req.body, "name");
+    ok(res, assign(find(driveFiles(req), req.params.file, "File"), req.body, ["name"]));
+  });
+  app.post("/2/drive/:drive/files/:file/move", (req, res) => {
+    const files = driveFiles(req);
+    const file = find(files, req.params.file, "File");
+    file.parent_id = directory(files, req.body.destination_directory_id).id;
+    ok(res, file);
+  });
+  app.post("/2/drive/:drive/files/:file/copy", (req, res) => {
+    const files = driveFiles(req);
+    const file = find(files, req.params.file, "File");
+    const copy = { ...file, id: nextId(), parent_id: directory(files, req.body.destination_directory_id).id };
+    files.push(copy);
+    ok(res, copy, 201);
+  });
+  app.post("/2/drive/:drive/files/:file/shareable_link", (req, res) => {
+    const file = find(driveFiles(req), req.params.file, "File");
+    file.is_shared = true;
+    ok(res, {
+      url: `https://kdrive.infomaniak.com/app/share/${req.params.drive}/${file.id}`,
+      right: req.body.right ?? "public",
+      ...(req.body.valid_until && { valid_until: req.body.valid_until }),
+    });
+  });
+  app.post("/2/drive/:drive/files/:file/favorite", (req, res) => {
+    state.favorites.add(find(driveFiles(req), req.params.file, "File").id);
+    ok(res, true);
+  });
+  app.delete("/2/drive/:drive/files/:file/favorite", (req, res) => {
+    state.favorites.delete(find(driveFiles(req), req.params.file, "File").id);
+    ok(res, true);
+  });
+  app.delete("/2/drive/:drive/files/:file", (req, res) => {
+    const files = driveFiles(req);
+    const file = remove(files, req.params.file, "File");
+    // Children go to the trash with their directory
+    const trashed = [file, ...files.filter((child) => child.parent_id === file.id)];
+    for (const child of trashed.slice(1)) files.splice(files.indexOf(child), 1);
+    driveTrash(req).push(...trashed);
+    ok(res, true);
+  });
+
+  // ─── Swiss Backup, VPS & Dedicated Servers ────────────────────────────────
+
+  app.get("/1/swiss_backup", (req, res) =>
+    page(req, res, state.backups.filter((backup) => !req.query.account_id || backup.account_id === Number(req.query.account_id))),
+  );
+  app.get("/1/swiss_backup/:backup", (req, res) => ok(res, find(state.backups, req.params.backup, "Swiss Backup")));
+  app.get("/1/swiss_backup/:backup/slot", (req, res) =>
+    page(req, res, find(state.backups, req.params.backup, "Swiss Backup").slots),
+  );
+
+  app.get("/1/vps", (req, res) => page(req, res, state.vps));
+  app.get("/1/vps/:vps", (req, res) => {
+    const vps = find(state.vps, req.params.vps, "VPS");
+    ok(res, vps);
+    // A reboot is seen in progress by a single read
+    if (vps.state === "rebooting") vps.state = "running";
+  });
+  const powerAction = (action: string, allowedFrom: string, next: string) =>
+    app.post(`/1/vps/:vps/${action}`, (req, res) => {
+      const vps = find(state.vps, req.params.vps, "VPS");
+      if (vps.state !== allowedFrom) {
+        throw new ApiError(409, "invalid_state", `Cannot ${action} VPS ${vps.id} while it is ${vps.state}`);
+      }
+      vps.state = next;
+      ok(res, true);
+    });
+  powerAction("reboot", "running", "rebooting");
+  powerAction("shutdown", "running", "stopped");
+  powerAction("boot", "stopped", "running");
+
+  app.get("/1/dedicated", (req, res) => page(req, res, state.dedicated));
+  app.get("/1/dedicated/:server", (req, res) => ok(res, find(state.dedicated, req.params.server, "Dedicated server")));
+  app.post("/1/dedicated/:server/reboot", (req, res) => {
+    find(state.dedicated, req.params.server, "Dedicated server");
+    ok(res, true);
+  });
+
+  // ─── Certificates & Billing ───────────────────────────────────────────────
+
+  app.get("/1/certificate", (req, res) =>
+    page(req, res, state.certificates.filter((cert) => !req.query.account_id || cert.account_id === Number(req.query.account_id))),
+  );
+  app.get("/1/certificate/:certificate", (req, res) => ok(res, find(state.certificates, req.params.certificate, "Certificate")));
+  app.get("/1/invoicing/:account/invoice/list", (req, res) =>
+    page(req, res, listOf(state.invoices, Number(req.params.account), `Account ${req.params.account}`)),
+  );
+  app.get("/1/invoicing/:account/invoice/:invoice", (req, res) =>
+    ok(res, find(listOf(state.invoices, Number(req.params.account), `Account ${req.params.account}`), req.params.invoice, "Invoice")),
+  );
+
+  app.use((req: Request) => {
+    throw new ApiError(404, "not_found", `No route for ${req.method} ${req.path}`);
+  });
+
+  app.use((error: Error & { status?: number }, _req: Request, res: Response, _next: NextFunction) => {
+    // Express sets the status of body parsing errors
+    const status = error instanceof ApiError ? error.status : (error.status ?? 500);
+    const code = error instanceof ApiError ? error.code : status < 500 ? "invalid_request" : "internal_error";
+    res.status(status).json({ result: "error", error: { code, description: error.message } });
+  });
+
+  return app;
+}
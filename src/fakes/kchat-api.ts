@@ -0,0 +1,273 @@
+/**
+ * Fake kChat API
+ *
+ * Stateful in-memory stand-in for the subset of the Mattermost v4 API used by
+ * KChatClient, served under `/api/v4` and seeded with a demo team. Point the
+ * client's `baseUrl` at `http://<host>:<port>/api/v4`.
+ */
+
+import express, { Express, NextFunction, Request, Response, Router } from "express";
+import { randomUUID } from "crypto";
+import type { KChatChannel, KChatPost, KChatPostList, KChatTeam, KChatUser } from "../kchat-client.js";
+
+export interface FakeKChatState {
+  /** Id of the user the token belongs to */
+  me: string;
+  users: KChatUser[];
+  teams: KChatTeam[];
+  /** User ids per team id */
+  teamMembers: Map<string, string[]>;
+  channels: KChatChannel[];
+  /** User ids per channel id */
+  channelMembers: Map<string, string[]>;
+  posts: KChatPost[];
+}
+
+export interface FakeKChatApiOptions {
+  /** Only accept this bearer token; any token is accepted when omitted */
+  token?: string;
+  /** Initial state (default: the demo team of `createFakeKChatState`) */
+  state?: FakeKChatState;
+}
+
+/**
+ * Mattermost ids are 26 lowercase alphanumeric characters
+ */
+function newId(): string {
+  return randomUUID().replace(/-/g, "").slice(0, 26);
+}
+
+/**
+ * Demo team with two users, a public and a private channel, and a welcome post
+ */
+export function createFakeKChatState(): FakeKChatState {
+  const user = (id: string, username: string, first_name: string, last_name: string): KChatUser => ({
+    id,
+    username,
+    email: `${username}@example.com`,
+    first_name,
+    last_name,
+    nickname: "",
+  });
+  const channel = (id: string, name: string, type: string, purpose: string): KChatChannel => ({
+    id,
+    team_id: "team0000000000000000000001",
+    name,
+    display_name: name.replace(/^\w/, (letter) => letter.toUpperCase()),
+    type,
+    header: "",
+    purpose,
+  });
+  const created = Date.parse("2026-01-15T09:00:00Z");
+
+  return {
+    me: "user0000000000000000000001",
+    users: [
+      user("user0000000000000000000001", "demo", "Demo", "User"),
+      user("user0000000000000000000002", "alice", "Alice", "Martin"),
+    ],
+    teams: [{ id: "team0000000000000000000001", name: "demo", display_name: "Demo SA", type: "O" }],
+    teamMembers: new Map([["team0000000000000000000001", ["user0000000000000000000001", "user0000000000000000000002"]]]),
+    channels: [
+      channel("chan0000000000000000000001", "town-square", "O", "Announcements for everyone"),
+      channel("chan0000000000000000000002", "ops", "P", "Infrastructure alerts"),
+    ],
+    channelMembers: new Map([
+      ["chan0000000000000000000001", ["user0000000000000000000001", "user0000000000000000000002"]],
+      ["chan0000000000000000000002", ["user0000000000000000000001"]],
+    ]),
+    posts: [
+      {
+        id: "post0000000000000000000001",
+        channel_id: "chan0000000000000000000001",
+        user_id: "user0000000000000000000002",
+        message: "Welcome to the demo team!",
+        create_at: created,
+        update_at: created,
+      },
+    ],
+  };
+}
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly id: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function find<T extends { id: string }>(items: T[], id: string, what: string): T {
+  const item = items.find((candidate) => candidate.id === id);
+  if (!item) throw new ApiError(404, "app.context.404.app_error", `Unable to find the ${what}.`);
+  return item;
+}
+
+function postList(posts: KChatPost[]): KChatPostList {
+  const sorted = [...posts].sort((a, b) => b.create_at - a.create_at);
+  return { order: sorted.map((post) => post.id), posts: Object.fromEntries(sorted.map((post) => [post.id, post])) };
+}
+
+function pageOf<T>(req: Request, items: T[], defaultPerPage = 60): T[] {
+  const page = Number(req.query.page) || 0;
+  const perPage = Number(req.query.per_page) || defaultPerPage;
+  return items.slice(page * perPage, (page + 1) * perPage);
+}
+
+/**
+ * Create the Express app serving the fake API
+ */
+export function createFakeKChatApi(options: FakeKChatApiOptions = {}): Express {
+  const state = options.state ?? createFakeKChatState();
+  const api = Router();
+
+  const memberOf = (members: Map<string, string[]>, id: string) => members.get(id)?.includes(state.me) ?? false;
+  const readableChannel = (id: string) => {
+    const channel = find(state.channels, id, "channel");
+    if (channel.type !== "O" && !memberOf(state.channelMembers, channel.id)) {
+      throw new ApiError(403, "api.context.permissions.app_error", "You do not have the appropriate permissions.");
+    }
+    return channel;
+  };
+  const searchUsers = (term: string) =>
+    state.users.filter((user) =>
+      [user.username, user.first_name, user.last_name, user.email].some((field) =>
+        field.toLowerCase().includes(term.toLowerCase()),
+      ),
+    );
+
+  // ─── Users ────────────────────────────────────────────────────────────────
+
+  api.get("/users/me", (_req, res) => {
+    res.json(find(state.users, state.me, "user"));
+  });
+  api.get("/users/search", (req, res) => {
+    res.json(searchUsers(String(req.query.term ?? "")));
+  });
+  api.post("/users/search", (req, res) => {
+    res.json(searchUsers(String(req.body.term ?? "")));
+  });
+  api.get("/users", (req, res) => {
+    const inTeam = req.query.in_team && state.teamMembers.get(String(req.query.in_team));
+    const inChannel = req.query.in_channel && state.channelMembers.get(String(req.query.in_channel));
+    const users = state.users.filter(
+      (user) => (!inTeam || inTeam.includes(user.id)) && (!inChannel || inChannel.includes(user.id)),
+    );
+    res.json(pageOf(req, users));
+  });
+
+  // ─── Teams & Channels ─────────────────────────────────────────────────────
+
+  api.get("/teams", (_req, res) => {
+    res.json(state.teams.filter((team) => team.type === "O" || memberOf(state.teamMembers, team.id)));
+  });
+  api.get("/teams/:team", (req, res) => {
+    res.json(find(state.teams, req.params.team, "team"));
+  });
+  api.get("/users/me/teams", (_req, res) => {
+    res.json(state.teams.filter((team) => memberOf(state.teamMembers, team.id)));
+  });
+  api.get("/teams/:team/channels", (req, res) => {
+    const team = find(state.teams, req.params.team, "team");
+    res.json(pageOf(req, state.channels.filter((channel) => channel.team_id === team.id && channel.type === "O")));
+  });
+  api.get("/users/me/teams/:team/channels", (req, res) => {
+    const team = find(state.teams, req.params.team, "team");
+    res.json(
+      state.channels.filter(
+        (channel) => (channel.team_id === team.id || channel.team_id === "") && memberOf(state.channelMembers, channel.id),
+      ),
+    );
+  });
+  api.get("/channels/:channel", (req, res) => {
+    res.json(readableChannel(req.params.channel));
+  });
+  api.post("/channels/direct", (req, res) => {
+    const userIds = req.body as unknown;
+    if (!Array.isArray(userIds) || userIds.length !== 2) {
+      throw new ApiError(400, "api.context.invalid_body_param.app_error", "Invalid or missing user_ids in request body.");
+    }
+    for (const id of userIds) find(state.users, String(id), "user");
+    const name = [...userIds].sort().join("__");
+    let channel = state.channels.find((candidate) => candidate.type === "D" && candidate.name === name);
+    if (!channel) {
+      channel = { id: newId(), team_id: "", name, display_name: "", type: "D", header: "", purpose: "" };
+      state.channels.push(channel);
+      state.channelMembers.set(channel.id, [...new Set(userIds.map(String))]);
+    }
+    res.status(201).json(channel);
+  });
+
+  // ─── Posts ────────────────────────────────────────────────────────────────
+
+  api.get("/channels/:channel/posts", (req, res) => {
+    const channel = readableChannel(req.params.channel);
+    const posts = postList(state.posts.filter((post) => post.channel_id === channel.id));
+    const order = pageOf(req, posts.order);
+    res.json({ order, posts: Object.fromEntries(order.map((id) => [id, posts.posts[id]])) });
+  });
+  api.post("/posts", (req, res) => {
+    const { channel_id, message, root_id } = req.body ?? {};
+    if (!channel_id || !message) {
+      throw new ApiError(400, "api.context.invalid_body_param.app_error", "Invalid or missing channel_id or message in request body.");
+    }
+    const channel = readableChannel(channel_id);
+    if (!memberOf(state.channelMembers, channel.id)) {
+      throw new ApiError(403, "api.context.permissions.app_error", "You do not have the appropriate permissions.");
+    }
+    if (root_id) find(state.posts, root_id, "root post");
+    const now = Date.now();
+    const post: KChatPost = { id: newId(), channel_id: channel.id, user_id: state.me, message, create_at: now, update_at: now };
+    state.posts.push(post);
+    res.status(201).json(root_id ? { ...post, root_id } : post);
+  });
+  api.delete("/posts/:post", (req, res) => {
+    const post = find(state.posts, req.params.post, "post");
+    if (post.user_id !== state.me) {
+      throw new ApiError(403, "api.context.permissions.app_error", "You do not have the appropriate permissions.");
+    }
+    state.posts.splice(state.posts.indexOf(post), 1);
+    res.json({ status: "OK" });
+  });
+  api.post("/teams/:team/posts/search", (req, res) => {
+    const team = find(state.teams, req.params.team, "team");
+    const terms = String(req.body?.terms ?? "")
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean);
+    const matches = (message: string) =>
+      req.body?.is_or_search
+        ? terms.some((term) => message.toLowerCase().includes(term))
+        : terms.every((term) => message.toLowerCase().includes(term));
+    const channels = new Set(
+      state.channels
+        .filter((channel) => channel.team_id === team.id && memberOf(state.channelMembers, channel.id))
+        .map((channel) => channel.id),
+    );
+    res.json(postList(state.posts.filter((post) => channels.has(post.channel_id) && terms.length > 0 && matches(post.message))));
+  });
+
+  api.use((req: Request) => {
+    throw new ApiError(404, "api.context.404.app_error", `Sorry, we could not find the page: ${req.method} ${req.path}`);
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (!token || (options.token && token !== options.token)) {
+      throw new ApiError(401, "api.context.session_expired.app_error", "Invalid or expired session, please login again.");
+    }
+    next();
+  });
+  app.use("/api/v4", api);
+  app.use((error: Error & { status?: number }, _req: Request, res: Response, _next: NextFunction) => {
+    const status = error instanceof ApiError ? error.status : (error.status ?? 500);
+    const id = error instanceof ApiError ? error.id : "api.context.app_error";
+    res.status(status).json({ id, message: error.message, status_code: status });
+  });
+
+  return app;
+}
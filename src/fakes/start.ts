@@ -0,0 +1,33 @@
+#!/usr/bin/env node
+
+/**
+ * Fake API Servers
+ *
+ * Starts the fake Infomaniak API and the fake kChat for demos and integration
+ * tests, and prints the environment to run the MCP server against them.
+ *
+ * Environment Variables:
+ * - FAKE_API_PORT: Port of the fake Infomaniak API (default: 4010)
+ * - FAKE_KCHAT_PORT: Port of the fake kChat (default: 4020)
+ * - FAKE_API_TOKEN: Only accept this token (default: any token)
+ */
+
+import { createFakeInfomaniakApi } from "./infomaniak-api.js";
+import { createFakeKChatApi } from "./kchat-api.js";
+
+const apiPort = parseInt(process.env.FAKE_API_PORT ?? "4010", 10);
+const kchatPort = parseInt(process.env.FAKE_KCHAT_PORT ?? "4020", 10);
+const token = process.env.FAKE_API_TOKEN;
+
+createFakeInfomaniakApi({ token }).listen(apiPort, "127.0.0.1", () => {
+  console.error(`Fake Infomaniak API listening on http://127.0.0.1:${apiPort}`);
+});
+createFakeKChatApi({ token }).listen(kchatPort, "127.0.0.1", () => {
+  console.error(`Fake kChat listening on http://127.0.0.1:${kchatPort}/api/v4`);
+  console.error("");
+  console.error("Run the MCP server against them with:");
+  console.error(
+    `  INFOMANIAK_API_TOKEN=${token ?? "demo"} INFOMANIAK_API_URL=http://127.0.0.1:${apiPort} ` +
+      `KCHAT_API_URL=http://127.0.0.1:${kchatPort}/api/v4 KCHAT_TOKEN=${token ?? "demo"} npm start`,
+  );
+});
@@ -0,0 +1,199 @@
+/**
+ * Tests for the HTTP core shared by the API clients
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HttpClient } from './http.js';
+import { KChatClient } from './kchat-client.js';
+import { CancelledError, RateLimitError, TimeoutError } from './errors.js';
+
+const mockFetch = vi.fn();
+
+function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  mockFetch.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  });
+}
+
+describe('HttpClient', () => {
+  const http = () =>
+    new HttpClient({
+      service: 'kchat',
+      baseUrl: 'https://chat.example.com/api/v4',
+      token: 'token',
+      rateLimit: { burst: 10, perMinute: 600 },
+    });
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    mockFetch.mockReset();
+  });
+
+  it('should retry 5xx responses with backoff', async () => {
+    respond(503, { message: 'Unavailable' });
+    respond(200, { id: 'u1' });
+
+    const response = http().send({ method: 'GET', path: '/users/me' });
+    await vi.runAllTimersAsync();
+
+    await expect(response).resolves.toMatchObject({ status: 200, data: { id: 'u1' } });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should honor Retry-After on 429 responses', async () => {
+    respond(429, { message: 'Too many requests' }, { 'Retry-After': '5' });
+    respond(200, { id: 'u1' });
+
+    const response = http().send({ method: 'GET', path: '/users/me' });
+    await vi.advanceTimersByTimeAsync(4_900);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(response).resolves.toMatchObject({ data: { id: 'u1' } });
+  });
+
+  it('should stop after the last attempt', async () => {
+    respond(429, {}, { 'Retry-After': '1' });
+    respond(429, {}, { 'Retry-After': '1' });
+    respond(429, {}, { 'Retry-After': '1' });
+
+    const response = http().send({ method: 'GET', path: '/users/me' }).catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    expect(await response).toBeInstanceOf(RateLimitError);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should raise a TimeoutError when the connection stalls', async () => {
+    mockFetch.mockRejectedValue(Object.assign(new Error('The operation timed out'), { name: 'TimeoutError' }));
+    const client = new HttpClient({
+      service: 'kchat',
+      baseUrl: 'https://chat.example.com/api/v4',
+      token: 'token',
+      timeoutMs: 1_000,
+      maxAttempts: 1,
+      rateLimit: { burst: 10, perMinute: 600 },
+    });
+
+    const error = await client.send({ method: 'GET', path: '/users/me' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('kChat API request timed out after 1000 ms');
+    expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should send a POST that timed out or failed with a 5xx only once', async () => {
+    mockFetch.mockRejectedValueOnce(Object.assign(new Error('The operation timed out'), { name: 'TimeoutError' }));
+    respond(503, { message: 'Unavailable' });
+
+    const timedOut = http().send({ method: 'POST', path: '/posts', body: { message: 'Hello' } }).catch((e) => e);
+    await vi.runAllTimersAsync();
+    expect(await timedOut).toBeInstanceOf(TimeoutError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    const failed = http().send({ method: 'POST', path: '/posts', body: { message: 'Hello' } }).catch((e) => e);
+    await vi.runAllTimersAsync();
+    expect(await failed).toMatchObject({ code: 'upstream_error', status: 503 });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry a POST answered with 429, which was not processed', async () => {
+    respond(429, { message: 'Too many requests' }, { 'Retry-After': '1' });
+    respond(201, { id: 'p1' });
+
+    const response = http().send({ method: 'POST', path: '/posts', body: { message: 'Hello' } });
+    await vi.runAllTimersAsync();
+
+    await expect(response).resolves.toMatchObject({ status: 201, data: { id: 'p1' } });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should abort the fetch when the request is cancelled', async () => {
+    mockFetch.mockImplementation(
+      (_url: string, { signal }: RequestInit) =>
+        new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason))),
+    );
+    const controller = new AbortController();
+
+    const error = http().send({ method: 'GET', path: '/users/me', signal: controller.signal }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect(await error).toBeInstanceOf(CancelledError);
+    expect((await error).message).toBe('kChat API request GET /users/me was cancelled');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retry backoff when the request is cancelled', async () => {
+    respond(503, { message: 'Unavailable' });
+    const controller = new AbortController();
+
+    const error = http().send({ method: 'GET', path: '/users/me', signal: controller.signal }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    expect(await error).toMatchObject({ code: 'cancelled', retryable: false });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting for the rate limit when the request is cancelled', async () => {
+    respond(200, {}, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '60' });
+    const client = http();
+    await client.send({ method: 'GET', path: '/users/me' });
+    const controller = new AbortController();
+
+    const error = client.send({ method: 'GET', path: '/users/me', signal: controller.signal }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1_000);
+    controller.abort();
+
+    expect(await error).toBeInstanceOf(CancelledError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('KChatClient', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    mockFetch.mockReset();
+  });
+
+  it('should send authenticated requests with a timeout', async () => {
+    respond(200, { id: 'u1', username: 'john', email: 'john@example.com', first_name: 'John', last_name: 'Doe', nickname: '' });
+    const client = new KChatClient({ host: 'chat.example.com', token: 'token' });
+
+    await expect(client.getMe()).resolves.toMatchObject({ username: 'john' });
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://chat.example.com/api/v4/users/me',
+      expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({ Authorization: 'Bearer token' }),
+        signal: expect.any(AbortSignal),
+      }),
+    );
+  });
+
+  it('should map failed responses to typed errors', async () => {
+    respond(403, { id: 'api.context.permissions.app_error', message: 'You do not have the appropriate permissions.' });
+    const client = new KChatClient({ host: 'chat.example.com', token: 'token', maxAttempts: 1 });
+
+    await expect(client.getMe()).rejects.toMatchObject({
+      code: 'auth_error',
+      apiCode: 'api.context.permissions.app_error',
+      message: 'kChat API Error (403): You do not have the appropriate permissions.',
+    });
+  });
+});
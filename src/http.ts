@@ -0,0 +1,155 @@
+/**
+ * HTTP Core
+ *
+ * Transport shared by the Infomaniak and kChat clients: bearer authentication,
+ * request timeout, mapping of failed responses to typed errors and response
+ * validation, run through a middleware chain that retries and rate limits
+ * requests by default.
+ */
+
+import { CancelledError, FailedResponse, TimeoutError, errorFromResponse } from './errors.js';
+import { Middleware, MiddlewareConfig, RequestContext, TokenBucket, rateLimit, retry, runMiddleware } from './middleware.js';
+import { ResponseValidator } from './validation.js';
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export interface HttpConfig {
+  service: FailedResponse['service'];
+  baseUrl: string;
+  token: string;
+  /** Request timeout in ms (default: 30000) */
+  timeoutMs?: number;
+  /** Max attempts for 429/5xx errors and timeouts (default: 3, set 1 to disable retries) */
+  maxAttempts?: number;
+  /** Requests that can be sent in a burst, and per minute after it */
+  rateLimit: { burst: number; perMinute: number };
+  middleware?: MiddlewareConfig;
+  /** Checks response bodies against the schemas of their endpoint */
+  validator?: ResponseValidator;
+}
+
+export interface HttpRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+  query?: QueryParams;
+  headers?: Record<string, string>;
+  /** Called with the HTTP status of every upstream response */
+  onStatus?: (status: number) => void;
+  /** Cancels the request, including rate limit waits and retry backoff */
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse<T> {
+  status: number;
+  headers: Headers;
+  /** Parsed JSON body; undefined for 204 and 304 responses */
+  data: T;
+}
+
+export class HttpClient {
+  private readonly timeoutMs: number;
+  private readonly chain: Middleware[];
+
+  constructor(private readonly config: HttpConfig) {
+    this.timeoutMs = config.timeoutMs ?? 30_000;
+
+    const bucket = new TokenBucket(config.rateLimit.burst, config.rateLimit.perMinute);
+    const defaults = [retry(config.maxAttempts ?? 3), rateLimit(bucket)];
+    const middleware = config.middleware ?? [];
+    this.chain = typeof middleware === 'function' ? middleware(defaults) : [...defaults, ...middleware];
+  }
+
+  buildUrl(path: string, query?: QueryParams): string {
+    let url = `${this.config.baseUrl}${path}`;
+
+    if (query) {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined) params.append(key, String(value));
+      }
+      const qs = params.toString();
+      if (qs) url += `?${qs}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Send a request through the middleware chain
+   */
+  async send<T>({ method, path, body, query, headers, onStatus, signal }: HttpRequest): Promise<HttpResponse<T>> {
+    const context: RequestContext = {
+      service: this.config.service,
+      method,
+      path,
+      url: this.buildUrl(path, query),
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...headers,
+      },
+      body: body !== undefined && (method === 'POST' || method === 'PUT' || method === 'PATCH')
+        ? JSON.stringify(body)
+        : undefined,
+      attempt: 1,
+      signal,
+    };
+
+    const accept = (response: Response) => this.accept(response, context, onStatus);
+    let response: Response;
+    try {
+      response = await runMiddleware(this.chain, context, async () => accept(await this.fetch(context)), accept);
+    } catch (error) {
+      // Whichever middleware was waiting, report the cancellation itself
+      if (signal?.aborted && !(error instanceof CancelledError)) {
+        throw new CancelledError(`${this.label} API request ${method} ${path} was cancelled`, { cause: error });
+      }
+      throw error;
+    }
+
+    const data = response.status === 204 || response.status === 304 ? undefined : await response.json();
+    if (data !== undefined) this.config.validator?.check(method, path, data, response.status);
+    return { status: response.status, headers: response.headers, data: data as T };
+  }
+
+  private async fetch({ method, url, headers, body, signal }: RequestContext): Promise<Response> {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    try {
+      return await fetch(url, { method, headers, body, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+    } catch (error) {
+      if ((error as Error).name === 'TimeoutError' && !signal?.aborted) {
+        throw new TimeoutError(`${this.label} API request timed out after ${this.timeoutMs} ms`, {
+          hint: 'the API is slow to answer — retry later',
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Report the status of a response, and raise a typed error when it failed
+   */
+  private async accept(
+    response: Response,
+    context: RequestContext,
+    onStatus?: (status: number) => void,
+  ): Promise<Response> {
+    onStatus?.(response.status);
+    if (response.ok || response.status === 304) return response;
+
+    throw errorFromResponse({
+      service: this.config.service,
+      path: context.path,
+      status: response.status,
+      headers: response.headers,
+      body: await response.text(),
+    });
+  }
+
+  private get label(): string {
+    return this.config.service === 'kchat' ? 'kChat' : 'Infomaniak';
+  }
+}
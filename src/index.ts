@@ -8,15 +8,40 @@
  *
  * Environment Variables:
  * - INFOMANIAK_API_TOKEN: Your Infomaniak API token (required)
+ * - INFOMANIAK_API_URL: API base URL, e.g. the fake API started by 'npm run fake-api' (default: https://api.infomaniak.com)
+ * - KCHAT_HOST, KCHAT_TOKEN: kChat host and personal access token, to enable the kChat tools
+ * - KCHAT_API_URL: kChat API URL, instead of https://{KCHAT_HOST}/api/v4
  * - MCP_TRANSPORT: Transport mode - 'stdio' (default) or 'http'
  * - MCP_PORT: HTTP port when using http transport (default: 3000)
  * - MCP_STATELESS: Set to 'true' for stateless mode (default: false)
+ * - MCP_CACHE: Set to 'false' to disable the response cache (default: true)
+ * - MCP_CACHE_TTL: Cache TTL overrides in seconds per resource type, 0 to disable (e.g. 'dns=30,invoice=0')
+ * - MCP_RESPONSE_VALIDATION: Check API responses against their schemas: 'lenient' (default) logs drift, 'strict' fails on it, 'off'
+ * - MCP_READ_ONLY: Set to 'true' to only expose read-only tools (default: false)
+ * - MCP_TOOLS_ALLOW: Comma-separated tool name patterns to expose (e.g. 'infomaniak_kchat_*')
+ * - MCP_TOOLS_DENY: Comma-separated tool name patterns to hide (e.g. '*_delete_*')
+ * - MCP_DRY_RUN: Set to 'true' to preview every request that changes something instead of sending it (default: false)
+ * - MCP_CONFIRM_FALLBACK: Confirmation of destructive tools without elicitation: 'argument' (default) or 'refuse'
+ * - MCP_AUDIT_LOG: Record every tool call as JSON Lines to 'stderr' or to this file path (default: disabled)
+ * - MCP_JOURNAL_FILE: JSON Lines file keeping the change journal used by infomaniak_undo across restarts (default: in memory)
+ * - MCP_CASSETTE: Record or replay API traffic with this JSON cassette file (default: disabled)
+ * - MCP_CASSETTE_MODE: 'replay' (default) to serve responses from the cassette, or 'record' to save real traffic to it
+ * - MCP_DNS_TEMPLATES_DIR: Directory of JSON files defining DNS templates, in addition to the built-in ones (default: none)
+ * - MCP_CONFIG_FILE: JSON file with { readOnly, confirmFallback, tools: { allow, deny } }, overridden by the variables above
  *
  * Get your API token from: https://manager.infomaniak.com/v3/ng/accounts/token/list
  */
 
+import { AuditLog } from "./audit.js";
+import { CacheTtls, parseCacheTtls } from "./cache.js";
+import { Cassette } from "./cassette.js";
 import { InfomaniakClient } from "./infomaniak-client.js";
+import { DnsTemplate, loadDnsTemplates } from "./dns-templates.js";
+import { ChangeJournal } from "./journal.js";
 import { KChatClient } from "./kchat-client.js";
+import { Middleware } from "./middleware.js";
+import { ToolPolicy, loadToolPolicyConfig } from "./policy.js";
+import { ValidationMode, parseValidationMode } from "./validation.js";
 import { startStdioServer } from "./transports/stdio.js";
 import { startHttpServer } from "./transports/http.js";
 
@@ -29,16 +54,85 @@ if (!API_TOKEN) {
   process.exit(1);
 }
 
+// Cache GET responses, unless disabled
+let cache: CacheTtls | false;
+try {
+  cache = process.env.MCP_CACHE === "false" ? false : parseCacheTtls(process.env.MCP_CACHE_TTL ?? "");
+} catch (error) {
+  console.error(`Error: MCP_CACHE_TTL: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+// Check responses for API drift
+let validation: ValidationMode;
+try {
+  validation = parseValidationMode(process.env.MCP_RESPONSE_VALIDATION);
+} catch (error) {
+  console.error(`Error: MCP_RESPONSE_VALIDATION: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+const kchatUrl = process.env.KCHAT_API_URL;
+const kchatHost = process.env.KCHAT_HOST ?? (kchatUrl && new URL(kchatUrl).host);
+const kchatToken = process.env.KCHAT_TOKEN;
+
+// Record or replay API traffic, shared by both clients
+const cassetteMode = process.env.MCP_CASSETTE_MODE ?? "replay";
+if (cassetteMode !== "record" && cassetteMode !== "replay") {
+  console.error("Error: MCP_CASSETTE_MODE must be 'record' or 'replay'");
+  process.exit(1);
+}
+let middleware: Middleware[] | undefined;
+try {
+  middleware = process.env.MCP_CASSETTE
+    ? [new Cassette(process.env.MCP_CASSETTE, { mode: cassetteMode, secrets: [API_TOKEN, kchatToken ?? ""] }).middleware()]
+    : undefined;
+} catch (error) {
+  console.error(`Error: MCP_CASSETTE: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
 // Initialize the Infomaniak client
-const client = new InfomaniakClient({ token: API_TOKEN });
+const client = new InfomaniakClient({
+  token: API_TOKEN,
+  baseUrl: process.env.INFOMANIAK_API_URL,
+  cache,
+  middleware,
+  validation,
+});
 
 // Optionally initialize the kChat client
-const kchatHost = process.env.KCHAT_HOST;
-const kchatToken = process.env.KCHAT_TOKEN;
 const kchatClient = (kchatHost && kchatToken)
-  ? new KChatClient({ host: kchatHost, token: kchatToken })
+  ? new KChatClient({ host: kchatHost, baseUrl: kchatUrl, token: kchatToken, middleware, validation })
   : null;
 
+// Restrict the exposed tools
+let policy: ToolPolicy;
+try {
+  policy = new ToolPolicy(loadToolPolicyConfig());
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+// Preview mutating requests instead of sending them
+const dryRun = process.env.MCP_DRY_RUN === "true";
+
+// Record tool calls for auditing
+const audit = process.env.MCP_AUDIT_LOG ? new AuditLog(process.env.MCP_AUDIT_LOG) : undefined;
+
+// Record changes so that they can be undone
+const journal = new ChangeJournal(process.env.MCP_JOURNAL_FILE);
+
+// Built-in DNS templates, and the ones of the team
+let dnsTemplates: DnsTemplate[];
+try {
+  dnsTemplates = loadDnsTemplates(process.env.MCP_DNS_TEMPLATES_DIR);
+} catch (error) {
+  console.error(`Error: MCP_DNS_TEMPLATES_DIR: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
 // Get transport configuration from environment
 const transport = process.env.MCP_TRANSPORT || "stdio";
 const port = parseInt(process.env.PORT || process.env.MCP_PORT || "3000", 10);
@@ -47,9 +141,9 @@ const stateless = process.env.MCP_STATELESS === "true";
 // Start the server with the selected transport
 async function main() {
   if (transport === "http") {
-    await startHttpServer(client, { port, stateless }, kchatClient);
+    await startHttpServer(client, { port, stateless }, kchatClient, { policy, dryRun, audit, journal, dnsTemplates });
   } else if (transport === "stdio") {
-    await startStdioServer(client, kchatClient);
+    await startStdioServer(client, kchatClient, { policy, dryRun, audit, journal, dnsTemplates });
   } else {
     console.error(`Error: Unknown transport '${transport}'. Use 'stdio' or 'http'.`);
     process.exit(1);
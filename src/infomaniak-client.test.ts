@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { InfomaniakClient } from './infomaniak-client.js';
+import { InfomaniakClient, hasMorePages, paginate } from './infomaniak-client.js';
+import { AuthError, NotFoundError, UpstreamError } from './errors.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -14,7 +15,8 @@ describe('InfomaniakClient', () => {
 
   beforeEach(() => {
     vi.resetAllMocks();
-    client = new InfomaniakClient({ token: 'test-token-123', maxAttempts: 1 });
+    // Responses only hold the fields each test checks; validation.test.ts covers the response schemas
+    client = new InfomaniakClient({ token: 'test-token-123', maxAttempts: 1, validation: 'off' });
   });
 
   afterEach(() => {
@@ -151,6 +153,48 @@ describe('InfomaniakClient', () => {
 
       await expect(client.ping()).rejects.toThrow('Infomaniak API Error (500): Internal Server Error');
     });
+
+    it('should raise typed errors with the API code, request id and a hint', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        headers: new Headers({ 'X-Request-Id': 'req-42' }),
+        text: () => Promise.resolve(JSON.stringify({ error: { code: 'not_authorized', description: 'Forbidden' } })),
+      });
+
+      const error = await client.getDnsRecords('example.com').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error).toMatchObject({
+        code: 'auth_error',
+        retryable: false,
+        status: 403,
+        apiCode: 'not_authorized',
+        requestId: 'req-42',
+        hint: expect.stringContaining('token lacks scope `domain`'),
+      });
+    });
+
+    it('should map statuses to error classes', async () => {
+      const respond = (status: number, headers: Record<string, string> = {}) =>
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status,
+          headers: new Headers(headers),
+          text: () => Promise.resolve('Error'),
+        });
+
+      respond(404);
+      await expect(client.getAccount(1)).rejects.toBeInstanceOf(NotFoundError);
+      respond(429, { 'Retry-After': '30' });
+      await expect(client.ping()).rejects.toMatchObject({ code: 'rate_limited', retryAfter: 30, retryable: true });
+      respond(409);
+      await expect(client.ping()).rejects.toMatchObject({ code: 'upstream_error', retryable: false });
+      respond(502);
+      const error = await client.ping().catch((e) => e);
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error.retryable).toBe(true);
+    });
   });
 
   describe('ping', () => {
@@ -502,4 +546,198 @@ describe('InfomaniakClient', () => {
       );
     });
   });
+
+  describe('Dry Run', () => {
+    it('should preview a DNS record update with its current state, read from the zone', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            result: 'success',
+            data: [
+              { id: 41, source: '@', type: 'A', target: '1.2.3.4', ttl: 3600 },
+              { id: 42, source: 'www', type: 'A', target: '1.2.3.4', ttl: 3600 },
+            ],
+            total: 2,
+          }),
+      });
+
+      const result = await client.withOptions({ dryRun: true }).updateDnsRecord('example.com', 42, { target: '5.6.7.8' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.infomaniak.com/1/domain/example.com/dns/record?page=1&per_page=100',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(result).toEqual({
+        dry_run: {
+          method: 'PUT',
+          url: 'https://api.infomaniak.com/1/domain/example.com/dns/record/42',
+          body: { target: '5.6.7.8' },
+          effect: 'Update DNS record 42 of example.com',
+          before: { id: 42, source: 'www', type: 'A', target: '1.2.3.4', ttl: 3600 },
+          after: { id: 42, source: 'www', type: 'A', target: '5.6.7.8', ttl: 3600 },
+        },
+      });
+    });
+
+    it('should preview a deletion even when the current state cannot be fetched', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve('Not Found'),
+      });
+
+      const result = await client.withOptions({ dryRun: true }).deleteMailbox(1, 2);
+
+      expect(result).toEqual({
+        dry_run: {
+          method: 'DELETE',
+          url: 'https://api.infomaniak.com/1/mail/1/mailbox/2',
+          effect: 'Delete mailbox 2 of mail service 1',
+        },
+      });
+    });
+
+    it('should not fetch anything for creations', async () => {
+      const dryRunClient = new InfomaniakClient({ token: 'test-token-123', dryRun: true });
+
+      const result = await dryRunClient.createDnsRecord('example.com', { source: 'www', type: 'A', target: '1.2.3.4' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      // Typed as a preview, since the client was created in dry-run mode
+      expect(result.dry_run).toMatchObject({ method: 'POST', effect: 'Create A record www -> 1.2.3.4 in example.com' });
+    });
+
+    it('should still send GET requests', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ result: 'success', data: [] }),
+      });
+
+      const result = await client.withOptions({ dryRun: true }).getDnsRecords('example.com');
+
+      expect(result).toEqual({ result: 'success', data: [] });
+    });
+  });
+
+  describe('Pagination', () => {
+    it('should send page and per_page with the other query parameters', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ result: 'success', data: [] }),
+      });
+
+      await client.getMailServices(1, { page: 2, per_page: 50 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.infomaniak.com/1/mail?account_id=1&page=2&per_page=50',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should walk every page', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ result: 'success', data: [{ id: 1 }, { id: 2 }], page: 1, pages: 2 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ result: 'success', data: [{ id: 3 }], page: 2, pages: 2 }),
+        });
+
+      const ids: number[] = [];
+      for await (const domain of paginate((page) => client.getDomains(1, page), 2)) ids.push(domain.id);
+
+      expect(ids).toEqual([1, 2, 3]);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://api.infomaniak.com/1/domain/account/1?page=2&per_page=2',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should tell whether more pages follow', () => {
+      expect(hasMorePages({ result: 'success', data: [], pages: 3 }, 2)).toBe(true);
+      expect(hasMorePages({ result: 'success', data: [], total: 40 }, 2, 20)).toBe(false);
+      expect(hasMorePages({ result: 'success', data: [1, 2] }, 1, 2)).toBe(true);
+      expect(hasMorePages({ result: 'success', data: [1, 2] }, 1)).toBe(false);
+    });
+  });
+
+  describe('Cache', () => {
+    const records = { result: 'success', data: [{ id: 1, source: 'www', type: 'A', target: '1.2.3.4', ttl: 3600 }] };
+
+    it('should serve repeated reads from the cache until a write invalidates them', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(records) });
+
+      await client.getDnsRecords('example.com');
+      await client.getDnsRecords('example.com');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await client.createDnsRecord('example.com', { source: 'mail', type: 'A', target: '1.2.3.5' });
+      await client.getDnsRecords('example.com');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(client.getCacheStats()).toMatchObject({ hits: 1, misses: 2, invalidated: 1 });
+    });
+
+    it('should read a renewed domain again instead of serving it from the cache', async () => {
+      const domain = { result: 'success', data: { id: 1, customer_name: 'example.com', expires_at: 1700000000 } };
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(domain) });
+
+      await client.getDomain(1, 'example.com');
+      await client.renewDomain('example.com', 1);
+      await client.getDomain(1, 'example.com');
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls[2][0]).toContain('/1/domain/account/1/domain/example.com');
+    });
+
+    it('should bypass the cache for fresh reads', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(records) });
+
+      await client.getDnsRecords('example.com');
+      await client.withOptions({ fresh: true }).getDnsRecords('example.com');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revalidate stale entries with their ETag', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            status: 200,
+            headers: new Headers({ ETag: '"v1"' }),
+            json: () => Promise.resolve(records),
+          })
+          .mockResolvedValueOnce({ ok: false, status: 304 });
+
+        await client.getDnsRecords('example.com');
+        vi.advanceTimersByTime(61_000);
+        const result = await client.getDnsRecords('example.com');
+
+        expect(result).toEqual(records);
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://api.infomaniak.com/1/domain/example.com/dns/record',
+          expect.objectContaining({ headers: expect.objectContaining({ 'If-None-Match': '"v1"' }) })
+        );
+        expect(client.getCacheStats()).toMatchObject({ revalidated: 1 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not cache when disabled', async () => {
+      const uncached = new InfomaniakClient({ token: 'test-token-123', cache: false });
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve(records) });
+
+      await uncached.getDnsRecords('example.com');
+      await uncached.getDnsRecords('example.com');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(uncached.getCacheStats()).toBeUndefined();
+    });
+  });
 });
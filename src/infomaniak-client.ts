@@ -7,15 +7,47 @@
  * Rate Limit: 60 requests per minute
  */
 
+import { CacheStats, CacheTtls, ResponseCache } from './cache.js';
+import { DryRunHint, DryRunResult, isPreviewed, previewRequest } from './dry-run.js';
+import { HttpClient, QueryParams } from './http.js';
+import { MiddlewareConfig } from './middleware.js';
+import { DriftReport, INFOMANIAK_RESPONSE_SCHEMAS, ResponseValidator, ValidationMode } from './validation.js';
+
 export interface InfomaniakConfig {
   token: string;
   baseUrl?: string;
   /** Request timeout in ms (default: 30000) */
   timeoutMs?: number;
-  /** Max retry attempts for 429/5xx errors (default: 3, set 1 to disable retries) */
+  /** Max attempts for 429/5xx errors and timeouts (default: 3, set 1 to disable retries) */
   maxAttempts?: number;
+  /** Preview requests that change something instead of sending them (default: false) */
+  dryRun?: boolean;
+  /** Seconds GET responses are cached per resource type, or false to disable the cache */
+  cache?: CacheTtls | false;
+  /** Hooks run around every upstream call, added inside the retry and rate limit middlewares */
+  middleware?: MiddlewareConfig;
+  /** Check responses against their schemas, logging drift or, in strict mode, failing on it (default: 'lenient') */
+  validation?: ValidationMode;
+}
+
+/**
+ * Options that can be overridden per call with `withOptions`
+ */
+export interface ClientOptions {
+  dryRun?: boolean;
+  /** Called with the HTTP status of every upstream response */
+  onStatus?: (status: number) => void;
+  /** Bypass cached responses; fresh responses are still cached */
+  fresh?: boolean;
+  /** Cancels the requests, including rate limit waits and retry backoff */
+  signal?: AbortSignal;
 }
 
+/**
+ * Result of a method changing something: the API response, or its preview for a client in dry-run mode
+ */
+export type Mutation<T, DryRun extends boolean> = DryRun extends true ? DryRunResult : T;
+
 export interface PaginationOptions {
   page?: number;
   per_page?: number;
@@ -29,6 +61,40 @@ export interface ApiResponse<T = unknown> {
     code: string;
     description: string;
   };
+  /** Pagination of list endpoints */
+  total?: number;
+  page?: number;
+  pages?: number;
+  items_per_page?: number;
+}
+
+/**
+ * Whether a list endpoint has pages after the given one. Uses the page count when the API
+ * reports it, and otherwise assumes more data when the page came back full.
+ */
+export function hasMorePages(response: ApiResponse<unknown[]>, page: number, perPage?: number): boolean {
+  if (response.pages !== undefined) return page < response.pages;
+  const size = perPage ?? response.items_per_page;
+  if (size === undefined) return false;
+  if (response.total !== undefined) return page * size < response.total;
+  return response.data.length >= size;
+}
+
+/**
+ * Iterate over every item of a list endpoint, fetching one page at a time
+ *
+ * @example
+ * for await (const domain of paginate((page) => client.getDomains(accountId, page))) { ... }
+ */
+export async function* paginate<T>(
+  list: (pagination: PaginationOptions) => Promise<ApiResponse<T[]>>,
+  perPage = 100,
+): AsyncGenerator<T> {
+  for (let page = 1; ; page++) {
+    const response = await list({ page, per_page: perPage });
+    yield* response.data;
+    if (response.data.length === 0 || !hasMorePages(response, page, perPage)) return;
+  }
 }
 
 export interface Account {
@@ -271,142 +337,130 @@ export interface Product {
   customer_name: string;
 }
 
-class TokenBucket {
-  private tokens: number;
-  private lastRefill: number;
-  private readonly refillRateMs: number;
-
-  constructor(
-    private readonly capacity: number,
-    refillPerMinute: number,
-  ) {
-    this.tokens = capacity;
-    this.lastRefill = Date.now();
-    this.refillRateMs = 60_000 / refillPerMinute;
-  }
-
-  async take(): Promise<void> {
-    for (;;) {
-      const now = Date.now();
-      const elapsed = now - this.lastRefill;
-      const refilled = Math.floor(elapsed / this.refillRateMs);
-      if (refilled > 0) {
-        this.tokens = Math.min(this.capacity, this.tokens + refilled);
-        this.lastRefill = now - (elapsed % this.refillRateMs);
-      }
-      if (this.tokens >= 1) {
-        this.tokens -= 1;
-        return;
-      }
-      const waitMs = this.refillRateMs - (Date.now() - this.lastRefill);
-      await new Promise((r) => setTimeout(r, Math.max(waitMs, 50)));
-    }
-  }
-}
-
-export class InfomaniakClient {
-  private readonly token: string;
-  private readonly baseUrl: string;
-  private readonly timeoutMs: number;
-  private readonly maxAttempts: number;
-  private readonly bucket: TokenBucket;
-
-  constructor(config: InfomaniakConfig) {
-    this.token = config.token;
-    this.baseUrl = config.baseUrl ?? 'https://api.infomaniak.com';
-    this.timeoutMs = config.timeoutMs ?? 30_000;
-    this.maxAttempts = config.maxAttempts ?? 3;
-    this.bucket = new TokenBucket(60, 60);
-  }
-
-  private async executeRequest<T>(
+/**
+ * Client of the Infomaniak API. `DryRun` tells whether methods changing something are previewed:
+ * `false` for a client created without `dryRun`, `boolean` when it is only known at runtime.
+ */
+export class InfomaniakClient<DryRun extends boolean = false> {
+  private readonly http: HttpClient;
+  private readonly cache?: ResponseCache;
+  private readonly validator: ResponseValidator;
+  private dryRun: boolean;
+  private onStatus?: (status: number) => void;
+  private fresh = false;
+  private signal?: AbortSignal;
+
+  constructor(config: InfomaniakConfig & { dryRun?: DryRun }) {
+    this.validator = new ResponseValidator('infomaniak', INFOMANIAK_RESPONSE_SCHEMAS, config.validation);
+    this.http = new HttpClient({
+      service: 'infomaniak',
+      baseUrl: config.baseUrl ?? 'https://api.infomaniak.com',
+      token: config.token,
+      timeoutMs: config.timeoutMs,
+      maxAttempts: config.maxAttempts,
+      rateLimit: { burst: 60, perMinute: 60 },
+      middleware: config.middleware,
+      validator: this.validator,
+    });
+    this.cache = config.cache === false ? undefined : new ResponseCache(config.cache);
+    this.dryRun = config.dryRun ?? false;
+  }
+
+  /**
+   * Return a client sharing this client's token and rate limit, with some options overridden.
+   * In dry-run mode, methods that change something resolve to a `DryRunResult` instead of the API response.
+   */
+  withOptions<D extends boolean = DryRun>(options: ClientOptions & { dryRun?: D }): InfomaniakClient<D> {
+    const scoped = Object.create(this) as InfomaniakClient<D>;
+    if (options.dryRun !== undefined) scoped.dryRun = options.dryRun;
+    if (options.onStatus !== undefined) scoped.onStatus = options.onStatus;
+    if (options.fresh !== undefined) scoped.fresh = options.fresh;
+    if (options.signal !== undefined) scoped.signal = options.signal;
+    return scoped;
+  }
+
+  /**
+   * Hit and miss counts of the response cache, or undefined when it is disabled
+   */
+  getCacheStats(): CacheStats | undefined {
+    return this.cache?.stats();
+  }
+
+  /**
+   * Response validation mode, and the API drift it observed so far
+   */
+  getApiDrift(): DriftReport {
+    return this.validator.report();
+  }
+
+  /**
+   * Send a request, or in dry-run mode resolve to its preview when it changes something
+   */
+  private async request<T>(method: 'GET', path: string, body?: unknown, queryParams?: QueryParams): Promise<T>;
+  private async request<T>(
     method: string,
     path: string,
     body?: unknown,
-    queryParams?: Record<string, string | number | boolean | undefined>,
-  ): Promise<T> {
-    let url = `${this.baseUrl}${path}`;
-
-    if (queryParams) {
-      const params = new URLSearchParams();
-      for (const [key, value] of Object.entries(queryParams)) {
-        if (value !== undefined) params.append(key, String(value));
-      }
-      const qs = params.toString();
-      if (qs) url += `?${qs}`;
+    queryParams?: QueryParams,
+    hint?: DryRunHint,
+  ): Promise<Mutation<T, DryRun>>;
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    queryParams?: QueryParams,
+    hint?: DryRunHint,
+  ): Promise<T | DryRunResult> {
+    const url = this.http.buildUrl(path, queryParams);
+
+    if (isPreviewed(this.dryRun, method, hint)) {
+      return previewRequest(method, path, url, body, hint, async (current) =>
+        (await this.request<ApiResponse<unknown>>('GET', current)).data,
+      );
     }
 
-    const options: RequestInit = {
-      method,
-      headers: {
-        Authorization: `Bearer ${this.token}`,
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-      },
-      signal: AbortSignal.timeout(this.timeoutMs),
-    };
-
-    if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
-      options.body = JSON.stringify(body);
+    if (method === 'GET' && !this.fresh) {
+      const cached = this.cache?.get(url, path);
+      if (cached !== undefined) return cached as T;
     }
 
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage: string;
-      try {
-        const errorJson = JSON.parse(errorText);
-        errorMessage =
-          errorJson.error?.description ?? errorJson.message ?? errorText;
-      } catch {
-        errorMessage = errorText;
-      }
-      const err = new Error(
-        `Infomaniak API Error (${response.status}): ${errorMessage}`,
-      ) as Error & { status: number; retryAfter?: number };
-      err.status = response.status;
-      if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After');
-        if (retryAfter) err.retryAfter = parseInt(retryAfter, 10);
-      }
-      throw err;
+    try {
+      return await this.send<T>(method, path, url, body, queryParams);
+    } finally {
+      if (method !== 'GET') this.cache?.invalidate(path);
     }
-
-    return (await response.json()) as T;
   }
 
-  private async request<T>(
+  /**
+   * Send a request, revalidating stale cached GET responses with their ETag or Last-Modified
+   */
+  private async send<T>(
     method: string,
     path: string,
+    url: string,
     body?: unknown,
-    queryParams?: Record<string, string | number | boolean | undefined>,
+    queryParams?: QueryParams,
+    conditional = method === 'GET',
   ): Promise<T> {
-    await this.bucket.take();
-
-    let lastError: Error | undefined;
-
-    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
-      try {
-        return await this.executeRequest<T>(method, path, body, queryParams);
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        const status = (error as { status?: number }).status;
-        const isRetryable =
-          status === 429 || (status !== undefined && status >= 500);
-
-        if (!isRetryable || attempt === this.maxAttempts) throw lastError;
-
-        const retryAfter = (error as { retryAfter?: number }).retryAfter;
-        const backoffMs = retryAfter
-          ? retryAfter * 1000
-          : Math.min(2 ** attempt * 500, 8_000) + Math.random() * 500;
-
-        await new Promise((r) => setTimeout(r, backoffMs));
-      }
+    const response = await this.http.send<T>({
+      method,
+      path,
+      body,
+      query: queryParams,
+      headers: conditional ? this.cache?.validators(url) : undefined,
+      onStatus: this.onStatus,
+      signal: this.signal,
+    });
+
+    if (response.status === 304) {
+      const cached = this.cache?.revalidate(url);
+      // The entry was invalidated while the request was in flight
+      if (cached === undefined) return this.send<T>(method, path, url, body, queryParams, false);
+      return cached as T;
     }
 
-    throw lastError!;
+    if (method === 'GET') this.cache?.set(url, path, response.data, response.headers);
+    return response.data;
   }
 
   // Profile & Authentication
@@ -419,41 +473,56 @@ export class InfomaniakClient {
   }
 
   // Accounts
-  async getAccounts(): Promise<ApiResponse<Account[]>> {
-    return this.request<ApiResponse<Account[]>>('GET', '/1/account');
+  async getAccounts(pagination?: PaginationOptions): Promise<ApiResponse<Account[]>> {
+    return this.request<ApiResponse<Account[]>>('GET', '/1/account', undefined, pagination);
   }
 
   async getAccount(accountId: number): Promise<ApiResponse<Account>> {
     return this.request<ApiResponse<Account>>('GET', `/1/account/${accountId}`);
   }
 
-  async getAccountProducts(accountId: number): Promise<ApiResponse<Product[]>> {
-    return this.request<ApiResponse<Product[]>>('GET', `/1/account/${accountId}/product`);
+  async getAccountProducts(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<Product[]>> {
+    return this.request<ApiResponse<Product[]>>('GET', `/1/account/${accountId}/product`, undefined, pagination);
   }
 
   // Domains
-  async getDomains(accountId: number): Promise<ApiResponse<Domain[]>> {
-    return this.request<ApiResponse<Domain[]>>('GET', `/1/domain/account/${accountId}`);
+  async getDomains(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<Domain[]>> {
+    return this.request<ApiResponse<Domain[]>>('GET', `/1/domain/account/${accountId}`, undefined, pagination);
   }
 
   async getDomain(accountId: number, domain: string): Promise<ApiResponse<Domain>> {
     return this.request<ApiResponse<Domain>>('GET', `/1/domain/account/${accountId}/domain/${domain}`);
   }
 
-  async getDomainNameservers(domain: string): Promise<ApiResponse<DomainNameserver[]>> {
-    return this.request<ApiResponse<DomainNameserver[]>>('GET', `/1/domain/${domain}/nameserver`);
+  async getDomainNameservers(domain: string, pagination?: PaginationOptions): Promise<ApiResponse<DomainNameserver[]>> {
+    return this.request<ApiResponse<DomainNameserver[]>>('GET', `/1/domain/${domain}/nameserver`, undefined, pagination);
   }
 
-  async updateDomainNameservers(domain: string, nameservers: DomainNameserver[]): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('PUT', `/1/domain/${domain}/nameserver`, { nameservers });
+  async updateDomainNameservers(domain: string, nameservers: DomainNameserver[]): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('PUT', `/1/domain/${domain}/nameserver`, { nameservers }, undefined, {
+      effect: `Replace the nameservers of ${domain}`,
+      current: `/1/domain/${domain}/nameserver`,
+    });
   }
 
-  async renewDomain(domain: string, duration: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('POST', `/1/domain/${domain}/renew`, { duration });
+  async renewDomain(domain: string, duration: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('POST', `/1/domain/${domain}/renew`, { duration }, undefined, {
+      effect: `Renew ${domain} for ${duration} year(s)`,
+    });
   }
 
-  async getDnsRecords(domain: string): Promise<ApiResponse<DnsRecord[]>> {
-    return this.request<ApiResponse<DnsRecord[]>>('GET', `/1/domain/${domain}/dns/record`);
+  async getDnsRecords(domain: string, pagination?: PaginationOptions): Promise<ApiResponse<DnsRecord[]>> {
+    return this.request<ApiResponse<DnsRecord[]>>('GET', `/1/domain/${domain}/dns/record`, undefined, pagination);
+  }
+
+  /**
+   * DNS record of a zone, which the API only returns as part of the zone
+   */
+  async findDnsRecord(domain: string, recordId: number): Promise<DnsRecord | undefined> {
+    for await (const record of paginate((page) => this.getDnsRecords(domain, page))) {
+      if (record.id === recordId) return record;
+    }
+    return undefined;
   }
 
   async createDnsRecord(domain: string, record: {
@@ -462,8 +531,10 @@ export class InfomaniakClient {
     target: string;
     ttl?: number;
     priority?: number;
-  }): Promise<ApiResponse<DnsRecord>> {
-    return this.request<ApiResponse<DnsRecord>>('POST', `/1/domain/${domain}/dns/record`, record);
+  }): Promise<Mutation<ApiResponse<DnsRecord>, DryRun>> {
+    return this.request<ApiResponse<DnsRecord>>('POST', `/1/domain/${domain}/dns/record`, record, undefined, {
+      effect: `Create ${record.type} record ${record.source} -> ${record.target} in ${domain}`,
+    });
   }
 
   async updateDnsRecord(domain: string, recordId: number, record: {
@@ -472,25 +543,31 @@ export class InfomaniakClient {
     target?: string;
     ttl?: number;
     priority?: number;
-  }): Promise<ApiResponse<DnsRecord>> {
-    return this.request<ApiResponse<DnsRecord>>('PUT', `/1/domain/${domain}/dns/record/${recordId}`, record);
+  }): Promise<Mutation<ApiResponse<DnsRecord>, DryRun>> {
+    return this.request<ApiResponse<DnsRecord>>('PUT', `/1/domain/${domain}/dns/record/${recordId}`, record, undefined, {
+      effect: `Update DNS record ${recordId} of ${domain}`,
+      readCurrent: () => this.findDnsRecord(domain, recordId),
+    });
   }
 
-  async deleteDnsRecord(domain: string, recordId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/domain/${domain}/dns/record/${recordId}`);
+  async deleteDnsRecord(domain: string, recordId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/domain/${domain}/dns/record/${recordId}`, undefined, undefined, {
+      effect: `Delete DNS record ${recordId} of ${domain}`,
+      readCurrent: () => this.findDnsRecord(domain, recordId),
+    });
   }
 
   // Mail Services
-  async getMailServices(accountId: number): Promise<ApiResponse<MailService[]>> {
-    return this.request<ApiResponse<MailService[]>>('GET', `/1/mail`, undefined, { account_id: accountId });
+  async getMailServices(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<MailService[]>> {
+    return this.request<ApiResponse<MailService[]>>('GET', `/1/mail`, undefined, { account_id: accountId, ...pagination });
   }
 
   async getMailService(mailId: number): Promise<ApiResponse<MailService>> {
     return this.request<ApiResponse<MailService>>('GET', `/1/mail/${mailId}`);
   }
 
-  async getMailboxes(mailId: number): Promise<ApiResponse<Mailbox[]>> {
-    return this.request<ApiResponse<Mailbox[]>>('GET', `/1/mail/${mailId}/mailbox`);
+  async getMailboxes(mailId: number, pagination?: PaginationOptions): Promise<ApiResponse<Mailbox[]>> {
+    return this.request<ApiResponse<Mailbox[]>>('GET', `/1/mail/${mailId}/mailbox`, undefined, pagination);
   }
 
   async getMailbox(mailId: number, mailboxId: number): Promise<ApiResponse<Mailbox>> {
@@ -501,64 +578,86 @@ export class InfomaniakClient {
     mailbox_name: string;
     password: string;
     max_size?: number;
-  }): Promise<ApiResponse<Mailbox>> {
-    return this.request<ApiResponse<Mailbox>>('POST', `/1/mail/${mailId}/mailbox`, mailbox);
+  }): Promise<Mutation<ApiResponse<Mailbox>, DryRun>> {
+    return this.request<ApiResponse<Mailbox>>('POST', `/1/mail/${mailId}/mailbox`, mailbox, undefined, {
+      effect: `Create mailbox ${mailbox.mailbox_name} in mail service ${mailId}`,
+    });
   }
 
   async updateMailbox(mailId: number, mailboxId: number, mailbox: {
     password?: string;
     max_size?: number;
-  }): Promise<ApiResponse<Mailbox>> {
-    return this.request<ApiResponse<Mailbox>>('PUT', `/1/mail/${mailId}/mailbox/${mailboxId}`, mailbox);
+  }): Promise<Mutation<ApiResponse<Mailbox>, DryRun>> {
+    return this.request<ApiResponse<Mailbox>>('PUT', `/1/mail/${mailId}/mailbox/${mailboxId}`, mailbox, undefined, {
+      effect: `Update mailbox ${mailboxId} of mail service ${mailId}`,
+      current: `/1/mail/${mailId}/mailbox/${mailboxId}`,
+    });
   }
 
-  async deleteMailbox(mailId: number, mailboxId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/mail/${mailId}/mailbox/${mailboxId}`);
+  async deleteMailbox(mailId: number, mailboxId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/mail/${mailId}/mailbox/${mailboxId}`, undefined, undefined, {
+      effect: `Delete mailbox ${mailboxId} of mail service ${mailId}`,
+      current: `/1/mail/${mailId}/mailbox/${mailboxId}`,
+    });
   }
 
-  async addMailboxAlias(mailId: number, mailboxId: number, alias: string): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('POST', `/1/mail/${mailId}/mailbox/${mailboxId}/alias`, { alias });
+  async addMailboxAlias(mailId: number, mailboxId: number, alias: string): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('POST', `/1/mail/${mailId}/mailbox/${mailboxId}/alias`, { alias }, undefined, {
+      effect: `Add alias ${alias} to mailbox ${mailboxId}`,
+      current: `/1/mail/${mailId}/mailbox/${mailboxId}`,
+    });
   }
 
-  async deleteMailboxAlias(mailId: number, mailboxId: number, alias: string): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/mail/${mailId}/mailbox/${mailboxId}/alias/${encodeURIComponent(alias)}`);
+  async deleteMailboxAlias(mailId: number, mailboxId: number, alias: string): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/mail/${mailId}/mailbox/${mailboxId}/alias/${encodeURIComponent(alias)}`, undefined, undefined, {
+      effect: `Remove alias ${alias} from mailbox ${mailboxId}`,
+      current: `/1/mail/${mailId}/mailbox/${mailboxId}`,
+    });
   }
 
-  async getEmailRedirections(mailId: number): Promise<ApiResponse<EmailRedirection[]>> {
-    return this.request<ApiResponse<EmailRedirection[]>>('GET', `/1/mail/${mailId}/redirection`);
+  async getEmailRedirections(mailId: number, pagination?: PaginationOptions): Promise<ApiResponse<EmailRedirection[]>> {
+    return this.request<ApiResponse<EmailRedirection[]>>('GET', `/1/mail/${mailId}/redirection`, undefined, pagination);
   }
 
-  async createEmailRedirection(mailId: number, redirection: { from: string; to: string[]; keep_copy?: boolean }): Promise<ApiResponse<EmailRedirection>> {
-    return this.request<ApiResponse<EmailRedirection>>('POST', `/1/mail/${mailId}/redirection`, redirection);
+  async createEmailRedirection(mailId: number, redirection: { from: string; to: string[]; keep_copy?: boolean }): Promise<Mutation<ApiResponse<EmailRedirection>, DryRun>> {
+    return this.request<ApiResponse<EmailRedirection>>('POST', `/1/mail/${mailId}/redirection`, redirection, undefined, {
+      effect: `Redirect ${redirection.from} to ${redirection.to.join(', ')}`,
+    });
   }
 
-  async deleteEmailRedirection(mailId: number, redirectionId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/mail/${mailId}/redirection/${redirectionId}`);
+  async deleteEmailRedirection(mailId: number, redirectionId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/mail/${mailId}/redirection/${redirectionId}`, undefined, undefined, {
+      effect: `Delete redirection ${redirectionId} of mail service ${mailId}`,
+      current: `/1/mail/${mailId}/redirection/${redirectionId}`,
+    });
   }
 
   async getMailboxAutoresponder(mailId: number, mailboxId: number): Promise<ApiResponse<AutoresponderSettings>> {
     return this.request<ApiResponse<AutoresponderSettings>>('GET', `/1/mail/${mailId}/mailbox/${mailboxId}/autoresponder`);
   }
 
-  async updateMailboxAutoresponder(mailId: number, mailboxId: number, settings: AutoresponderSettings): Promise<ApiResponse<AutoresponderSettings>> {
-    return this.request<ApiResponse<AutoresponderSettings>>('PUT', `/1/mail/${mailId}/mailbox/${mailboxId}/autoresponder`, settings);
+  async updateMailboxAutoresponder(mailId: number, mailboxId: number, settings: AutoresponderSettings): Promise<Mutation<ApiResponse<AutoresponderSettings>, DryRun>> {
+    return this.request<ApiResponse<AutoresponderSettings>>('PUT', `/1/mail/${mailId}/mailbox/${mailboxId}/autoresponder`, settings, undefined, {
+      effect: `${settings.enabled ? 'Enable' : 'Disable'} the autoresponder of mailbox ${mailboxId}`,
+      current: `/1/mail/${mailId}/mailbox/${mailboxId}/autoresponder`,
+    });
   }
 
-  async listMailboxFolders(mailId: number, mailboxId: number): Promise<ApiResponse<MailboxFolder[]>> {
-    return this.request<ApiResponse<MailboxFolder[]>>('GET', `/1/mail/${mailId}/mailbox/${mailboxId}/folder`);
+  async listMailboxFolders(mailId: number, mailboxId: number, pagination?: PaginationOptions): Promise<ApiResponse<MailboxFolder[]>> {
+    return this.request<ApiResponse<MailboxFolder[]>>('GET', `/1/mail/${mailId}/mailbox/${mailboxId}/folder`, undefined, pagination);
   }
 
   // Web Hosting
-  async getWebHostings(accountId: number): Promise<ApiResponse<WebHosting[]>> {
-    return this.request<ApiResponse<WebHosting[]>>('GET', `/1/web`, undefined, { account_id: accountId });
+  async getWebHostings(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<WebHosting[]>> {
+    return this.request<ApiResponse<WebHosting[]>>('GET', `/1/web`, undefined, { account_id: accountId, ...pagination });
   }
 
   async getWebHosting(hostingId: number): Promise<ApiResponse<WebHosting>> {
     return this.request<ApiResponse<WebHosting>>('GET', `/1/web/${hostingId}`);
   }
 
-  async getSites(hostingId: number): Promise<ApiResponse<Site[]>> {
-    return this.request<ApiResponse<Site[]>>('GET', `/1/web/${hostingId}/site`);
+  async getSites(hostingId: number, pagination?: PaginationOptions): Promise<ApiResponse<Site[]>> {
+    return this.request<ApiResponse<Site[]>>('GET', `/1/web/${hostingId}/site`, undefined, pagination);
   }
 
   async getSite(hostingId: number, siteId: number): Promise<ApiResponse<Site>> {
@@ -569,24 +668,32 @@ export class InfomaniakClient {
     fqdn: string;
     path?: string;
     php_version?: string;
-  }): Promise<ApiResponse<Site>> {
-    return this.request<ApiResponse<Site>>('POST', `/1/web/${hostingId}/site`, site);
+  }): Promise<Mutation<ApiResponse<Site>, DryRun>> {
+    return this.request<ApiResponse<Site>>('POST', `/1/web/${hostingId}/site`, site, undefined, {
+      effect: `Create site ${site.fqdn} on hosting ${hostingId}`,
+    });
   }
 
   async updateSite(hostingId: number, siteId: number, site: {
     path?: string;
     php_version?: string;
-  }): Promise<ApiResponse<Site>> {
-    return this.request<ApiResponse<Site>>('PUT', `/1/web/${hostingId}/site/${siteId}`, site);
+  }): Promise<Mutation<ApiResponse<Site>, DryRun>> {
+    return this.request<ApiResponse<Site>>('PUT', `/1/web/${hostingId}/site/${siteId}`, site, undefined, {
+      effect: `Update site ${siteId} of hosting ${hostingId}`,
+      current: `/1/web/${hostingId}/site/${siteId}`,
+    });
   }
 
-  async deleteSite(hostingId: number, siteId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/site/${siteId}`);
+  async deleteSite(hostingId: number, siteId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/site/${siteId}`, undefined, undefined, {
+      effect: `Delete site ${siteId} of hosting ${hostingId}`,
+      current: `/1/web/${hostingId}/site/${siteId}`,
+    });
   }
 
   // Databases
-  async getDatabases(hostingId: number): Promise<ApiResponse<Database[]>> {
-    return this.request<ApiResponse<Database[]>>('GET', `/1/web/${hostingId}/database`);
+  async getDatabases(hostingId: number, pagination?: PaginationOptions): Promise<ApiResponse<Database[]>> {
+    return this.request<ApiResponse<Database[]>>('GET', `/1/web/${hostingId}/database`, undefined, pagination);
   }
 
   async getDatabase(hostingId: number, dbId: number): Promise<ApiResponse<Database>> {
@@ -596,179 +703,238 @@ export class InfomaniakClient {
   async createDatabase(hostingId: number, database: {
     name: string;
     charset?: string;
-  }): Promise<ApiResponse<Database>> {
-    return this.request<ApiResponse<Database>>('POST', `/1/web/${hostingId}/database`, database);
+  }): Promise<Mutation<ApiResponse<Database>, DryRun>> {
+    return this.request<ApiResponse<Database>>('POST', `/1/web/${hostingId}/database`, database, undefined, {
+      effect: `Create database ${database.name} on hosting ${hostingId}`,
+    });
   }
 
-  async deleteDatabase(hostingId: number, dbId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/database/${dbId}`);
+  async deleteDatabase(hostingId: number, dbId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/database/${dbId}`, undefined, undefined, {
+      effect: `Delete database ${dbId} of hosting ${hostingId} and all its data`,
+      current: `/1/web/${hostingId}/database/${dbId}`,
+    });
   }
 
-  async getCronJobs(hostingId: number): Promise<ApiResponse<CronJob[]>> {
-    return this.request<ApiResponse<CronJob[]>>('GET', `/1/web/${hostingId}/cron`);
+  async getCronJobs(hostingId: number, pagination?: PaginationOptions): Promise<ApiResponse<CronJob[]>> {
+    return this.request<ApiResponse<CronJob[]>>('GET', `/1/web/${hostingId}/cron`, undefined, pagination);
   }
 
-  async createCronJob(hostingId: number, cron: { command: string; schedule: string; description?: string }): Promise<ApiResponse<CronJob>> {
-    return this.request<ApiResponse<CronJob>>('POST', `/1/web/${hostingId}/cron`, cron);
+  async createCronJob(hostingId: number, cron: { command: string; schedule: string; description?: string }): Promise<Mutation<ApiResponse<CronJob>, DryRun>> {
+    return this.request<ApiResponse<CronJob>>('POST', `/1/web/${hostingId}/cron`, cron, undefined, {
+      effect: `Schedule "${cron.command}" at "${cron.schedule}" on hosting ${hostingId}`,
+    });
   }
 
-  async updateCronJob(hostingId: number, cronId: number, cron: { command?: string; schedule?: string; description?: string }): Promise<ApiResponse<CronJob>> {
-    return this.request<ApiResponse<CronJob>>('PUT', `/1/web/${hostingId}/cron/${cronId}`, cron);
+  async updateCronJob(hostingId: number, cronId: number, cron: { command?: string; schedule?: string; description?: string }): Promise<Mutation<ApiResponse<CronJob>, DryRun>> {
+    return this.request<ApiResponse<CronJob>>('PUT', `/1/web/${hostingId}/cron/${cronId}`, cron, undefined, {
+      effect: `Update cron job ${cronId} of hosting ${hostingId}`,
+      current: `/1/web/${hostingId}/cron/${cronId}`,
+    });
   }
 
-  async deleteCronJob(hostingId: number, cronId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/cron/${cronId}`);
+  async deleteCronJob(hostingId: number, cronId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/cron/${cronId}`, undefined, undefined, {
+      effect: `Delete cron job ${cronId} of hosting ${hostingId}`,
+      current: `/1/web/${hostingId}/cron/${cronId}`,
+    });
   }
 
-  async getFtpAccounts(hostingId: number): Promise<ApiResponse<FtpAccount[]>> {
-    return this.request<ApiResponse<FtpAccount[]>>('GET', `/1/web/${hostingId}/ftp`);
+  async getFtpAccounts(hostingId: number, pagination?: PaginationOptions): Promise<ApiResponse<FtpAccount[]>> {
+    return this.request<ApiResponse<FtpAccount[]>>('GET', `/1/web/${hostingId}/ftp`, undefined, pagination);
   }
 
-  async createFtpAccount(hostingId: number, ftp: { login: string; password: string; home_directory?: string }): Promise<ApiResponse<FtpAccount>> {
-    return this.request<ApiResponse<FtpAccount>>('POST', `/1/web/${hostingId}/ftp`, ftp);
+  async createFtpAccount(hostingId: number, ftp: { login: string; password: string; home_directory?: string }): Promise<Mutation<ApiResponse<FtpAccount>, DryRun>> {
+    return this.request<ApiResponse<FtpAccount>>('POST', `/1/web/${hostingId}/ftp`, ftp, undefined, {
+      effect: `Create FTP account ${ftp.login} on hosting ${hostingId}`,
+    });
   }
 
-  async updateFtpAccount(hostingId: number, ftpId: number, ftp: { password?: string; home_directory?: string; is_active?: boolean }): Promise<ApiResponse<FtpAccount>> {
-    return this.request<ApiResponse<FtpAccount>>('PUT', `/1/web/${hostingId}/ftp/${ftpId}`, ftp);
+  async updateFtpAccount(hostingId: number, ftpId: number, ftp: { password?: string; home_directory?: string; is_active?: boolean }): Promise<Mutation<ApiResponse<FtpAccount>, DryRun>> {
+    return this.request<ApiResponse<FtpAccount>>('PUT', `/1/web/${hostingId}/ftp/${ftpId}`, ftp, undefined, {
+      effect: `Update FTP account ${ftpId} of hosting ${hostingId}`,
+      current: `/1/web/${hostingId}/ftp/${ftpId}`,
+    });
   }
 
-  async deleteFtpAccount(hostingId: number, ftpId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/ftp/${ftpId}`);
+  async deleteFtpAccount(hostingId: number, ftpId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/1/web/${hostingId}/ftp/${ftpId}`, undefined, undefined, {
+      effect: `Delete FTP account ${ftpId} of hosting ${hostingId}`,
+      current: `/1/web/${hostingId}/ftp/${ftpId}`,
+    });
   }
 
   // kDrive
-  async getKDrives(accountId: number): Promise<ApiResponse<KDrive[]>> {
-    return this.request<ApiResponse<KDrive[]>>('GET', `/2/drive`, undefined, { account_id: accountId });
+  async getKDrives(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<KDrive[]>> {
+    return this.request<ApiResponse<KDrive[]>>('GET', `/2/drive`, undefined, { account_id: accountId, ...pagination });
   }
 
   async getKDrive(driveId: number): Promise<ApiResponse<KDrive>> {
     return this.request<ApiResponse<KDrive>>('GET', `/2/drive/${driveId}`);
   }
 
-  async listKDriveFiles(driveId: number, parentId?: number): Promise<ApiResponse<KDriveFile[]>> {
+  async listKDriveFiles(driveId: number, parentId?: number, pagination?: PaginationOptions): Promise<ApiResponse<KDriveFile[]>> {
     const path = parentId
       ? `/2/drive/${driveId}/files/${parentId}/files`
       : `/2/drive/${driveId}/files`;
-    return this.request<ApiResponse<KDriveFile[]>>('GET', path);
+    return this.request<ApiResponse<KDriveFile[]>>('GET', path, undefined, pagination);
   }
 
   async getKDriveFile(driveId: number, fileId: number): Promise<ApiResponse<KDriveFile>> {
     return this.request<ApiResponse<KDriveFile>>('GET', `/2/drive/${driveId}/files/${fileId}`);
   }
 
-  async searchKDriveFiles(driveId: number, query: string): Promise<ApiResponse<KDriveFile[]>> {
-    return this.request<ApiResponse<KDriveFile[]>>('GET', `/2/drive/${driveId}/files/search`, undefined, { query });
+  async searchKDriveFiles(driveId: number, query: string, pagination?: PaginationOptions): Promise<ApiResponse<KDriveFile[]>> {
+    return this.request<ApiResponse<KDriveFile[]>>('GET', `/2/drive/${driveId}/files/search`, undefined, { query, ...pagination });
   }
 
-  async createKDriveDirectory(driveId: number, directory: { name: string; parent_id?: number }): Promise<ApiResponse<KDriveFile>> {
-    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/directories`, directory);
+  async createKDriveDirectory(driveId: number, directory: { name: string; parent_id?: number }): Promise<Mutation<ApiResponse<KDriveFile>, DryRun>> {
+    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/directories`, directory, undefined, {
+      effect: `Create directory ${directory.name} in kDrive ${driveId}`,
+    });
   }
 
-  async moveKDriveFile(driveId: number, fileId: number, destinationDirectoryId: number): Promise<ApiResponse<KDriveFile>> {
-    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/${fileId}/move`, { destination_directory_id: destinationDirectoryId });
+  async moveKDriveFile(driveId: number, fileId: number, destinationDirectoryId: number): Promise<Mutation<ApiResponse<KDriveFile>, DryRun>> {
+    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/${fileId}/move`, { destination_directory_id: destinationDirectoryId }, undefined, {
+      effect: `Move file ${fileId} to directory ${destinationDirectoryId}`,
+      current: `/2/drive/${driveId}/files/${fileId}`,
+    });
   }
 
-  async copyKDriveFile(driveId: number, fileId: number, destinationDirectoryId: number): Promise<ApiResponse<KDriveFile>> {
-    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/${fileId}/copy`, { destination_directory_id: destinationDirectoryId });
+  async copyKDriveFile(driveId: number, fileId: number, destinationDirectoryId: number): Promise<Mutation<ApiResponse<KDriveFile>, DryRun>> {
+    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/${fileId}/copy`, { destination_directory_id: destinationDirectoryId }, undefined, {
+      effect: `Copy file ${fileId} to directory ${destinationDirectoryId}`,
+      current: `/2/drive/${driveId}/files/${fileId}`,
+    });
   }
 
-  async renameKDriveFile(driveId: number, fileId: number, name: string): Promise<ApiResponse<KDriveFile>> {
-    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/${fileId}/rename`, { name });
+  async renameKDriveFile(driveId: number, fileId: number, name: string): Promise<Mutation<ApiResponse<KDriveFile>, DryRun>> {
+    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/${fileId}/rename`, { name }, undefined, {
+      effect: `Rename file ${fileId} to ${name}`,
+      current: `/2/drive/${driveId}/files/${fileId}`,
+    });
   }
 
-  async deleteKDriveFile(driveId: number, fileId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/2/drive/${driveId}/files/${fileId}`);
+  async deleteKDriveFile(driveId: number, fileId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/2/drive/${driveId}/files/${fileId}`, undefined, undefined, {
+      effect: `Move file ${fileId} of kDrive ${driveId} to the trash`,
+      current: `/2/drive/${driveId}/files/${fileId}`,
+    });
   }
 
-  async shareKDriveFile(driveId: number, fileId: number, options: { right?: string; valid_until?: string } = {}): Promise<ApiResponse<KDriveShareLink>> {
-    return this.request<ApiResponse<KDriveShareLink>>('POST', `/2/drive/${driveId}/files/${fileId}/shareable_link`, options);
+  async shareKDriveFile(driveId: number, fileId: number, options: { right?: string; valid_until?: string } = {}): Promise<Mutation<ApiResponse<KDriveShareLink>, DryRun>> {
+    return this.request<ApiResponse<KDriveShareLink>>('POST', `/2/drive/${driveId}/files/${fileId}/shareable_link`, options, undefined, {
+      effect: `Create a public share link for file ${fileId}`,
+      current: `/2/drive/${driveId}/files/${fileId}`,
+    });
   }
 
-  async listKDriveTrash(driveId: number): Promise<ApiResponse<KDriveFile[]>> {
-    return this.request<ApiResponse<KDriveFile[]>>('GET', `/2/drive/${driveId}/files/trash`);
+  async listKDriveTrash(driveId: number, pagination?: PaginationOptions): Promise<ApiResponse<KDriveFile[]>> {
+    return this.request<ApiResponse<KDriveFile[]>>('GET', `/2/drive/${driveId}/files/trash`, undefined, pagination);
   }
 
-  async restoreKDriveFile(driveId: number, fileId: number): Promise<ApiResponse<KDriveFile>> {
-    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/trash/${fileId}/restore`);
+  async restoreKDriveFile(driveId: number, fileId: number): Promise<Mutation<ApiResponse<KDriveFile>, DryRun>> {
+    return this.request<ApiResponse<KDriveFile>>('POST', `/2/drive/${driveId}/files/trash/${fileId}/restore`, undefined, undefined, {
+      effect: `Restore file ${fileId} from the trash of kDrive ${driveId}`,
+    });
   }
 
-  async emptyKDriveTrash(driveId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/2/drive/${driveId}/files/trash`);
+  async emptyKDriveTrash(driveId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/2/drive/${driveId}/files/trash`, undefined, undefined, {
+      effect: `Permanently delete every file in the trash of kDrive ${driveId}`,
+      current: `/2/drive/${driveId}/files/trash`,
+    });
   }
 
-  async listKDriveFileVersions(driveId: number, fileId: number): Promise<ApiResponse<KDriveFileVersion[]>> {
-    return this.request<ApiResponse<KDriveFileVersion[]>>('GET', `/2/drive/${driveId}/files/${fileId}/versions`);
+  async listKDriveFileVersions(driveId: number, fileId: number, pagination?: PaginationOptions): Promise<ApiResponse<KDriveFileVersion[]>> {
+    return this.request<ApiResponse<KDriveFileVersion[]>>('GET', `/2/drive/${driveId}/files/${fileId}/versions`, undefined, pagination);
   }
 
-  async getKDriveActivity(driveId: number, fileId?: number): Promise<ApiResponse<KDriveActivity[]>> {
+  async getKDriveActivity(driveId: number, fileId?: number, pagination?: PaginationOptions): Promise<ApiResponse<KDriveActivity[]>> {
     const path = fileId
       ? `/2/drive/${driveId}/files/${fileId}/activity`
       : `/2/drive/${driveId}/activity`;
-    return this.request<ApiResponse<KDriveActivity[]>>('GET', path);
+    return this.request<ApiResponse<KDriveActivity[]>>('GET', path, undefined, pagination);
   }
 
-  async listKDriveFavorites(driveId: number): Promise<ApiResponse<KDriveFile[]>> {
-    return this.request<ApiResponse<KDriveFile[]>>('GET', `/2/drive/${driveId}/files/favorites`);
+  async listKDriveFavorites(driveId: number, pagination?: PaginationOptions): Promise<ApiResponse<KDriveFile[]>> {
+    return this.request<ApiResponse<KDriveFile[]>>('GET', `/2/drive/${driveId}/files/favorites`, undefined, pagination);
   }
 
-  async addKDriveFavorite(driveId: number, fileId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('POST', `/2/drive/${driveId}/files/${fileId}/favorite`);
+  async addKDriveFavorite(driveId: number, fileId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('POST', `/2/drive/${driveId}/files/${fileId}/favorite`, undefined, undefined, {
+      effect: `Add file ${fileId} to favorites`,
+    });
   }
 
-  async removeKDriveFavorite(driveId: number, fileId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('DELETE', `/2/drive/${driveId}/files/${fileId}/favorite`);
+  async removeKDriveFavorite(driveId: number, fileId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('DELETE', `/2/drive/${driveId}/files/${fileId}/favorite`, undefined, undefined, {
+      effect: `Remove file ${fileId} from favorites`,
+    });
   }
 
   // Swiss Backup
-  async getSwissBackups(accountId: number): Promise<ApiResponse<SwissBackup[]>> {
-    return this.request<ApiResponse<SwissBackup[]>>('GET', `/1/swiss_backup`, undefined, { account_id: accountId });
+  async getSwissBackups(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<SwissBackup[]>> {
+    return this.request<ApiResponse<SwissBackup[]>>('GET', `/1/swiss_backup`, undefined, { account_id: accountId, ...pagination });
   }
 
   async getSwissBackup(backupId: number): Promise<ApiResponse<SwissBackup>> {
     return this.request<ApiResponse<SwissBackup>>('GET', `/1/swiss_backup/${backupId}`);
   }
 
-  async getSwissBackupSlots(backupId: number): Promise<ApiResponse<SwissBackupSlot[]>> {
-    return this.request<ApiResponse<SwissBackupSlot[]>>('GET', `/1/swiss_backup/${backupId}/slot`);
+  async getSwissBackupSlots(backupId: number, pagination?: PaginationOptions): Promise<ApiResponse<SwissBackupSlot[]>> {
+    return this.request<ApiResponse<SwissBackupSlot[]>>('GET', `/1/swiss_backup/${backupId}/slot`, undefined, pagination);
   }
 
   // VPS
-  async getVpsList(): Promise<ApiResponse<Vps[]>> {
-    return this.request<ApiResponse<Vps[]>>('GET', `/1/vps`);
+  async getVpsList(pagination?: PaginationOptions): Promise<ApiResponse<Vps[]>> {
+    return this.request<ApiResponse<Vps[]>>('GET', `/1/vps`, undefined, pagination);
   }
 
   async getVps(vpsId: number): Promise<ApiResponse<Vps>> {
     return this.request<ApiResponse<Vps>>('GET', `/1/vps/${vpsId}`);
   }
 
-  async rebootVps(vpsId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('POST', `/1/vps/${vpsId}/reboot`);
+  async rebootVps(vpsId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('POST', `/1/vps/${vpsId}/reboot`, undefined, undefined, {
+      effect: `Reboot VPS ${vpsId}`,
+      current: `/1/vps/${vpsId}`,
+    });
   }
 
-  async shutdownVps(vpsId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('POST', `/1/vps/${vpsId}/shutdown`);
+  async shutdownVps(vpsId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('POST', `/1/vps/${vpsId}/shutdown`, undefined, undefined, {
+      effect: `Shut down VPS ${vpsId}`,
+      current: `/1/vps/${vpsId}`,
+    });
   }
 
-  async bootVps(vpsId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('POST', `/1/vps/${vpsId}/boot`);
+  async bootVps(vpsId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('POST', `/1/vps/${vpsId}/boot`, undefined, undefined, {
+      effect: `Boot VPS ${vpsId}`,
+      current: `/1/vps/${vpsId}`,
+    });
   }
 
   // Dedicated Servers
-  async getDedicatedServers(): Promise<ApiResponse<DedicatedServer[]>> {
-    return this.request<ApiResponse<DedicatedServer[]>>('GET', `/1/dedicated`);
+  async getDedicatedServers(pagination?: PaginationOptions): Promise<ApiResponse<DedicatedServer[]>> {
+    return this.request<ApiResponse<DedicatedServer[]>>('GET', `/1/dedicated`, undefined, pagination);
   }
 
   async getDedicatedServer(serverId: number): Promise<ApiResponse<DedicatedServer>> {
     return this.request<ApiResponse<DedicatedServer>>('GET', `/1/dedicated/${serverId}`);
   }
 
-  async rebootDedicatedServer(serverId: number): Promise<ApiResponse<void>> {
-    return this.request<ApiResponse<void>>('POST', `/1/dedicated/${serverId}/reboot`);
+  async rebootDedicatedServer(serverId: number): Promise<Mutation<ApiResponse<void>, DryRun>> {
+    return this.request<ApiResponse<void>>('POST', `/1/dedicated/${serverId}/reboot`, undefined, undefined, {
+      effect: `Reboot dedicated server ${serverId}`,
+      current: `/1/dedicated/${serverId}`,
+    });
   }
 
   // SSL Certificates
-  async getCertificates(accountId: number): Promise<ApiResponse<SslCertificate[]>> {
-    return this.request<ApiResponse<SslCertificate[]>>('GET', `/1/certificate`, undefined, { account_id: accountId });
+  async getCertificates(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<SslCertificate[]>> {
+    return this.request<ApiResponse<SslCertificate[]>>('GET', `/1/certificate`, undefined, { account_id: accountId, ...pagination });
   }
 
   async getCertificate(certId: number): Promise<ApiResponse<SslCertificate>> {
@@ -776,21 +942,21 @@ export class InfomaniakClient {
   }
 
   // Invoicing
-  async getInvoices(accountId: number): Promise<ApiResponse<Invoice[]>> {
-    return this.request<ApiResponse<Invoice[]>>('GET', `/1/invoicing/${accountId}/invoice/list`);
+  async getInvoices(accountId: number, pagination?: PaginationOptions): Promise<ApiResponse<Invoice[]>> {
+    return this.request<ApiResponse<Invoice[]>>('GET', `/1/invoicing/${accountId}/invoice/list`, undefined, pagination);
   }
 
   async getInvoice(accountId: number, invoiceId: number): Promise<ApiResponse<Invoice>> {
     return this.request<ApiResponse<Invoice>>('GET', `/1/invoicing/${accountId}/invoice/${invoiceId}`);
   }
 
-  // Generic API call for advanced users
+  // Generic API call for advanced users; GET calls are sent even in dry-run mode
   async call<T = unknown>(
     method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
     endpoint: string,
     body?: unknown,
     queryParams?: Record<string, string | number | boolean | undefined>
-  ): Promise<ApiResponse<T>> {
+  ): Promise<ApiResponse<T> | Mutation<ApiResponse<T>, DryRun>> {
     return this.request<ApiResponse<T>>(method, endpoint, body, queryParams);
   }
 }
@@ -0,0 +1,54 @@
+/**
+ * Tests for the change journal
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ChangeJournal, JournalEntry } from "./journal.js";
+
+function change(tool: string): Omit<JournalEntry, "id"> {
+  return {
+    timestamp: "2026-01-01T10:00:00.000Z",
+    tool,
+    arguments: { domain: "example.com", record_id: 12 },
+    undo: { tool: "infomaniak_create_dns_record", arguments: { domain: "example.com", source: "www" } },
+  };
+}
+
+describe("ChangeJournal", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("should return the most recent change not undone yet", () => {
+    const journal = new ChangeJournal();
+    journal.record(change("infomaniak_delete_dns_record"));
+    journal.record(change("infomaniak_update_dns_record"));
+
+    expect(journal.get()?.id).toBe(2);
+    journal.markUndone(2);
+    expect(journal.get()?.id).toBe(1);
+    expect(journal.query().map((entry) => entry.id)).toEqual([1]);
+    expect(journal.query({ include_undone: true }).map((entry) => entry.id)).toEqual([2, 1]);
+  });
+
+  it("should keep the journal in a file across restarts", () => {
+    dir = mkdtempSync(join(tmpdir(), "infomaniak-mcp-"));
+    const file = join(dir, "journal.jsonl");
+
+    const journal = new ChangeJournal(file);
+    journal.record(change("infomaniak_delete_dns_record"));
+    journal.markUndone(1);
+    journal.record(change("infomaniak_update_dns_record"));
+    expect(readFileSync(file, "utf-8").trim().split("\n")).toHaveLength(2);
+
+    const restarted = new ChangeJournal(file);
+    expect(restarted.get(1)?.undone_at).toBeDefined();
+    expect(restarted.record(change("infomaniak_delete_cron_job")).id).toBe(3);
+  });
+});
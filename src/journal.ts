@@ -0,0 +1,104 @@
+/**
+ * Change Journal
+ *
+ * Records the state each mutating tool call is about to change, with the tool
+ * call reverting it, so that `infomaniak_undo` can replay the inverse operation.
+ * Kept in memory, and in a JSON Lines file when one is given so that changes
+ * can still be undone after a restart.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+/**
+ * Tool call, with validated arguments
+ */
+export interface ToolCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface JournalEntry {
+  id: number;
+  timestamp: string;
+  /** MCP session id, set on the HTTP transport */
+  session_id?: string;
+  tool: string;
+  /** Arguments of the call, with secrets masked */
+  arguments: Record<string, unknown>;
+  /** State before the change, when the tool fetches it */
+  before?: unknown;
+  /** Tool call reverting the change */
+  undo: ToolCall;
+  /** When the change was undone */
+  undone_at?: string;
+}
+
+export interface JournalQuery {
+  /** Also return changes that were already undone */
+  include_undone?: boolean;
+  /** Maximum number of entries, most recent first (default: 20) */
+  limit?: number;
+}
+
+export class ChangeJournal {
+  private readonly entries: JournalEntry[];
+
+  /**
+   * @param file - JSON Lines file persisting the journal; kept in memory only when omitted
+   */
+  constructor(readonly file?: string) {
+    this.entries = file && existsSync(file) ? load(file) : [];
+  }
+
+  record(change: Omit<JournalEntry, "id">): JournalEntry {
+    const id = this.entries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+    const entry = { id, ...change };
+    this.entries.push(entry);
+    this.save();
+    return entry;
+  }
+
+  /**
+   * The given entry, or the most recent change not undone yet
+   */
+  get(id?: number): JournalEntry | undefined {
+    if (id !== undefined) return this.entries.find((entry) => entry.id === id);
+    return [...this.entries].reverse().find((entry) => !entry.undone_at);
+  }
+
+  /**
+   * Recorded changes, most recent first
+   */
+  query(filter: JournalQuery = {}): JournalEntry[] {
+    return this.entries
+      .filter((entry) => filter.include_undone || !entry.undone_at)
+      .reverse()
+      .slice(0, filter.limit ?? 20);
+  }
+
+  markUndone(id: number): void {
+    const entry = this.entries.find((candidate) => candidate.id === id);
+    if (!entry) return;
+    entry.undone_at = new Date().toISOString();
+    this.save();
+  }
+
+  private save(): void {
+    if (!this.file) return;
+    writeFileSync(this.file, this.entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""));
+  }
+}
+
+function load(file: string): JournalEntry[] {
+  return readFileSync(file, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as JournalEntry];
+      } catch {
+        // Skip lines truncated by a crash
+        return [];
+      }
+    });
+}
@@ -6,9 +6,37 @@
  * Authentication: Bearer Token (personal access token)
  */
 
+import { DryRunHint, isPreviewed, previewRequest } from "./dry-run.js";
+import { HttpClient, QueryParams } from "./http.js";
+import { MiddlewareConfig } from "./middleware.js";
+import { DriftReport, KCHAT_RESPONSE_SCHEMAS, ResponseValidator, ValidationMode } from "./validation.js";
+
 export interface KChatConfig {
   readonly host: string;
   readonly token: string;
+  /** API URL (default: `https://{host}/api/v4`), e.g. `http://localhost:4020/api/v4` for the fake kChat */
+  readonly baseUrl?: string;
+  /** Request timeout in ms (default: 30000) */
+  readonly timeoutMs?: number;
+  /** Max attempts for 429/5xx errors and timeouts (default: 3, set 1 to disable retries) */
+  readonly maxAttempts?: number;
+  /** Preview requests that change something instead of sending them (default: false) */
+  readonly dryRun?: boolean;
+  /** Hooks run around every upstream call, added inside the retry and rate limit middlewares */
+  readonly middleware?: MiddlewareConfig;
+  /** Check responses against their schemas, logging drift or, in strict mode, failing on it (default: "lenient") */
+  readonly validation?: ValidationMode;
+}
+
+/**
+ * Options that can be overridden per call with `withOptions`
+ */
+export interface KChatClientOptions {
+  dryRun?: boolean;
+  /** Called with the HTTP status of every upstream response */
+  onStatus?: (status: number) => void;
+  /** Cancels the requests, including rate limit waits and retry backoff */
+  signal?: AbortSignal;
 }
 
 export interface KChatTeam {
@@ -52,68 +80,69 @@ export interface KChatPostList {
 }
 
 export class KChatClient {
-  private readonly baseUrl: string;
-  private readonly token: string;
+  private readonly http: HttpClient;
+  private readonly validator: ResponseValidator;
+  private dryRun: boolean;
+  private onStatus?: (status: number) => void;
+  private signal?: AbortSignal;
 
   constructor(config: KChatConfig) {
-    this.baseUrl = `https://${config.host}/api/v4`;
-    this.token = config.token;
+    this.validator = new ResponseValidator("kchat", KCHAT_RESPONSE_SCHEMAS, config.validation);
+    this.http = new HttpClient({
+      service: "kchat",
+      baseUrl: config.baseUrl ?? `https://${config.host}/api/v4`,
+      token: config.token,
+      timeoutMs: config.timeoutMs,
+      maxAttempts: config.maxAttempts,
+      // Mattermost defaults to 10 requests per second with bursts of 100; X-RateLimit-* headers refine it
+      rateLimit: { burst: 100, perMinute: 600 },
+      middleware: config.middleware,
+      validator: this.validator,
+    });
+    this.dryRun = config.dryRun ?? false;
+  }
+
+  /**
+   * Return a client sharing this client's host, token and rate limit, with some options overridden.
+   * In dry-run mode, methods that change something resolve to a `DryRunResult` instead of the API response.
+   */
+  withOptions(options: KChatClientOptions): KChatClient {
+    const scoped = Object.create(this) as KChatClient;
+    if (options.dryRun !== undefined) scoped.dryRun = options.dryRun;
+    if (options.onStatus !== undefined) scoped.onStatus = options.onStatus;
+    if (options.signal !== undefined) scoped.signal = options.signal;
+    return scoped;
+  }
+
+  /**
+   * Response validation mode, and the API drift it observed so far
+   */
+  getApiDrift(): DriftReport {
+    return this.validator.report();
   }
 
   private async request<T>(
     method: string,
     path: string,
     body?: unknown,
-    queryParams?: Record<string, string | number | boolean | undefined>,
+    queryParams?: QueryParams,
+    hint?: DryRunHint,
   ): Promise<T> {
-    let url = `${this.baseUrl}${path}`;
-
-    if (queryParams) {
-      const params = new URLSearchParams();
-      for (const [key, value] of Object.entries(queryParams)) {
-        if (value !== undefined) {
-          params.append(key, String(value));
-        }
-      }
-      const queryString = params.toString();
-      if (queryString) {
-        url += `?${queryString}`;
-      }
+    if (isPreviewed(this.dryRun, method, hint)) {
+      const url = this.http.buildUrl(path, queryParams);
+      const result = await previewRequest(method, path, url, body, hint, (current) => this.request("GET", current));
+      return result as T;
     }
 
-    const options: RequestInit = {
+    const response = await this.http.send<T>({
       method,
-      headers: {
-        Authorization: `Bearer ${this.token}`,
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-    };
-
-    if (body !== undefined && (method === "POST" || method === "PUT" || method === "PATCH")) {
-      options.body = JSON.stringify(body);
-    }
-
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage: string;
-      try {
-        const errorJson = JSON.parse(errorText) as { message?: string };
-        errorMessage = errorJson.message ?? errorText;
-      } catch {
-        errorMessage = errorText;
-      }
-      throw new Error(`kChat API Error (${response.status}): ${errorMessage}`);
-    }
-
-    if (response.status === 204) {
-      return undefined as T;
-    }
-
-    const data = await response.json();
-    return data as T;
+      path,
+      body,
+      query: queryParams,
+      onStatus: this.onStatus,
+      signal: this.signal,
+    });
+    return response.data;
   }
 
   // ─── Users ────────────────────────────────────────────────────────────────
@@ -169,7 +198,9 @@ export class KChatClient {
   }
 
   async createDirectChannel(userIds: [string, string]): Promise<KChatChannel> {
-    return this.request<KChatChannel>("POST", "/channels/direct", userIds);
+    return this.request<KChatChannel>("POST", "/channels/direct", userIds, undefined, {
+      effect: `Open a direct message channel between users ${userIds.join(" and ")}`,
+    });
   }
 
   // ─── Posts ────────────────────────────────────────────────────────────────
@@ -193,11 +224,16 @@ export class KChatClient {
     if (rootId !== undefined) {
       body.root_id = rootId;
     }
-    return this.request<KChatPost>("POST", "/posts", body);
+    return this.request<KChatPost>("POST", "/posts", body, undefined, {
+      effect: `Post ${JSON.stringify(message)} to channel ${channelId}`,
+    });
   }
 
   async deletePost(postId: string): Promise<void> {
-    return this.request<void>("DELETE", `/posts/${postId}`);
+    return this.request<void>("DELETE", `/posts/${postId}`, undefined, undefined, {
+      effect: `Delete post ${postId}`,
+      current: `/posts/${postId}`,
+    });
   }
 
   async searchPosts(
@@ -208,7 +244,7 @@ export class KChatClient {
     return this.request<KChatPostList>("POST", `/teams/${teamId}/posts/search`, {
       terms,
       is_or_search: isOrSearch ?? false,
-    });
+    }, undefined, { readOnly: true });
   }
 }
 
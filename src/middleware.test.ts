@@ -0,0 +1,146 @@
+/**
+ * Tests for the request middleware chain
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InfomaniakClient } from './infomaniak-client.js';
+import { Middleware, TokenBucket } from './middleware.js';
+import { NotFoundError } from './errors.js';
+
+const mockFetch = vi.fn();
+
+function respond(status: number, body: unknown = { result: 'success', data: {} }) {
+  mockFetch.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  });
+}
+
+describe('middleware chain', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    mockFetch.mockReset();
+  });
+
+  it('should run onRequest hooks in order and onResponse hooks in reverse', async () => {
+    const calls: string[] = [];
+    const trace = (name: string): Middleware => ({
+      name,
+      onRequest: (context) => {
+        calls.push(`${name}:request`);
+        context.headers['X-Trace'] = `${context.headers['X-Trace'] ?? ''}${name}`;
+      },
+      onResponse: () => {
+        calls.push(`${name}:response`);
+      },
+    });
+    respond(200);
+    const client = new InfomaniakClient({ token: 'token', cache: false, middleware: [trace('a'), trace('b')] });
+
+    await client.ping();
+
+    expect(calls).toEqual(['a:request', 'b:request', 'b:response', 'a:response']);
+    expect(mockFetch.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer token', 'X-Trace': 'ab' });
+  });
+
+  it('should pass typed errors to onError hooks', async () => {
+    const onError = vi.fn();
+    respond(404, { result: 'error', error: { code: 'not_found', description: 'Not found' } });
+    const client = new InfomaniakClient({ token: 'token', middleware: [{ name: 'log', onError }] });
+
+    await expect(client.getAccount(1)).rejects.toBeInstanceOf(NotFoundError);
+    expect(onError).toHaveBeenCalledWith(expect.any(NotFoundError), expect.objectContaining({ path: '/1/account/1' }));
+  });
+
+  it('should let a middleware answer instead of the API', async () => {
+    const fake: Middleware = {
+      name: 'fake',
+      onRequest: () => new Response(JSON.stringify({ result: 'success', data: { message: 'pong' } }), { status: 200 }),
+    };
+    const client = new InfomaniakClient({ token: 'token', middleware: [fake] });
+
+    await expect(client.ping()).resolves.toEqual({ result: 'success', data: { message: 'pong' } });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should map error responses of a middleware like those of the API', async () => {
+    const fake: Middleware = {
+      name: 'fake',
+      onRequest: () => new Response('Gone', { status: 404 }),
+    };
+    const client = new InfomaniakClient({ token: 'token', middleware: [fake] });
+
+    await expect(client.ping()).rejects.toThrow('Infomaniak API Error (404): Gone');
+  });
+
+  it('should let the default middlewares be replaced', async () => {
+    respond(503);
+    respond(200);
+    const client = new InfomaniakClient({
+      token: 'token',
+      middleware: (defaults) => defaults.filter((middleware) => middleware.name !== 'retry'),
+    });
+
+    await expect(client.ping()).rejects.toMatchObject({ code: 'upstream_error', status: 503 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry through the middlewares inside the retry middleware', async () => {
+    vi.useFakeTimers();
+    try {
+      const attempts: number[] = [];
+      respond(502);
+      respond(200);
+      const client = new InfomaniakClient({
+        token: 'token',
+        middleware: [{ name: 'count', onRequest: (context) => void attempts.push(context.attempt) }],
+      });
+
+      const result = client.ping();
+      await vi.runAllTimersAsync();
+      await result;
+
+      expect(attempts).toEqual([1, 2]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait for the reset once the server reports no request left', async () => {
+    const bucket = new TokenBucket(100, 600);
+    bucket.observe(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '2' }));
+
+    let taken = false;
+    const take = bucket.take().then(() => (taken = true));
+    await vi.advanceTimersByTimeAsync(1_900);
+    expect(taken).toBe(false);
+    await vi.advanceTimersByTimeAsync(200);
+    await take;
+
+    expect(taken).toBe(true);
+  });
+
+  it('should ignore responses without rate limit headers', async () => {
+    const bucket = new TokenBucket(1, 60);
+    bucket.observe(new Headers());
+
+    await expect(bucket.take()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Request Middleware
+ *
+ * Hooks run around every upstream call of the API clients. The chain is ordered
+ * outermost first: `onRequest` hooks run in order before the request is sent,
+ * `onResponse` and `onError` hooks in reverse order once it completed. Retries
+ * and rate limiting are middlewares themselves, so they can be reordered or
+ * replaced like any other.
+ */
+
+import { FailedResponse, RateLimitError, TimeoutError, UpstreamError } from './errors.js';
+
+/**
+ * Upstream call, shared by the hooks of all middlewares
+ */
+export interface RequestContext {
+  service: FailedResponse['service'];
+  method: string;
+  /** API path, without the base URL and query string */
+  path: string;
+  url: string;
+  headers: Record<string, string>;
+  /** JSON body */
+  body?: string;
+  /** 1 for the first attempt, incremented by the retry middleware */
+  attempt: number;
+  /** Aborted when the caller cancels the request; middlewares that wait should stop when it is */
+  signal?: AbortSignal;
+}
+
+export interface Middleware {
+  /** Identifies the middleware, e.g. to remove or replace a default one */
+  readonly name: string;
+  /**
+   * Before the request is sent: change the context, wait, or resolve to a Response
+   * to answer without calling the next middlewares
+   */
+  onRequest?: (context: RequestContext) => void | Response | Promise<void | Response>;
+  /** After a successful response; resolve to a Response to replace it */
+  onResponse?: (response: Response, context: RequestContext) => void | Response | Promise<void | Response>;
+  /**
+   * After the request failed, with a typed error for non-2xx responses; resolve to
+   * `true` to send the request again through the next middlewares
+   */
+  onError?: (error: Error, context: RequestContext) => void | boolean | Promise<void | boolean>;
+}
+
+/**
+ * Middlewares to add inside the default ones (retry, then rate limit), or a function
+ * building the whole chain from the defaults, to reorder or replace them
+ */
+export type MiddlewareConfig = Middleware[] | ((defaults: Middleware[]) => Middleware[]);
+
+/**
+ * Run a request through a middleware chain, ending with `send`
+ *
+ * @param accept - Checks responses short-circuited by an `onRequest` hook, as `send` does
+ */
+export async function runMiddleware(
+  chain: readonly Middleware[],
+  context: RequestContext,
+  send: (context: RequestContext) => Promise<Response>,
+  accept: (response: Response, context: RequestContext) => Promise<Response>,
+): Promise<Response> {
+  const dispatch = async (index: number): Promise<Response> => {
+    const middleware = chain[index];
+    if (!middleware) return send(context);
+
+    for (;;) {
+      let response: Response;
+      try {
+        const answered = await middleware.onRequest?.(context);
+        response = answered ? await accept(answered, context) : await dispatch(index + 1);
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        if (await middleware.onError?.(failure, context)) continue;
+        throw failure;
+      }
+      return (await middleware.onResponse?.(response, context)) ?? response;
+    }
+  };
+
+  return dispatch(0);
+}
+
+/**
+ * Client-side rate limit, also following the `X-RateLimit-*` headers servers such as Mattermost send
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly refillRateMs: number;
+  private pausedUntil = 0;
+
+  constructor(
+    private readonly capacity: number,
+    refillPerMinute: number,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+    this.refillRateMs = 60_000 / refillPerMinute;
+  }
+
+  async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now, signal);
+        continue;
+      }
+
+      const elapsed = now - this.lastRefill;
+      const refilled = Math.floor(elapsed / this.refillRateMs);
+      if (refilled > 0) {
+        this.tokens = Math.min(this.capacity, this.tokens + refilled);
+        this.lastRefill = now - (elapsed % this.refillRateMs);
+      }
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = this.refillRateMs - (Date.now() - this.lastRefill);
+      await sleep(Math.max(waitMs, 50), signal);
+    }
+  }
+
+  /**
+   * Never send more than the server says is left, and wait for the reset once nothing is
+   */
+  observe(headers: Headers | undefined): void {
+    const remaining = headers?.get('X-RateLimit-Remaining');
+    if (remaining === null || remaining === undefined || remaining === '') return;
+
+    this.tokens = Math.min(this.tokens, Number(remaining));
+    if (Number(remaining) > 0) return;
+
+    const reset = Number(headers?.get('X-RateLimit-Reset'));
+    if (!Number.isFinite(reset) || reset <= 0) return;
+    // Mattermost sends seconds until the reset, other servers a Unix timestamp
+    this.pausedUntil = reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+  }
+}
+
+/**
+ * Wait for a token before each attempt, and follow the rate limit headers of responses
+ */
+export function rateLimit(bucket: TokenBucket): Middleware {
+  return {
+    name: 'rateLimit',
+    onRequest: (context) => bucket.take(context.signal),
+    onResponse: (response) => bucket.observe(response.headers),
+  };
+}
+
+/** Methods that can be sent twice without changing the outcome (RFC 9110, section 9.2.2) */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Retry 429 responses, and 5xx responses and timeouts of idempotent requests, with exponential
+ * backoff, honoring `Retry-After`. A request that failed otherwise may have been processed,
+ * so sending a POST again could create a record twice.
+ *
+ * @param maxAttempts - Attempts including the first one; 1 disables retries
+ */
+export function retry(maxAttempts: number): Middleware {
+  return {
+    name: 'retry',
+    onError: async (error, context) => {
+      const isRetryable =
+        error instanceof RateLimitError ||
+        (IDEMPOTENT_METHODS.has(context.method.toUpperCase()) &&
+          (error instanceof TimeoutError || (error instanceof UpstreamError && error.retryable)));
+      if (!isRetryable || context.attempt >= maxAttempts) return false;
+
+      const retryAfter = error instanceof RateLimitError ? error.retryAfter : undefined;
+      const backoffMs = retryAfter
+        ? retryAfter * 1000
+        : Math.min(2 ** context.attempt * 500, 8_000) + Math.random() * 500;
+
+      await sleep(backoffMs, context.signal);
+      context.attempt++;
+      return true;
+    },
+  };
+}
+
+/**
+ * Wait for a delay, rejecting with the abort reason as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,523 @@
+/**
+ * Zod schemas for MCP tool outputs
+ *
+ * Mirrors the response interfaces of infomaniak-client.ts and kchat-client.ts.
+ * Each tool in the registry declares its output with these schemas and
+ * returns matching `structuredContent`.
+ */
+
+import { z } from 'zod';
+
+// Infomaniak entities
+export const AccountSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  legal_entity_type: z.string(),
+  created_at: z.string(),
+});
+
+export const ProfileSchema = z.object({
+  id: z.number(),
+  login: z.string(),
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  current_account_id: z.number(),
+});
+
+export const ProductSchema = z.object({
+  id: z.number(),
+  service_id: z.number(),
+  service_name: z.string(),
+  account_id: z.number(),
+  customer_name: z.string(),
+});
+
+export const DomainSchema = z.object({
+  id: z.number(),
+  customer_name: z.string(),
+  registrant: z.string(),
+  registry_expiration: z.string(),
+  auto_renew: z.boolean(),
+  status: z.string(),
+});
+
+export const DomainNameserverSchema = z.object({
+  host: z.string(),
+  ip: z.string().optional(),
+});
+
+export const DnsRecordSchema = z.object({
+  id: z.number(),
+  source: z.string(),
+  type: z.string(),
+  target: z.string(),
+  ttl: z.number(),
+  priority: z.number().optional(),
+});
+
+export const DnsIssueSchema = z.object({
+  severity: z.enum(['error', 'warning']),
+  rule: z.string(),
+  message: z.string(),
+  record: z.object({ id: z.number().optional(), source: z.string(), type: z.string(), target: z.string() }),
+});
+
+export const DnsLintSchema = z.object({
+  domain: z.string(),
+  records: z.number(),
+  errors: z.number(),
+  warnings: z.number(),
+  issues: z.array(DnsIssueSchema),
+});
+
+export const DnsZoneSchema = z.object({
+  domain: z.string(),
+  records: z.number(),
+  /** Zone file in BIND format */
+  zone: z.string(),
+});
+
+const ZoneRecordSchema = DnsRecordSchema.omit({ id: true }).extend({ ttl: z.number().optional() });
+
+export const DnsZoneImportSchema = z.object({
+  domain: z.string(),
+  /** Records of the zone file missing from the zone */
+  create: z.array(ZoneRecordSchema),
+  /** Records of the zone file already in the zone, left as they are */
+  existing: z.array(ZoneRecordSchema),
+  /** Entries of the zone file that cannot be imported */
+  unsupported: z.array(z.object({ line: z.number(), text: z.string(), reason: z.string() })),
+  /** Issues the import would introduce in the zone */
+  issues: z.array(DnsIssueSchema),
+  created: z.array(DnsRecordSchema),
+  failed: z.array(z.object({ record: ZoneRecordSchema, error: z.string() })),
+});
+
+export const DnsPlanSchema = z.object({
+  domain: z.string(),
+  /** Version of the zone the plan was computed from */
+  zone_version: z.string(),
+  create: z.array(ZoneRecordSchema),
+  update: z.array(z.object({ id: z.number(), before: DnsRecordSchema, after: ZoneRecordSchema })),
+  delete: z.array(DnsRecordSchema),
+  unchanged: z.number(),
+  /** Records outside the managed source/type pairs, left as they are */
+  unmanaged: z.array(DnsRecordSchema),
+  /** Issues the plan would introduce in the zone */
+  issues: z.array(DnsIssueSchema),
+});
+
+const DnsChangeActionSchema = z.enum(['create', 'update', 'delete']);
+
+export const DnsApplySchema = DnsPlanSchema.extend({
+  applied: z.array(z.object({ action: DnsChangeActionSchema, record: DnsRecordSchema })),
+  failed: z.array(
+    z.object({
+      action: DnsChangeActionSchema,
+      record: ZoneRecordSchema.extend({ id: z.number().optional() }),
+      error: z.string(),
+    }),
+  ),
+});
+
+export const DnsTemplateApplySchema = DnsApplySchema.extend({
+  template: z.string(),
+  /** Existing records contradicting the template, deleted when replacing them */
+  conflicts: z.array(z.object({ record: ZoneRecordSchema, existing: DnsRecordSchema, reason: z.string() })),
+  /** Changes reverting the applied ones after a failure */
+  rolled_back: z.array(z.object({ action: DnsChangeActionSchema, record: DnsRecordSchema })).optional(),
+});
+
+export const MailServiceSchema = z.object({
+  id: z.number(),
+  account_id: z.number(),
+  customer_name: z.string(),
+  nb_mailbox: z.number(),
+  max_mailbox: z.number(),
+});
+
+export const EmailAuthReportSchema = z.object({
+  domain: z.string(),
+  mail_service: z.object({ id: z.number(), customer_name: z.string() }).nullable(),
+  mx: z.array(z.string()),
+  spf: z.object({ record: z.string(), lookups: z.number(), all: z.string().nullable() }).nullable(),
+  dmarc: z.object({ record: z.string(), policy: z.string().nullable(), rua: z.array(z.string()) }).nullable(),
+  dkim: z.array(z.object({ selector: z.string(), record: z.string() })),
+  findings: z.array(
+    z.object({
+      severity: z.enum(['error', 'warning', 'info']),
+      check: z.enum(['mx', 'spf', 'dmarc', 'dkim', 'service']),
+      message: z.string(),
+    }),
+  ),
+});
+
+export const MailboxSchema = z.object({
+  id: z.number(),
+  mail_id: z.number(),
+  mailbox_name: z.string(),
+  email: z.string(),
+  aliases: z.array(z.string()),
+  size_used: z.number(),
+  max_size: z.number(),
+});
+
+export const EmailRedirectionSchema = z.object({
+  id: z.number(),
+  mail_id: z.number(),
+  from: z.string(),
+  to: z.array(z.string()),
+  keep_copy: z.boolean(),
+  created_at: z.string(),
+});
+
+export const AutoresponderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  subject: z.string().optional(),
+  body: z.string().optional(),
+  from_date: z.string().optional(),
+  to_date: z.string().optional(),
+});
+
+export const MailboxFolderSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  path: z.string(),
+  messages_count: z.number(),
+  unseen_count: z.number(),
+});
+
+export const WebHostingSchema = z.object({
+  id: z.number(),
+  account_id: z.number(),
+  customer_name: z.string(),
+  ip: z.string(),
+  service_name: z.string(),
+  quota_used: z.number(),
+  quota: z.number(),
+});
+
+export const SiteSchema = z.object({
+  id: z.number(),
+  fqdn: z.string(),
+  path: z.string(),
+  php_version: z.string(),
+  ssl_enabled: z.boolean(),
+});
+
+export const DatabaseSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  size: z.number(),
+  charset: z.string(),
+});
+
+export const CronJobSchema = z.object({
+  id: z.number(),
+  hosting_id: z.number(),
+  command: z.string(),
+  schedule: z.string(),
+  description: z.string().optional(),
+  status: z.string(),
+  last_run: z.string().optional(),
+  next_run: z.string().optional(),
+});
+
+export const FtpAccountSchema = z.object({
+  id: z.number(),
+  hosting_id: z.number(),
+  login: z.string(),
+  home_directory: z.string(),
+  is_active: z.boolean(),
+});
+
+export const KDriveSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  account_id: z.number(),
+  size_used: z.number(),
+  size: z.number(),
+});
+
+export const KDriveFileSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.enum(['dir', 'file']),
+  size: z.number(),
+  created_at: z.number(),
+  updated_at: z.number(),
+  parent_id: z.number(),
+  mime_type: z.string().optional(),
+  is_shared: z.boolean(),
+  path: z.string().optional(),
+});
+
+export const KDriveShareLinkSchema = z.object({
+  url: z.string(),
+  right: z.string(),
+  valid_until: z.string().optional(),
+});
+
+export const KDriveFileVersionSchema = z.object({
+  id: z.number(),
+  file_id: z.number(),
+  size: z.number(),
+  created_at: z.number(),
+  created_by: z.number(),
+});
+
+export const KDriveActivitySchema = z.object({
+  id: z.number(),
+  action: z.string(),
+  file_id: z.number(),
+  file_name: z.string(),
+  user_id: z.number(),
+  created_at: z.number(),
+});
+
+export const SwissBackupSlotSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  size_used: z.number(),
+  max_size: z.number(),
+  protocol: z.string(),
+});
+
+export const SwissBackupSchema = z.object({
+  id: z.number(),
+  account_id: z.number(),
+  customer_name: z.string(),
+  slots: z.array(SwissBackupSlotSchema),
+});
+
+export const VpsSchema = z.object({
+  id: z.number(),
+  account_id: z.number(),
+  hostname: z.string(),
+  state: z.string(),
+  cpu: z.number(),
+  memory: z.number(),
+  disk: z.number(),
+  ip: z.string(),
+  created_at: z.string(),
+  expires_at: z.string().optional(),
+});
+
+export const DedicatedServerSchema = z.object({
+  id: z.number(),
+  account_id: z.number(),
+  hostname: z.string(),
+  state: z.string(),
+  ip: z.string(),
+  location: z.string().optional(),
+  expires_at: z.string().optional(),
+});
+
+export const SslCertificateSchema = z.object({
+  id: z.number(),
+  account_id: z.number(),
+  common_name: z.string(),
+  alternative_names: z.array(z.string()).optional(),
+  type: z.string(),
+  status: z.string(),
+  not_before: z.string(),
+  not_after: z.string(),
+});
+
+export const InvoiceSchema = z.object({
+  id: z.number(),
+  account_id: z.number(),
+  reference: z.string(),
+  amount_ttc: z.number(),
+  amount_ht: z.number().optional(),
+  currency: z.string(),
+  status: z.string(),
+  due_date: z.string(),
+  created_at: z.string(),
+  pdf_url: z.string().optional(),
+});
+
+// kChat entities
+export const KChatTeamSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  display_name: z.string(),
+  type: z.string(),
+});
+
+export const KChatChannelSchema = z.object({
+  id: z.string(),
+  team_id: z.string(),
+  name: z.string(),
+  display_name: z.string(),
+  type: z.string(),
+  header: z.string(),
+  purpose: z.string(),
+});
+
+export const KChatPostSchema = z.object({
+  id: z.string(),
+  channel_id: z.string(),
+  user_id: z.string(),
+  message: z.string(),
+  create_at: z.number(),
+  update_at: z.number(),
+});
+
+export const KChatUserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  nickname: z.string(),
+});
+
+export const KChatPostListSchema = z.object({
+  order: z.array(z.string()),
+  posts: z.record(KChatPostSchema),
+});
+
+export const AuditEntrySchema = z.object({
+  timestamp: z.string(),
+  session_id: z.string().optional(),
+  tool: z.string(),
+  arguments: z.record(z.unknown()),
+  outcome: z.enum(['success', 'error', 'dry_run', 'cancelled']),
+  error: z.string().optional(),
+  error_code: z.string().optional(),
+  duration_ms: z.number(),
+  upstream_status: z.number().optional(),
+});
+
+export const JournalEntrySchema = z.object({
+  id: z.number(),
+  timestamp: z.string(),
+  session_id: z.string().optional(),
+  tool: z.string(),
+  arguments: z.record(z.unknown()),
+  before: z.unknown().optional(),
+  undo: z.object({
+    tool: z.string(),
+    arguments: z.record(z.unknown()),
+  }),
+  undone_at: z.string().optional(),
+});
+
+export const CacheStatsSchema = z.object({
+  enabled: z.boolean(),
+  hits: z.number().optional(),
+  misses: z.number().optional(),
+  revalidated: z.number().optional(),
+  invalidated: z.number().optional(),
+  entries: z.number().optional(),
+  /** Share of cacheable reads answered from the cache, between 0 and 1 */
+  hit_rate: z.number().optional(),
+});
+
+export const ApiDriftSchema = z.object({
+  service: z.enum(['infomaniak', 'kchat']),
+  endpoint: z.string(),
+  field: z.string(),
+  kind: z.enum(['missing', 'unexpected', 'invalid']),
+  detail: z.string().optional(),
+  count: z.number(),
+  first_seen: z.string(),
+  last_seen: z.string(),
+});
+
+export const DiagnosticsSchema = z.object({
+  validation: z.enum(['off', 'lenient', 'strict']),
+  drift: z.array(ApiDriftSchema),
+});
+
+/**
+ * Envelope returned by every Infomaniak API call
+ */
+export function apiResponse<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    result: z.string(),
+    data,
+    error: z.object({
+      code: z.string(),
+      description: z.string(),
+    }).optional(),
+  });
+}
+
+/**
+ * Wrapper for results that are not plain objects (kChat arrays, empty responses)
+ */
+export function wrapped<T extends z.ZodTypeAny>(data: T) {
+  return z.object({ data });
+}
+
+/** Output of calls whose data is empty or not typed (deletions, actions, generic API calls) */
+/**
+ * Page of a list endpoint, with the cursor of the next page when there is one
+ */
+export function paginatedResponse<T extends z.ZodTypeAny>(item: T) {
+  return apiResponse(z.array(item)).extend({
+    has_more: z.boolean(),
+    next_cursor: z.string().optional(),
+  });
+}
+
+export const UntypedOutputSchema = apiResponse(z.unknown());
+
+/** Request that would have been sent by a tool called in dry-run mode */
+export const DryRunPreviewSchema = z.object({
+  method: z.string(),
+  url: z.string(),
+  body: z.unknown().optional(),
+  effect: z.string(),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+});
+
+/** Outcome of waiting for the work started by a call to complete */
+export const TaskResultSchema = z.object({
+  status: z.enum(['completed', 'timeout']),
+  message: z.string(),
+  polls: z.number(),
+  elapsed_ms: z.number(),
+  data: z.unknown().optional(),
+});
+
+/**
+ * Shape a raw client result into MCP `structuredContent`, which must be an object
+ */
+export function toStructuredContent(result: unknown): Record<string, unknown> {
+  if (result !== null && typeof result === 'object' && !Array.isArray(result)) {
+    return result as Record<string, unknown>;
+  }
+  return { data: result ?? null };
+}
+
+const LABEL_FIELDS = [
+  'customer_name', 'name', 'hostname', 'email', 'fqdn', 'login', 'common_name', 'reference', 'username', 'display_name',
+];
+
+/**
+ * Short human-readable summary of a tool result, sent alongside the structured content
+ */
+export function summarizeResult(toolName: string, structured: Record<string, unknown>): string {
+  const preview = DryRunPreviewSchema.safeParse(structured.dry_run);
+  if (preview.success) {
+    return `${toolName} (dry run, nothing sent): ${preview.data.effect}`;
+  }
+
+  const data = 'data' in structured ? structured.data : structured;
+
+  if (Array.isArray(data)) {
+    return `${toolName}: ${data.length} item${data.length === 1 ? '' : 's'} returned`;
+  }
+  if (data !== null && typeof data === 'object') {
+    const record = data as Record<string, unknown>;
+    const label = LABEL_FIELDS.map((field) => record[field]).find((value) => typeof value === 'string');
+    const id = record.id !== undefined ? ` (id ${record.id})` : '';
+    return label ? `${toolName}: ${label}${id}` : `${toolName}: returned an object${id}`;
+  }
+  return `${toolName}: completed successfully`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for the tool policy
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ToolPolicy, loadToolPolicyConfig } from "./policy.js";
+import { toolDefinitions } from "./tools/index.js";
+
+function tool(name: string) {
+  const definition = toolDefinitions.find((t) => t.name === name);
+  if (!definition) throw new Error(`No tool ${name}`);
+  return definition;
+}
+
+describe("ToolPolicy", () => {
+  it("should allow every tool by default", () => {
+    const policy = new ToolPolicy();
+    expect(toolDefinitions.every((definition) => policy.allows(definition))).toBe(true);
+  });
+
+  it("should apply glob allow and deny lists", () => {
+    const policy = new ToolPolicy({ allow: ["infomaniak_*_dns_*"], deny: ["*_delete_*"] });
+
+    expect(policy.allows(tool("infomaniak_list_dns_records"))).toBe(true);
+    expect(policy.allows(tool("infomaniak_create_dns_record"))).toBe(true);
+    expect(policy.allows(tool("infomaniak_delete_dns_record"))).toBe(false);
+    expect(policy.allows(tool("infomaniak_list_domains"))).toBe(false);
+  });
+
+  it("should only expose read-only tools in read-only mode", () => {
+    const policy = new ToolPolicy({ readOnly: true });
+
+    expect(policy.allows(tool("infomaniak_list_domains"))).toBe(true);
+    expect(policy.allows(tool("infomaniak_create_dns_record"))).toBe(false);
+    expect(policy.allows(tool("infomaniak_empty_kdrive_trash"))).toBe(false);
+    expect(policy.allows(tool("infomaniak_api_call"))).toBe(true);
+  });
+
+  it("should restrict infomaniak_api_call to GET in read-only mode", () => {
+    const policy = new ToolPolicy({ readOnly: true });
+    const apiCall = tool("infomaniak_api_call");
+
+    expect(() => policy.assertAllowed(apiCall, { method: "GET", endpoint: "/1/account" })).not.toThrow();
+    expect(() => policy.assertAllowed(apiCall, { method: "DELETE", endpoint: "/1/account" })).toThrow(
+      "read-only mode",
+    );
+  });
+
+  it("should refuse denied tools", () => {
+    const policy = new ToolPolicy({ deny: ["infomaniak_kchat_*"] });
+
+    expect(() => policy.assertAllowed(tool("infomaniak_kchat_get_me"), {})).toThrow(
+      "Tool infomaniak_kchat_get_me is disabled by the server policy",
+    );
+  });
+});
+
+describe("loadToolPolicyConfig", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("should read comma-separated patterns from the environment", () => {
+    const config = loadToolPolicyConfig({
+      MCP_READ_ONLY: "true",
+      MCP_TOOLS_ALLOW: "infomaniak_kchat_*, infomaniak_list_*",
+      MCP_TOOLS_DENY: "*_delete_*",
+    });
+
+    expect(config).toEqual({
+      readOnly: true,
+      allow: ["infomaniak_kchat_*", "infomaniak_list_*"],
+      deny: ["*_delete_*"],
+    });
+  });
+
+  it("should read a config file and let the environment override it", () => {
+    dir = mkdtempSync(join(tmpdir(), "infomaniak-mcp-"));
+    const file = join(dir, "config.json");
+    writeFileSync(file, JSON.stringify({ readOnly: true, tools: { allow: ["infomaniak_*"], deny: ["*_delete_*"] } }));
+
+    const config = loadToolPolicyConfig({ MCP_CONFIG_FILE: file, MCP_READ_ONLY: "false" });
+
+    expect(config).toEqual({ readOnly: false, allow: ["infomaniak_*"], deny: ["*_delete_*"] });
+  });
+
+  it("should validate the confirmation fallback", () => {
+    expect(loadToolPolicyConfig({ MCP_CONFIRM_FALLBACK: "refuse" }).confirmFallback).toBe("refuse");
+    expect(() => loadToolPolicyConfig({ MCP_CONFIRM_FALLBACK: "ignore" })).toThrow("Invalid confirmation fallback");
+  });
+
+  it("should fail on an unreadable config file", () => {
+    expect(() => loadToolPolicyConfig({ MCP_CONFIG_FILE: "/nonexistent/config.json" })).toThrow(
+      "Cannot read MCP_CONFIG_FILE",
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tool Policy
+ *
+ * Restricts which tools a server instance exposes, along with the resources
+ * reading the same data: a read-only mode hiding every tool that can change
+ * something, plus glob-style allow and deny lists on tool names (e.g.
+ * `infomaniak_kchat_*` or `*_delete_*`), and how destructive tools are
+ * confirmed when the client cannot ask the user.
+ */
+
+import { readFileSync } from "fs";
+import { CONFIRMATION_FALLBACKS, ConfirmationFallback } from "./confirmation.js";
+import { ToolDefinition } from "./tools/index.js";
+
+export interface ToolPolicyConfig {
+  /** Only expose read-only tools, and restrict `infomaniak_api_call` to GET */
+  readOnly?: boolean;
+  /** Tool name patterns to expose; every tool when empty */
+  allow?: string[];
+  /** Tool name patterns to hide, applied after `allow` */
+  deny?: string[];
+  /** Confirmation of destructive tools for clients without elicitation (default: `argument`) */
+  confirmFallback?: ConfirmationFallback;
+}
+
+/**
+ * Shape of the JSON file referenced by MCP_CONFIG_FILE
+ */
+interface ConfigFile {
+  readOnly?: boolean;
+  confirmFallback?: ConfirmationFallback;
+  tools?: {
+    allow?: string[];
+    deny?: string[];
+  };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+export class ToolPolicy {
+  readonly readOnly: boolean;
+  readonly confirmFallback: ConfirmationFallback;
+  private allow: RegExp[];
+  private deny: RegExp[];
+
+  constructor(config: ToolPolicyConfig = {}) {
+    this.readOnly = config.readOnly ?? false;
+    this.confirmFallback = config.confirmFallback ?? "argument";
+    this.allow = (config.allow ?? []).map(globToRegExp);
+    this.deny = (config.deny ?? []).map(globToRegExp);
+  }
+
+  /**
+   * Whether the tool is exposed by this server instance
+   */
+  allows(definition: ToolDefinition): boolean {
+    const { name } = definition;
+    if (this.allow.length > 0 && !this.allow.some((pattern) => pattern.test(name))) return false;
+    if (this.deny.some((pattern) => pattern.test(name))) return false;
+    if (this.readOnly) return definition.annotations.readOnlyHint || definition.readOnlyWhen !== undefined;
+    return true;
+  }
+
+  /**
+   * Throw if the tool, called with these validated arguments, is not permitted
+   */
+  assertAllowed(definition: ToolDefinition, args: Record<string, unknown>): void {
+    if (!this.allows(definition)) {
+      throw new Error(`Tool ${definition.name} is disabled by the server policy`);
+    }
+    if (this.readOnly && !definition.annotations.readOnlyHint && !definition.readOnlyWhen?.(args)) {
+      throw new Error(`Tool ${definition.name} cannot be called with these arguments in read-only mode`);
+    }
+  }
+}
+
+/**
+ * Read the policy from MCP_CONFIG_FILE, overridden by MCP_READ_ONLY,
+ * MCP_TOOLS_ALLOW and MCP_TOOLS_DENY (comma-separated patterns) and MCP_CONFIRM_FALLBACK
+ */
+export function loadToolPolicyConfig(env: NodeJS.ProcessEnv = process.env): ToolPolicyConfig {
+  let file: ConfigFile = {};
+  if (env.MCP_CONFIG_FILE) {
+    try {
+      file = JSON.parse(readFileSync(env.MCP_CONFIG_FILE, "utf-8")) as ConfigFile;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read MCP_CONFIG_FILE ${env.MCP_CONFIG_FILE}: ${message}`);
+    }
+  }
+
+  const confirmFallback = (env.MCP_CONFIRM_FALLBACK ?? file.confirmFallback) as ConfirmationFallback | undefined;
+  if (confirmFallback !== undefined && !CONFIRMATION_FALLBACKS.includes(confirmFallback)) {
+    throw new Error(`Invalid confirmation fallback '${confirmFallback}'. Use ${CONFIRMATION_FALLBACKS.join(" or ")}.`);
+  }
+
+  return {
+    readOnly: env.MCP_READ_ONLY !== undefined ? env.MCP_READ_ONLY === "true" : file.readOnly,
+    allow: parseList(env.MCP_TOOLS_ALLOW) ?? file.tools?.allow,
+    deny: parseList(env.MCP_TOOLS_DENY) ?? file.tools?.deny,
+    confirmFallback,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for MCP prompts and argument completion
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { InfomaniakClient } from "./infomaniak-client.js";
+import { createMcpServer } from "./server.js";
+
+async function connect(client: InfomaniakClient): Promise<Client> {
+  const server = createMcpServer(client);
+  const mcpClient = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  return mcpClient;
+}
+
+describe("prompts", () => {
+  it("should list prompts with the tools they use", async () => {
+    const mcpClient = await connect({} as InfomaniakClient);
+
+    const { prompts } = await mcpClient.listPrompts();
+
+    const audit = prompts.find((p) => p.name === "audit_dns");
+    expect(audit?.description).toContain("infomaniak_list_dns_records");
+    expect(prompts.map((p) => p.name)).toEqual([
+      "audit_dns",
+      "onboard_employee",
+      "review_expirations",
+      "summarize_invoices",
+    ]);
+  });
+
+  it("should render a prompt with its arguments", async () => {
+    const mcpClient = await connect({} as InfomaniakClient);
+
+    const result = await mcpClient.getPrompt({ name: "audit_dns", arguments: { domain: "example.com" } });
+
+    const [message] = result.messages;
+    expect(message.role).toBe("user");
+    expect(message.content.type === "text" && message.content.text).toContain("example.com");
+  });
+
+  it("should reject missing required arguments", async () => {
+    const mcpClient = await connect({} as InfomaniakClient);
+
+    await expect(mcpClient.getPrompt({ name: "summarize_invoices", arguments: {} })).rejects.toThrow(
+      "Missing required arguments: account_id",
+    );
+  });
+
+  it("should complete domains from live account data", async () => {
+    const client = {
+      getDomains: vi.fn().mockResolvedValue({
+        result: "success",
+        data: [{ customer_name: "example.com" }, { customer_name: "example.ch" }, { customer_name: "other.org" }],
+      }),
+    } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client);
+
+    const result = await mcpClient.complete({
+      ref: { type: "ref/prompt", name: "audit_dns" },
+      argument: { name: "domain", value: "exa" },
+      context: { arguments: { account_id: "42" } },
+    });
+
+    expect(client.getDomains).toHaveBeenCalledWith(42, { page: 1, per_page: 100 });
+    expect(result.completion.values).toEqual(["example.com", "example.ch"]);
+  });
+
+  it("should complete from every page of a list", async () => {
+    const client = {
+      getAccounts: vi
+        .fn()
+        .mockResolvedValueOnce({ result: "success", data: [{ id: 1 }, { id: 2 }], page: 1, pages: 2 })
+        .mockResolvedValueOnce({ result: "success", data: [{ id: 3 }], page: 2, pages: 2 }),
+    } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client);
+
+    const result = await mcpClient.complete({
+      ref: { type: "ref/prompt", name: "summarize_invoices" },
+      argument: { name: "account_id", value: "" },
+    });
+
+    expect(client.getAccounts).toHaveBeenCalledTimes(2);
+    expect(result.completion.values).toEqual(["1", "2", "3"]);
+  });
+});
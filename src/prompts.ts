@@ -0,0 +1,248 @@
+/**
+ * MCP Prompts
+ *
+ * Parameterized admin workflows built on top of the server tools. Each prompt
+ * names the tools it expects the model to use, and its arguments get
+ * completion support from live account data.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ApiResponse, InfomaniakClient, PaginationOptions, paginate } from "./infomaniak-client.js";
+
+/** Maximum number of completion values returned, as mandated by the MCP spec */
+const MAX_COMPLETIONS = 100;
+
+/** Most items read from a list to complete an argument, so that large accounts still complete quickly */
+const MAX_CANDIDATES = 1000;
+
+interface PromptDefinition extends Prompt {
+  /** Tools the workflow is expected to call */
+  tools: string[];
+  render: (args: Record<string, string>) => string;
+}
+
+type Completer = (client: InfomaniakClient, context: Record<string, string>) => Promise<string[]>;
+
+export const promptDefinitions: PromptDefinition[] = [
+  {
+    name: "audit_dns",
+    title: "Audit DNS for a domain",
+    description: "Review the DNS zone and nameservers of a domain and report misconfigurations",
+    arguments: [
+      { name: "domain", description: "The domain name (e.g., example.com)", required: true },
+    ],
+    tools: ["infomaniak_get_domain_nameservers", "infomaniak_list_dns_records"],
+    render: ({ domain }) =>
+      [
+        `Audit the DNS configuration of ${domain}.`,
+        "",
+        `1. Fetch the nameservers of ${domain} and check they point to Infomaniak or an intended provider.`,
+        `2. List all DNS records of ${domain}.`,
+        "3. Report problems: CNAME at the apex or next to other records, MX targets that are CNAMEs,",
+        "   duplicate or overlapping SPF records, missing DMARC, very low or very high TTLs, and",
+        "   records pointing at private IP ranges.",
+        "4. Suggest concrete fixes, but do not change any record without asking first.",
+      ].join("\n"),
+  },
+  {
+    name: "onboard_employee",
+    title: "Onboard an employee",
+    description: "Create a mailbox and a kDrive folder for a new employee and greet them on kChat",
+    arguments: [
+      { name: "full_name", description: "Employee full name", required: true },
+      { name: "mail_id", description: "Mail service ID hosting the new mailbox", required: true },
+      { name: "mailbox_name", description: "Mailbox name (the part before @)", required: true },
+      { name: "drive_id", description: "kDrive ID where the personal folder is created", required: true },
+      { name: "kchat_username", description: "kChat username of the employee, if they already have one" },
+    ],
+    tools: [
+      "infomaniak_create_mailbox",
+      "infomaniak_create_kdrive_directory",
+      "infomaniak_kchat_search_users",
+      "infomaniak_kchat_get_me",
+      "infomaniak_kchat_create_direct",
+      "infomaniak_kchat_create_post",
+    ],
+    render: ({ full_name, mail_id, mailbox_name, drive_id, kchat_username }) =>
+      [
+        `Onboard ${full_name} as a new employee.`,
+        "",
+        `1. Create the mailbox "${mailbox_name}" on mail service ${mail_id} with a strong generated`,
+        "   password, and report the password once at the end.",
+        `2. Create a kDrive directory named "${full_name}" on drive ${drive_id}.`,
+        kchat_username
+          ? `3. Find the kChat user "${kchat_username}", open a direct message with them and post a short welcome`
+          : "3. Search kChat for the employee by name; if found, open a direct message with them and post a short welcome",
+        "   message mentioning their new mailbox and kDrive folder.",
+        "4. Summarize what was created, including IDs.",
+      ].join("\n"),
+  },
+  {
+    name: "review_expirations",
+    title: "Review expiring certificates and domains",
+    description: "List SSL certificates and domains of an account that expire soon",
+    arguments: [
+      { name: "account_id", description: "The account ID", required: true },
+      { name: "days", description: "Look-ahead window in days (default: 30)" },
+    ],
+    tools: ["infomaniak_list_certificates", "infomaniak_list_domains"],
+    render: ({ account_id, days }) =>
+      [
+        `Review what expires within the next ${days || "30"} days on account ${account_id}.`,
+        "",
+        `1. List the SSL certificates of account ${account_id} and select those whose not_after falls in the window.`,
+        `2. List the domains of account ${account_id} and select those whose registry_expiration falls in the window.`,
+        "3. Present a table sorted by expiry date with the resource, expiry date and whether auto-renew is enabled.",
+        "4. Flag domains without auto-renew and certificates that are not managed automatically.",
+      ].join("\n"),
+  },
+  {
+    name: "summarize_invoices",
+    title: "Summarize monthly invoices",
+    description: "Summarize the invoices of an account for a given month",
+    arguments: [
+      { name: "account_id", description: "The account ID", required: true },
+      { name: "month", description: "Month as YYYY-MM (default: current month)" },
+    ],
+    tools: ["infomaniak_list_invoices", "infomaniak_get_invoice"],
+    render: ({ account_id, month }) => {
+      const period = month || new Date().toISOString().slice(0, 7);
+      return [
+        `Summarize the invoices of account ${account_id} for ${period}.`,
+        "",
+        `1. List the invoices of account ${account_id} and keep those created in ${period}.`,
+        "2. Fetch details for invoices whose list entry lacks amounts.",
+        "3. Report the total per currency, the number of invoices, and list unpaid or overdue invoices with their due date.",
+      ].join("\n");
+    },
+  },
+];
+
+/**
+ * Values of the items of a list endpoint, read page by page up to MAX_CANDIDATES
+ */
+async function listValues<T>(
+  list: (pagination: PaginationOptions) => Promise<ApiResponse<T[]>>,
+  value: (item: T) => string | number,
+): Promise<string[]> {
+  const values: string[] = [];
+  for await (const item of paginate(list)) {
+    values.push(String(value(item)));
+    if (values.length >= MAX_CANDIDATES) break;
+  }
+  return values;
+}
+
+async function accountIds(client: InfomaniakClient, context: Record<string, string>): Promise<number[]> {
+  if (context.account_id) return [Number(context.account_id)];
+  return (await listValues((page) => client.getAccounts(page), (account) => account.id)).map(Number);
+}
+
+/**
+ * Completion sources for prompt arguments, keyed by argument name
+ */
+const completers: Record<string, Completer> = {
+  account_id: (client) => listValues((page) => client.getAccounts(page), (account) => account.id),
+  domain: async (client, context) => {
+    const values: string[] = [];
+    for (const accountId of await accountIds(client, context)) {
+      values.push(...(await listValues((page) => client.getDomains(accountId, page), (domain) => domain.customer_name)));
+    }
+    return values;
+  },
+  mail_id: async (client, context) => {
+    const values: string[] = [];
+    for (const accountId of await accountIds(client, context)) {
+      values.push(...(await listValues((page) => client.getMailServices(accountId, page), (service) => service.id)));
+    }
+    return values;
+  },
+  drive_id: async (client, context) => {
+    const values: string[] = [];
+    for (const accountId of await accountIds(client, context)) {
+      values.push(...(await listValues((page) => client.getKDrives(accountId, page), (drive) => drive.id)));
+    }
+    return values;
+  },
+  month: async () => {
+    const now = new Date();
+    return Array.from({ length: 12 }, (_, i) =>
+      new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)).toISOString().slice(0, 7),
+    );
+  },
+};
+
+function findPrompt(name: string): PromptDefinition {
+  const prompt = promptDefinitions.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  return prompt;
+}
+
+/**
+ * Register prompt and completion handlers on a server
+ */
+export function registerPromptHandlers(server: Server, client: InfomaniakClient): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts: Prompt[] = promptDefinitions.map(({ tools, render, ...prompt }) => ({
+      ...prompt,
+      description: `${prompt.description}. Uses: ${tools.join(", ")}`,
+    }));
+    return { prompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request): Promise<GetPromptResult> => {
+    const prompt = findPrompt(request.params.name);
+    const args = request.params.arguments ?? {};
+
+    const missing = (prompt.arguments ?? [])
+      .filter((arg) => arg.required && !args[arg.name])
+      .map((arg) => arg.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments: ${missing.join(", ")}`);
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `${prompt.render(args)}\n\nExpected tools: ${prompt.tools.join(", ")}`,
+          },
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument, context } = request.params;
+    const empty = { completion: { values: [], total: 0, hasMore: false } };
+
+    if (ref.type !== "ref/prompt") return empty;
+    const prompt = findPrompt(ref.name);
+    const completer = completers[argument.name];
+    if (!completer || !prompt.arguments?.some((arg) => arg.name === argument.name)) return empty;
+
+    const candidates = await completer(client, context?.arguments ?? {});
+    const values = [...new Set(candidates)].filter((value) => value.startsWith(argument.value));
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETIONS),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETIONS,
+      },
+    };
+  });
+}
@@ -0,0 +1,196 @@
+/**
+ * Tests for MCP resources
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { InfomaniakClient } from "./infomaniak-client.js";
+import { ChangeJournal } from "./journal.js";
+import { ToolPolicy } from "./policy.js";
+import { matchResource, resourceDefinitions } from "./resources.js";
+import { McpServerOptions, createMcpServer } from "./server.js";
+import { toolDefinitions } from "./tools/index.js";
+
+async function connect(client: InfomaniakClient, options?: McpServerOptions): Promise<Client> {
+  const server = createMcpServer(client, undefined, options);
+  const mcpClient = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  return mcpClient;
+}
+
+describe("matchResource", () => {
+  it("should match static URIs", () => {
+    expect(matchResource("infomaniak://accounts")?.vars).toEqual({});
+  });
+
+  it("should extract template variables", () => {
+    const match = matchResource("infomaniak://kdrive/12/file/34");
+    expect(match?.definition.uri).toBe("infomaniak://kdrive/{drive_id}/file/{file_id}");
+    expect(match?.vars).toEqual({ drive_id: "12", file_id: "34" });
+  });
+
+  it("should return undefined for unknown URIs", () => {
+    expect(matchResource("infomaniak://unknown")).toBeUndefined();
+  });
+});
+
+describe("resource definitions", () => {
+  it("should each follow the policy of an existing read-only tool", () => {
+    for (const { uri, tool } of resourceDefinitions) {
+      expect(toolDefinitions.find(({ name }) => name === tool)?.annotations.readOnlyHint, uri).toBe(true);
+    }
+  });
+});
+
+describe("changed resources", () => {
+  it("should be resource definitions selected by arguments of the tool", () => {
+    const uris = resourceDefinitions.map(({ uri }) => uri);
+
+    for (const { name, input, changes } of toolDefinitions) {
+      if (!Array.isArray(changes)) continue;
+      for (const uri of changes) {
+        expect(uris, name).toContain(uri);
+        const variables = UriTemplate.isTemplate(uri) ? new UriTemplate(uri).variableNames : [];
+        expect(Object.keys(input.shape), name).toEqual(expect.arrayContaining(variables));
+      }
+    }
+  });
+
+  it("should include the DNS zone for every tool changing DNS records", () => {
+    const changingDns = toolDefinitions
+      .filter(({ changes }) => Array.isArray(changes) && changes.includes("infomaniak://domain/{domain}/dns"))
+      .map(({ name }) => name);
+
+    expect(changingDns).toEqual(
+      expect.arrayContaining([
+        "infomaniak_import_dns_zone",
+        "infomaniak_dns_apply",
+        "infomaniak_apply_dns_template",
+        "infomaniak_setup_email_auth",
+      ]),
+    );
+  });
+});
+
+describe("resource handlers", () => {
+  it("should list static resources and templates", async () => {
+    const mcpClient = await connect({} as InfomaniakClient);
+
+    const { resources } = await mcpClient.listResources();
+    const { resourceTemplates } = await mcpClient.listResourceTemplates();
+
+    expect(resources.map((r) => r.uri)).toContain("infomaniak://accounts");
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toContain("infomaniak://domain/{domain}/dns");
+  });
+
+  it("should read a resource through the client getter", async () => {
+    const getDnsRecords = vi.fn().mockResolvedValue({
+      result: "success",
+      data: [{ id: 1, source: "@", type: "A", target: "1.2.3.4", ttl: 3600 }],
+    });
+    const mcpClient = await connect({ getDnsRecords } as unknown as InfomaniakClient);
+
+    const result = await mcpClient.readResource({ uri: "infomaniak://domain/example.com/dns" });
+
+    expect(getDnsRecords).toHaveBeenCalledWith("example.com", { page: 1, per_page: 100 });
+    const [content] = result.contents as { text: string }[];
+    expect(JSON.parse(content.text)).toHaveLength(1);
+  });
+
+  it("should read every page of a list", async () => {
+    const domain = (id: number) => ({ id, customer_name: `example${id}.com` });
+    const getDomains = vi
+      .fn()
+      .mockResolvedValueOnce({ result: "success", data: [domain(1), domain(2)], page: 1, pages: 2 })
+      .mockResolvedValueOnce({ result: "success", data: [domain(3)], page: 2, pages: 2 });
+    const mcpClient = await connect({ getDomains } as unknown as InfomaniakClient);
+
+    const result = await mcpClient.readResource({ uri: "infomaniak://account/42/domains" });
+
+    expect(getDomains).toHaveBeenLastCalledWith(42, { page: 2, per_page: 100 });
+    const [content] = result.contents as { text: string }[];
+    expect(JSON.parse(content.text).map(({ id }: { id: number }) => id)).toEqual([1, 2, 3]);
+  });
+
+  it("should hide the resources whose tool the policy hides", async () => {
+    const getDnsRecords = vi.fn();
+    const policy = new ToolPolicy({ deny: ["infomaniak_list_dns_records", "infomaniak_get_profile"] });
+    const mcpClient = await connect({ getDnsRecords } as unknown as InfomaniakClient, { policy });
+
+    const { resources } = await mcpClient.listResources();
+    const { resourceTemplates } = await mcpClient.listResourceTemplates();
+
+    expect(resources.map((r) => r.uri)).not.toContain("infomaniak://profile");
+    expect(resources.map((r) => r.uri)).toContain("infomaniak://accounts");
+    expect(resourceTemplates.map((t) => t.uriTemplate)).not.toContain("infomaniak://domain/{domain}/dns");
+    await expect(mcpClient.readResource({ uri: "infomaniak://domain/example.com/dns" })).rejects.toThrow(
+      "Resource infomaniak://domain/example.com/dns is disabled by the server policy",
+    );
+    await expect(mcpClient.subscribeResource({ uri: "infomaniak://domain/example.com/dns" })).rejects.toThrow(
+      "disabled by the server policy",
+    );
+    expect(getDnsRecords).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid numeric identifiers", async () => {
+    const mcpClient = await connect({} as InfomaniakClient);
+
+    await expect(mcpClient.readResource({ uri: "infomaniak://mail/abc/mailboxes" })).rejects.toThrow(
+      "Invalid mail_id",
+    );
+  });
+
+  it("should notify subscribers when a tool changes the resource", async () => {
+    const client = {
+      deleteDnsRecord: vi.fn().mockResolvedValue({ result: "success", data: null }),
+      // Tool calls run on a client scoped to the request
+      withOptions() {
+        return this;
+      },
+    } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client);
+    const updated = vi.fn();
+    mcpClient.setNotificationHandler(ResourceUpdatedNotificationSchema, updated);
+
+    await mcpClient.subscribeResource({ uri: "infomaniak://domain/example.com/dns" });
+    await mcpClient.subscribeResource({ uri: "infomaniak://domain/other.com/dns" });
+    await mcpClient.callTool({
+      name: "infomaniak_delete_dns_record",
+      arguments: { domain: "example.com", record_id: 5, confirm: true },
+    });
+
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledTimes(1));
+    expect(updated.mock.calls[0][0].params.uri).toBe("infomaniak://domain/example.com/dns");
+  });
+
+  it("should notify subscribers of the resources an undo changes", async () => {
+    const record = { id: 12, source: "www", type: "A", target: "1.2.3.4", ttl: 3600 };
+    const client = {
+      findDnsRecord: vi.fn().mockResolvedValue(record),
+      getDnsRecords: vi.fn().mockResolvedValue({ result: "success", data: [record] }),
+      deleteDnsRecord: vi.fn().mockResolvedValue({ result: "success", data: null }),
+      createDnsRecord: vi.fn().mockResolvedValue({ result: "success", data: { ...record, id: 13 } }),
+      withOptions() {
+        return this;
+      },
+    } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client, { journal: new ChangeJournal() });
+    const updated = vi.fn();
+    mcpClient.setNotificationHandler(ResourceUpdatedNotificationSchema, updated);
+
+    await mcpClient.subscribeResource({ uri: "infomaniak://domain/example.com/dns" });
+    await mcpClient.callTool({
+      name: "infomaniak_delete_dns_record",
+      arguments: { domain: "example.com", record_id: 12, confirm: true },
+    });
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledTimes(1));
+    await mcpClient.callTool({ name: "infomaniak_undo", arguments: { confirm: true } });
+
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledTimes(2));
+    expect(updated.mock.calls[1][0].params.uri).toBe("infomaniak://domain/example.com/dns");
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * MCP Resources
+ *
+ * Exposes Infomaniak inventory (accounts, domains, DNS zones, mailboxes,
+ * kDrive files...) as MCP resources so clients can attach it as context
+ * instead of spending tool calls on discovery. Resources are read through
+ * the existing InfomaniakClient getters; lists are read in full, page by page.
+ * The tool policy applies to resources too: a resource is only listed and
+ * readable when the policy exposes the tool reading the same data.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate, Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { ApiResponse, InfomaniakClient, PaginationOptions, paginate } from "./infomaniak-client.js";
+import { ToolPolicy } from "./policy.js";
+import { toolDefinitions } from "./tools/index.js";
+
+interface ResourceDefinition {
+  /** Fixed URI or RFC 6570 URI template */
+  uri: string;
+  name: string;
+  description: string;
+  /** Tool reading the same data, whose policy the resource follows */
+  tool: string;
+  read: (client: InfomaniakClient, vars: Record<string, string>) => Promise<ApiResponse>;
+}
+
+/**
+ * Parse a numeric URI template variable, rejecting anything that is not a positive integer
+ */
+function id(vars: Record<string, string>, name: string): number {
+  const value = Number(vars[name]);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} in resource URI: ${vars[name]}`);
+  }
+  return value;
+}
+
+/**
+ * Every item of a list endpoint, fetched page by page
+ */
+async function all<T>(list: (pagination: PaginationOptions) => Promise<ApiResponse<T[]>>): Promise<ApiResponse<T[]>> {
+  const data: T[] = [];
+  for await (const item of paginate(list)) data.push(item);
+  return { result: "success", data, total: data.length };
+}
+
+/**
+ * Resource definitions, static URIs first, then templates
+ */
+export const resourceDefinitions: ResourceDefinition[] = [
+  {
+    uri: "infomaniak://profile",
+    name: "Profile",
+    description: "Current user profile",
+    tool: "infomaniak_get_profile",
+    read: (client) => client.getProfile(),
+  },
+  {
+    uri: "infomaniak://accounts",
+    name: "Accounts",
+    description: "All accounts accessible by the current user",
+    tool: "infomaniak_list_accounts",
+    read: (client) => all((page) => client.getAccounts(page)),
+  },
+  {
+    uri: "infomaniak://vps",
+    name: "VPS instances",
+    description: "All VPS instances",
+    tool: "infomaniak_list_vps",
+    read: (client) => all((page) => client.getVpsList(page)),
+  },
+  {
+    uri: "infomaniak://dedicated",
+    name: "Dedicated servers",
+    description: "All dedicated servers",
+    tool: "infomaniak_list_dedicated_servers",
+    read: (client) => all((page) => client.getDedicatedServers(page)),
+  },
+  {
+    uri: "infomaniak://account/{account_id}/products",
+    name: "Account products",
+    description: "Products of an account",
+    tool: "infomaniak_list_products",
+    read: (client, vars) => all((page) => client.getAccountProducts(id(vars, "account_id"), page)),
+  },
+  {
+    uri: "infomaniak://account/{account_id}/domains",
+    name: "Account domains",
+    description: "Domains of an account",
+    tool: "infomaniak_list_domains",
+    read: (client, vars) => all((page) => client.getDomains(id(vars, "account_id"), page)),
+  },
+  {
+    uri: "infomaniak://account/{account_id}/mail",
+    name: "Account mail services",
+    description: "Mail services of an account",
+    tool: "infomaniak_list_mail_services",
+    read: (client, vars) => all((page) => client.getMailServices(id(vars, "account_id"), page)),
+  },
+  {
+    uri: "infomaniak://account/{account_id}/hostings",
+    name: "Account web hostings",
+    description: "Web hostings of an account",
+    tool: "infomaniak_list_web_hostings",
+    read: (client, vars) => all((page) => client.getWebHostings(id(vars, "account_id"), page)),
+  },
+  {
+    uri: "infomaniak://account/{account_id}/kdrives",
+    name: "Account kDrives",
+    description: "kDrives of an account",
+    tool: "infomaniak_list_kdrives",
+    read: (client, vars) => all((page) => client.getKDrives(id(vars, "account_id"), page)),
+  },
+  {
+    uri: "infomaniak://account/{account_id}/certificates",
+    name: "Account SSL certificates",
+    description: "SSL certificates of an account",
+    tool: "infomaniak_list_certificates",
+    read: (client, vars) => all((page) => client.getCertificates(id(vars, "account_id"), page)),
+  },
+  {
+    uri: "infomaniak://domain/{domain}/dns",
+    name: "DNS zone",
+    description: "DNS records of a domain",
+    tool: "infomaniak_list_dns_records",
+    read: (client, vars) => all((page) => client.getDnsRecords(vars.domain, page)),
+  },
+  {
+    uri: "infomaniak://domain/{domain}/nameservers",
+    name: "Domain nameservers",
+    description: "Nameservers of a domain",
+    tool: "infomaniak_get_domain_nameservers",
+    read: (client, vars) => all((page) => client.getDomainNameservers(vars.domain, page)),
+  },
+  {
+    uri: "infomaniak://mail/{mail_id}/mailboxes",
+    name: "Mailboxes",
+    description: "Mailboxes of a mail service",
+    tool: "infomaniak_list_mailboxes",
+    read: (client, vars) => all((page) => client.getMailboxes(id(vars, "mail_id"), page)),
+  },
+  {
+    uri: "infomaniak://mail/{mail_id}/redirections",
+    name: "Email redirections",
+    description: "Email redirections of a mail service",
+    tool: "infomaniak_list_email_redirections",
+    read: (client, vars) => all((page) => client.getEmailRedirections(id(vars, "mail_id"), page)),
+  },
+  {
+    uri: "infomaniak://hosting/{hosting_id}/sites",
+    name: "Sites",
+    description: "Sites of a web hosting",
+    tool: "infomaniak_list_sites",
+    read: (client, vars) => all((page) => client.getSites(id(vars, "hosting_id"), page)),
+  },
+  {
+    uri: "infomaniak://hosting/{hosting_id}/databases",
+    name: "Databases",
+    description: "MySQL databases of a web hosting",
+    tool: "infomaniak_list_databases",
+    read: (client, vars) => all((page) => client.getDatabases(id(vars, "hosting_id"), page)),
+  },
+  {
+    uri: "infomaniak://kdrive/{drive_id}/files",
+    name: "kDrive root files",
+    description: "Files at the root of a kDrive",
+    tool: "infomaniak_list_kdrive_files",
+    read: (client, vars) => all((page) => client.listKDriveFiles(id(vars, "drive_id"), undefined, page)),
+  },
+  {
+    uri: "infomaniak://kdrive/{drive_id}/file/{file_id}",
+    name: "kDrive file",
+    description: "Metadata of a kDrive file or directory",
+    tool: "infomaniak_get_kdrive_file",
+    read: (client, vars) => client.getKDriveFile(id(vars, "drive_id"), id(vars, "file_id")),
+  },
+  {
+    uri: "infomaniak://vps/{vps_id}",
+    name: "VPS",
+    description: "Details of a VPS instance",
+    tool: "infomaniak_get_vps",
+    read: (client, vars) => client.getVps(id(vars, "vps_id")),
+  },
+];
+
+const templates = new Map(
+  resourceDefinitions
+    .filter((def) => UriTemplate.isTemplate(def.uri))
+    .map((def) => [def, new UriTemplate(def.uri)] as const),
+);
+
+function flatten(vars: Variables): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(vars).map(([key, value]) => [key, Array.isArray(value) ? value.join(",") : value]),
+  );
+}
+
+/**
+ * Find the definition serving a concrete resource URI
+ */
+export function matchResource(
+  uri: string,
+): { definition: ResourceDefinition; vars: Record<string, string> } | undefined {
+  for (const definition of resourceDefinitions) {
+    const template = templates.get(definition);
+    if (!template) {
+      if (definition.uri === uri) return { definition, vars: {} };
+      continue;
+    }
+    const vars = template.match(uri);
+    if (vars) return { definition, vars: flatten(vars) };
+  }
+  return undefined;
+}
+
+/**
+ * Register resource handlers on a server
+ *
+ * @param policy - Tool policy; resources whose tool it hides are neither listed nor readable
+ * @returns A callback to invoke after each successful tool call with the URIs of the
+ * resource definitions it changed, so that subscribed clients are notified
+ */
+export function registerResourceHandlers(
+  server: Server,
+  client: InfomaniakClient,
+  policy: ToolPolicy = new ToolPolicy(),
+): (changes: string[], args: Record<string, unknown> | undefined) => Promise<void> {
+  const subscriptions = new Set<string>();
+  const visibleResources = resourceDefinitions.filter((def) =>
+    toolDefinitions.some((tool) => tool.name === def.tool && policy.allows(tool)),
+  );
+
+  /**
+   * Definition serving a resource URI, if the policy exposes it
+   */
+  const visibleMatch = (uri: string) => {
+    const match = matchResource(uri);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    if (!visibleResources.includes(match.definition)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} is disabled by the server policy`);
+    }
+    return match;
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources: Resource[] = visibleResources
+      .filter((def) => !templates.has(def))
+      .map((def) => ({
+        uri: def.uri,
+        name: def.name,
+        description: def.description,
+        mimeType: "application/json",
+      }));
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    const resourceTemplates: ResourceTemplate[] = visibleResources
+      .filter((def) => templates.has(def))
+      .map((def) => ({
+        uriTemplate: def.uri,
+        name: def.name,
+        description: def.description,
+        mimeType: "application/json",
+      }));
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const match = visibleMatch(uri);
+
+    const response = await match.definition.read(client, match.vars);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(response.data, null, 2),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    visibleMatch(request.params.uri);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return async (changes, args) => {
+    for (const uri of subscriptions) {
+      const match = matchResource(uri);
+      if (!match || !changes.includes(match.definition.uri)) continue;
+
+      // Only notify when the tool targeted the same resource (e.g. same domain)
+      const sameTarget = Object.entries(match.vars).every(
+        ([key, value]) => args?.[key] === undefined || String(args[key]) === value,
+      );
+      if (sameTarget) {
+        await server.sendResourceUpdated({ uri });
+      }
+    }
+  };
+}
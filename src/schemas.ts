@@ -3,14 +3,15 @@
  */
 
 import { z } from 'zod';
+import { ValidationError } from './errors.js';
 
 // Common schemas
 export const AccountIdSchema = z.object({
-  account_id: z.number({ required_error: 'account_id is required' }).positive('account_id must be positive'),
+  account_id: z.number({ required_error: 'account_id is required' }).positive('account_id must be positive').describe('The account ID'),
 });
 
 export const DomainNameSchema = z.object({
-  domain: z.string({ required_error: 'domain is required' }).min(1, 'domain cannot be empty'),
+  domain: z.string({ required_error: 'domain is required' }).min(1, 'domain cannot be empty').describe('The domain name (e.g., example.com)'),
 });
 
 // DNS Record schemas
@@ -19,353 +20,506 @@ export const DnsRecordTypeSchema = z.enum(['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'N
 export const ListDnsRecordsSchema = DomainNameSchema;
 
 export const CreateDnsRecordSchema = z.object({
-  domain: z.string().min(1, 'domain is required'),
-  source: z.string({ required_error: 'source is required' }),
-  type: DnsRecordTypeSchema,
-  target: z.string({ required_error: 'target is required' }).min(1, 'target cannot be empty'),
-  ttl: z.number().min(60).max(86400).optional(),
-  priority: z.number().min(0).max(65535).optional(),
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  source: z.string({ required_error: 'source is required' }).describe('The subdomain or @ for root (e.g., www, mail, @)'),
+  type: DnsRecordTypeSchema.describe('DNS record type (A, AAAA, CNAME, MX, TXT, NS, SRV, CAA)'),
+  target: z.string({ required_error: 'target is required' }).min(1, 'target cannot be empty').describe('The target value (IP address, hostname, or text)'),
+  ttl: z.number().min(60).max(86400).optional().describe('Time to live in seconds, 60 to 86400 (default: 3600)'),
+  priority: z.number().min(0).max(65535).optional().describe('Priority for MX/SRV records'),
 });
 
 export const UpdateDnsRecordSchema = z.object({
-  domain: z.string().min(1, 'domain is required'),
-  record_id: z.number({ required_error: 'record_id is required' }).positive(),
-  source: z.string().optional(),
-  type: DnsRecordTypeSchema.optional(),
-  target: z.string().min(1).optional(),
-  ttl: z.number().min(60).max(86400).optional(),
-  priority: z.number().min(0).max(65535).optional(),
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  record_id: z.number({ required_error: 'record_id is required' }).positive().describe('The DNS record ID'),
+  source: z.string().optional().describe('The subdomain or @ for root (e.g., www, mail, @)'),
+  type: DnsRecordTypeSchema.optional().describe('DNS record type'),
+  target: z.string().min(1).optional().describe('The target value (IP address, hostname, or text)'),
+  ttl: z.number().min(60).max(86400).optional().describe('Time to live in seconds, 60 to 86400 (default: 3600)'),
+  priority: z.number().min(0).max(65535).optional().describe('Priority for MX/SRV records'),
 });
 
 export const DeleteDnsRecordSchema = z.object({
-  domain: z.string().min(1, 'domain is required'),
-  record_id: z.number({ required_error: 'record_id is required' }).positive(),
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  record_id: z.number({ required_error: 'record_id is required' }).positive().describe('The DNS record ID'),
+});
+
+export const ForceDnsSchema = z.object({
+  force: z
+    .boolean()
+    .optional()
+    .describe('Skip DNS validation (target syntax, CNAME conflicts, duplicate SPF...) for records it wrongly rejects (default: false)'),
+});
+
+export const LintDnsZoneSchema = DomainNameSchema;
+
+export const ExportDnsZoneSchema = DomainNameSchema;
+
+export const ImportDnsZoneSchema = z.object({
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  zone: z
+    .string({ required_error: 'zone is required' })
+    .min(1, 'zone cannot be empty')
+    .describe('Zone file in BIND format (RFC 1035); relative names are relative to the domain unless $ORIGIN changes it'),
+});
+
+const DesiredRecordsSchema = z
+  .union([
+    z.string().min(1, 'records cannot be empty'),
+    z.array(CreateDnsRecordSchema.omit({ domain: true })),
+  ])
+  .describe('Desired DNS records: a JSON or YAML document listing records with source, type, target, ttl and priority (or with a `records` list), or the list itself');
+
+export const PlanDnsChangesSchema = z.object({
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  records: DesiredRecordsSchema,
+  prune: z
+    .boolean()
+    .optional()
+    .describe('Also delete the records whose source and type do not appear in the desired records (default: false)'),
+});
+
+export const ApplyDnsPlanSchema = PlanDnsChangesSchema.extend({
+  zone_version: z
+    .string({ required_error: 'zone_version is required' })
+    .min(1)
+    .describe(
+      'zone_version returned by infomaniak_dns_plan for the same records and prune flag; the plan is only applied if ' +
+        'the zone has not changed since',
+    ),
+});
+
+/**
+ * DNS template, as read from the JSON files of custom templates
+ */
+export const DnsTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'name must be lowercase letters, digits, - and _'),
+  description: z.string().min(1, 'description is required'),
+  variables: z
+    .array(
+      z.object({
+        name: z.string().regex(/^[a-z_][a-z0-9_]*$/i, 'variable names must be letters, digits and _'),
+        description: z.string().min(1, 'description is required'),
+        default: z.string().optional(),
+        pattern: z
+          .string()
+          .refine((pattern) => {
+            try {
+              new RegExp(pattern);
+              return true;
+            } catch {
+              return false;
+            }
+          }, 'pattern must be a valid regular expression')
+          .optional(),
+      }),
+    )
+    .optional(),
+  records: z.array(CreateDnsRecordSchema.omit({ domain: true })).min(1, 'a template needs records'),
+});
+
+export const ApplyDnsTemplateSchema = z.object({
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  template: z.string().min(1, 'template is required').describe('Template name, as listed by infomaniak_list_dns_templates'),
+  variables: z
+    .record(z.string())
+    .optional()
+    .describe('Values of the template variables, e.g. { "verification": "MS=ms12345678" }; variables with a default can be omitted'),
+  replace: z
+    .boolean()
+    .optional()
+    .describe('Delete the existing records the template conflicts with, e.g. the MX records of another mail provider (default: false)'),
+});
+
+export const AuditEmailAuthSchema = z.object({
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  mail_id: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Mail service of the domain; looked up among the mail services of the current account when omitted'),
+  resolve_includes: z
+    .boolean()
+    .optional()
+    .describe('Follow SPF include: and redirect= through public DNS to count nested lookups (default: true)'),
+});
+
+export const SetupEmailAuthSchema = z.object({
+  domain: z.string().min(1, 'domain is required').describe('The domain name (e.g., example.com)'),
+  dmarc_policy: z
+    .enum(['none', 'quarantine', 'reject'])
+    .optional()
+    .describe('DMARC policy for mail failing authentication; the current one is kept when omitted, or else quarantine'),
+  spf_all: z
+    .enum(['-all', '~all'])
+    .optional()
+    .describe(
+      'How SPF treats other servers: -all refuses, ~all marks their mail; the current qualifier is kept when omitted, ' +
+        'unless it lets them pass (+all, ?all), which becomes ~all',
+    ),
+  rua: z
+    .string()
+    .email()
+    .optional()
+    .describe('Mailbox receiving DMARC aggregate reports (e.g., dmarc@example.com); the current one is kept when omitted'),
 });
 
 // Domain schemas
 export const GetDomainSchema = z.object({
-  account_id: z.number().positive(),
-  domain: z.string().min(1),
+  account_id: z.number().positive().describe('The account ID'),
+  domain: z.string().min(1).describe('The domain name (e.g., example.com)'),
 });
 
 // Mail schemas
 export const MailIdSchema = z.object({
-  mail_id: z.number({ required_error: 'mail_id is required' }).positive(),
+  mail_id: z.number({ required_error: 'mail_id is required' }).positive().describe('The mail service ID'),
 });
 
 export const MailboxIdSchema = z.object({
-  mail_id: z.number().positive(),
-  mailbox_id: z.number({ required_error: 'mailbox_id is required' }).positive(),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  mailbox_id: z.number({ required_error: 'mailbox_id is required' }).positive().describe('The mailbox ID'),
 });
 
 export const CreateMailboxSchema = z.object({
-  mail_id: z.number().positive(),
-  mailbox_name: z.string({ required_error: 'mailbox_name is required' }).min(1, 'mailbox_name cannot be empty'),
-  password: z.string({ required_error: 'password is required' }).min(8, 'password must be at least 8 characters'),
-  max_size: z.number().positive().optional(),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  mailbox_name: z.string({ required_error: 'mailbox_name is required' }).min(1, 'mailbox_name cannot be empty').describe('The mailbox name (local part of email address)'),
+  password: z.string({ required_error: 'password is required' }).min(8, 'password must be at least 8 characters').describe('The mailbox password (min. 8 characters)'),
+  max_size: z.number().positive().optional().describe('Maximum mailbox size in MB'),
 });
 
 export const UpdateMailboxSchema = z.object({
-  mail_id: z.number().positive(),
-  mailbox_id: z.number().positive(),
-  password: z.string().min(8).optional(),
-  max_size: z.number().positive().optional(),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  mailbox_id: z.number().positive().describe('The mailbox ID'),
+  password: z.string().min(8).optional().describe('New password (min. 8 characters)'),
+  max_size: z.number().positive().optional().describe('New maximum size in MB'),
 });
 
 export const DeleteMailboxSchema = MailboxIdSchema;
 
 export const MailboxAliasSchema = z.object({
-  mail_id: z.number().positive(),
-  mailbox_id: z.number().positive(),
-  alias: z.string({ required_error: 'alias is required' }).email('alias must be a valid email'),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  mailbox_id: z.number().positive().describe('The mailbox ID'),
+  alias: z.string({ required_error: 'alias is required' }).email('alias must be a valid email').describe('The alias email address'),
 });
 
 // Web Hosting schemas
 export const HostingIdSchema = z.object({
-  hosting_id: z.number({ required_error: 'hosting_id is required' }).positive(),
+  hosting_id: z.number({ required_error: 'hosting_id is required' }).positive().describe('The web hosting ID'),
 });
 
 export const SiteIdSchema = z.object({
-  hosting_id: z.number().positive(),
-  site_id: z.number({ required_error: 'site_id is required' }).positive(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  site_id: z.number({ required_error: 'site_id is required' }).positive().describe('The site ID'),
 });
 
 export const CreateSiteSchema = z.object({
-  hosting_id: z.number().positive(),
-  fqdn: z.string({ required_error: 'fqdn is required' }).min(1, 'fqdn cannot be empty'),
-  path: z.string().optional(),
-  php_version: z.string().optional(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  fqdn: z.string({ required_error: 'fqdn is required' }).min(1, 'fqdn cannot be empty').describe('The fully qualified domain name for the site'),
+  path: z.string().optional().describe('The document root path'),
+  php_version: z.string().optional().describe('PHP version to use'),
 });
 
 export const UpdateSiteSchema = z.object({
-  hosting_id: z.number().positive(),
-  site_id: z.number().positive(),
-  path: z.string().optional(),
-  php_version: z.string().optional(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  site_id: z.number().positive().describe('The site ID'),
+  path: z.string().optional().describe('New document root path'),
+  php_version: z.string().optional().describe('New PHP version'),
 });
 
 export const DeleteSiteSchema = SiteIdSchema;
 
 // Database schemas
 export const DatabaseIdSchema = z.object({
-  hosting_id: z.number().positive(),
-  database_id: z.number({ required_error: 'database_id is required' }).positive(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  database_id: z.number({ required_error: 'database_id is required' }).positive().describe('The database ID'),
 });
 
 export const CreateDatabaseSchema = z.object({
-  hosting_id: z.number().positive(),
-  name: z.string({ required_error: 'name is required' }).min(1, 'database name cannot be empty'),
-  charset: z.string().optional(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  name: z.string({ required_error: 'name is required' }).min(1, 'database name cannot be empty').describe('Database name'),
+  charset: z.string().optional().describe('Character set (default: utf8mb4)'),
 });
 
 export const DeleteDatabaseSchema = DatabaseIdSchema;
 
 // kDrive schemas
 export const DriveIdSchema = z.object({
-  drive_id: z.number({ required_error: 'drive_id is required' }).positive(),
+  drive_id: z.number({ required_error: 'drive_id is required' }).positive().describe('The kDrive ID'),
 });
 
 // Swiss Backup schemas
 export const BackupIdSchema = z.object({
-  backup_id: z.number({ required_error: 'backup_id is required' }).positive(),
+  backup_id: z.number({ required_error: 'backup_id is required' }).positive().describe('The Swiss Backup product ID'),
 });
 
 // VPS schemas
 export const VpsIdSchema = z.object({
-  vps_id: z.number({ required_error: 'vps_id is required' }).positive(),
+  vps_id: z.number({ required_error: 'vps_id is required' }).positive().describe('The VPS ID'),
 });
 
 // Dedicated Server schemas
 export const ServerIdSchema = z.object({
-  server_id: z.number({ required_error: 'server_id is required' }).positive(),
+  server_id: z.number({ required_error: 'server_id is required' }).positive().describe('The dedicated server ID'),
 });
 
 // Certificate schemas
 export const CertificateIdSchema = z.object({
-  certificate_id: z.number({ required_error: 'certificate_id is required' }).positive(),
+  certificate_id: z.number({ required_error: 'certificate_id is required' }).positive().describe('The SSL certificate ID'),
 });
 
 // Invoice schemas
 export const InvoiceIdSchema = z.object({
-  account_id: z.number().positive(),
-  invoice_id: z.number({ required_error: 'invoice_id is required' }).positive(),
+  account_id: z.number().positive().describe('The account ID'),
+  invoice_id: z.number({ required_error: 'invoice_id is required' }).positive().describe('The invoice ID'),
 });
 
 // Generic API call schema
 export const ApiCallSchema = z.object({
-  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
-  endpoint: z.string({ required_error: 'endpoint is required' }).startsWith('/', 'endpoint must start with /'),
-  body: z.record(z.unknown()).optional(),
-  query_params: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).describe('HTTP method'),
+  endpoint: z.string({ required_error: 'endpoint is required' }).startsWith('/', 'endpoint must start with /').describe('API endpoint path (e.g., /1/account or /2/drive/123)'),
+  body: z.record(z.unknown()).optional().describe('Request body for POST/PUT/PATCH requests'),
+  query_params: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Query parameters as key-value pairs'),
 });
 
 // Domain extras
 export const GetDomainNameserversSchema = DomainNameSchema;
 
 export const UpdateDomainNameserversSchema = z.object({
-  domain: z.string().min(1),
+  domain: z.string().min(1).describe('The domain name (e.g., example.com)'),
   nameservers: z.array(z.object({
-    host: z.string().min(1),
-    ip: z.string().optional(),
-  })).min(1),
+    host: z.string().min(1).describe('Nameserver hostname'),
+    ip: z.string().optional().describe('Glue IP address, for nameservers inside the domain'),
+  })).min(1).describe('Nameservers to set on the domain'),
 });
 
 export const RenewDomainSchema = z.object({
-  domain: z.string().min(1),
-  duration: z.number().int().positive(),
+  account_id: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Account owning the domain, used to follow the renewal with wait: true; looked up among the accounts when omitted'),
+  domain: z.string().min(1).describe('The domain name (e.g., example.com)'),
+  duration: z.number().int().positive().describe('Renewal duration in years'),
 });
 
 // Email redirections
 export const EmailRedirectionIdSchema = z.object({
-  mail_id: z.number().positive(),
-  redirection_id: z.number({ required_error: 'redirection_id is required' }).positive(),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  redirection_id: z.number({ required_error: 'redirection_id is required' }).positive().describe('The email redirection ID'),
 });
 
 export const CreateEmailRedirectionSchema = z.object({
-  mail_id: z.number().positive(),
-  from: z.string({ required_error: 'from is required' }).email(),
-  to: z.array(z.string().email()).min(1),
-  keep_copy: z.boolean().optional(),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  from: z.string({ required_error: 'from is required' }).email().describe('Source email address'),
+  to: z.array(z.string().email()).min(1).describe('Destination email address(es)'),
+  keep_copy: z.boolean().optional().describe('Keep a copy in the source mailbox'),
 });
 
 // Cron jobs
 export const CronJobIdSchema = z.object({
-  hosting_id: z.number().positive(),
-  cron_id: z.number({ required_error: 'cron_id is required' }).positive(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  cron_id: z.number({ required_error: 'cron_id is required' }).positive().describe('The cron job ID'),
 });
 
 export const CreateCronJobSchema = z.object({
-  hosting_id: z.number().positive(),
-  command: z.string({ required_error: 'command is required' }).min(1),
-  schedule: z.string({ required_error: 'schedule is required' }).min(1),
-  description: z.string().optional(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  command: z.string({ required_error: 'command is required' }).min(1).describe('Command to run'),
+  schedule: z.string({ required_error: 'schedule is required' }).min(1).describe('Cron expression, e.g. "0 * * * *"'),
+  description: z.string().optional().describe('Description of the cron job'),
 });
 
 export const UpdateCronJobSchema = z.object({
-  hosting_id: z.number().positive(),
-  cron_id: z.number().positive(),
-  command: z.string().optional(),
-  schedule: z.string().optional(),
-  description: z.string().optional(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  cron_id: z.number().positive().describe('The cron job ID'),
+  command: z.string().optional().describe('Command to run'),
+  schedule: z.string().optional().describe('Cron expression, e.g. "0 * * * *"'),
+  description: z.string().optional().describe('Description of the cron job'),
 });
 
 // FTP accounts
 export const FtpAccountIdSchema = z.object({
-  hosting_id: z.number().positive(),
-  ftp_id: z.number({ required_error: 'ftp_id is required' }).positive(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  ftp_id: z.number({ required_error: 'ftp_id is required' }).positive().describe('The FTP account ID'),
 });
 
 export const CreateFtpAccountSchema = z.object({
-  hosting_id: z.number().positive(),
-  login: z.string({ required_error: 'login is required' }).min(1),
-  password: z.string({ required_error: 'password is required' }).min(8),
-  home_directory: z.string().optional(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  login: z.string({ required_error: 'login is required' }).min(1).describe('FTP login'),
+  password: z.string({ required_error: 'password is required' }).min(8).describe('FTP password (min. 8 characters)'),
+  home_directory: z.string().optional().describe('Home directory of the FTP account'),
 });
 
 export const UpdateFtpAccountSchema = z.object({
-  hosting_id: z.number().positive(),
-  ftp_id: z.number().positive(),
-  password: z.string().min(8).optional(),
-  home_directory: z.string().optional(),
-  is_active: z.boolean().optional(),
+  hosting_id: z.number().positive().describe('The web hosting ID'),
+  ftp_id: z.number().positive().describe('The FTP account ID'),
+  password: z.string().min(8).optional().describe('New FTP password (min. 8 characters)'),
+  home_directory: z.string().optional().describe('Home directory of the FTP account'),
+  is_active: z.boolean().optional().describe('Whether the FTP account is enabled'),
 });
 
 // kDrive file ops
 export const KDriveFileIdSchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().describe('The file or directory ID'),
 });
 
 export const ListKDriveFilesSchema = z.object({
-  drive_id: z.number().positive(),
-  parent_id: z.number().positive().optional(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  parent_id: z.number().positive().optional().describe('Parent directory ID (omit for root)'),
 });
 
 export const SearchKDriveFilesSchema = z.object({
-  drive_id: z.number().positive(),
-  query: z.string({ required_error: 'query is required' }).min(1),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  query: z.string({ required_error: 'query is required' }).min(1).describe('Search query'),
 });
 
 export const CreateKDriveDirectorySchema = z.object({
-  drive_id: z.number().positive(),
-  name: z.string({ required_error: 'name is required' }).min(1),
-  parent_id: z.number().positive().optional(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  name: z.string({ required_error: 'name is required' }).min(1).describe('Directory name'),
+  parent_id: z.number().positive().optional().describe('Parent directory ID (omit for root)'),
 });
 
 export const MoveOrCopyKDriveFileSchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive(),
-  destination_directory_id: z.number({ required_error: 'destination_directory_id is required' }).positive(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().describe('The file or directory ID'),
+  destination_directory_id: z.number({ required_error: 'destination_directory_id is required' }).positive().describe('The destination directory ID'),
 });
 
 export const RenameKDriveFileSchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive(),
-  name: z.string({ required_error: 'name is required' }).min(1),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().describe('The file or directory ID'),
+  name: z.string({ required_error: 'name is required' }).min(1).describe('New name'),
 });
 
 export const ShareKDriveFileSchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive(),
-  right: z.enum(['public', 'password', 'inherit']).optional(),
-  valid_until: z.string().optional(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().describe('The file or directory ID'),
+  right: z.enum(['public', 'password', 'inherit']).optional().describe('Access right of the share link'),
+  valid_until: z.string().optional().describe('Expiration date of the share link (ISO 8601)'),
 });
 
 // kDrive extras
 export const KDriveTrashSchema = z.object({
-  drive_id: z.number().positive(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
 });
 
 export const KDriveRestoreFileSchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().describe('The file or directory ID'),
 });
 
 export const KDriveActivitySchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive().optional(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().optional().describe('Optional: filter by file'),
 });
 
 export const KDriveFavoritesSchema = z.object({
-  drive_id: z.number().positive(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
 });
 
 export const KDriveFavoriteFileSchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().describe('The file or directory ID'),
 });
 
 export const KDriveFileVersionsSchema = z.object({
-  drive_id: z.number().positive(),
-  file_id: z.number().positive(),
+  drive_id: z.number().positive().describe('The kDrive ID'),
+  file_id: z.number().positive().describe('The file or directory ID'),
 });
 
 // Mail extras
 export const UpdateMailboxAutoresponderSchema = z.object({
-  mail_id: z.number().positive(),
-  mailbox_id: z.number().positive(),
-  enabled: z.boolean(),
-  subject: z.string().optional(),
-  body: z.string().optional(),
-  from_date: z.string().optional(),
-  to_date: z.string().optional(),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  mailbox_id: z.number().positive().describe('The mailbox ID'),
+  enabled: z.boolean().describe('Enable or disable the autoresponder'),
+  subject: z.string().optional().describe('Auto-reply subject'),
+  body: z.string().optional().describe('Auto-reply message body'),
+  from_date: z.string().optional().describe('Start date (ISO 8601)'),
+  to_date: z.string().optional().describe('End date (ISO 8601)'),
 });
 
 export const ListMailboxFoldersSchema = z.object({
-  mail_id: z.number().positive(),
-  mailbox_id: z.number().positive(),
+  mail_id: z.number().positive().describe('The mail service ID'),
+  mailbox_id: z.number().positive().describe('The mailbox ID'),
 });
 
 // kChat schemas
 export const KChatTeamIdSchema = z.object({
-  team_id: z.string({ required_error: 'team_id is required' }).min(1),
+  team_id: z.string({ required_error: 'team_id is required' }).min(1).describe('The team ID'),
 });
 
 export const KChatChannelIdSchema = z.object({
-  channel_id: z.string({ required_error: 'channel_id is required' }).min(1),
+  channel_id: z.string({ required_error: 'channel_id is required' }).min(1).describe('The channel ID'),
 });
 
 export const KChatPostIdSchema = z.object({
-  post_id: z.string({ required_error: 'post_id is required' }).min(1),
+  post_id: z.string({ required_error: 'post_id is required' }).min(1).describe('The post ID'),
 });
 
 export const CreateKChatPostSchema = z.object({
-  channel_id: z.string({ required_error: 'channel_id is required' }).min(1),
-  message: z.string({ required_error: 'message is required' }).min(1),
-  root_id: z.string().optional(),
+  channel_id: z.string({ required_error: 'channel_id is required' }).min(1).describe('The channel ID'),
+  message: z.string({ required_error: 'message is required' }).min(1).describe('Message text (supports Markdown)'),
+  root_id: z.string().optional().describe('Parent post ID for threading'),
 });
 
 export const SearchKChatPostsSchema = z.object({
-  team_id: z.string({ required_error: 'team_id is required' }).min(1),
-  terms: z.string({ required_error: 'terms is required' }).min(1),
-  is_or_search: z.boolean().optional(),
+  team_id: z.string({ required_error: 'team_id is required' }).min(1).describe('The team ID'),
+  terms: z.string({ required_error: 'terms is required' }).min(1).describe('Search terms'),
+  is_or_search: z.boolean().optional().describe('Use OR logic between terms'),
 });
 
 export const CreateKChatDirectChannelSchema = z.object({
-  user_ids: z.array(z.string().min(1)).min(2).max(2),
+  user_ids: z.array(z.string().min(1)).min(2).max(2).describe('Exactly two user IDs'),
 });
 
 export const SearchKChatUsersSchema = z.object({
-  term: z.string({ required_error: 'term is required' }).min(1),
+  term: z.string({ required_error: 'term is required' }).min(1).describe('Search term'),
 });
 
 export const ListKChatUsersSchema = z.object({
-  in_team_id: z.string().optional(),
-  in_channel_id: z.string().optional(),
+  in_team_id: z.string().optional().describe('Filter by team'),
+  in_channel_id: z.string().optional().describe('Filter by channel'),
 });
 
 export const KChatGetChannelPostsSchema = z.object({
-  channel_id: z.string({ required_error: 'channel_id is required' }).min(1),
-  page: z.number().int().min(0).optional(),
-  per_page: z.number().int().min(1).max(200).optional(),
+  channel_id: z.string({ required_error: 'channel_id is required' }).min(1).describe('The channel ID'),
+  page: z.number().int().min(0).optional().describe('Page number (0-indexed)'),
+  per_page: z.number().int().min(1).max(200).optional().describe('Number of posts per page (max 200)'),
+});
+
+// Audit log
+export const AuditQuerySchema = z.object({
+  tool: z.string().optional().describe('Only return calls of this tool'),
+  session_id: z.string().optional().describe('Only return calls of this MCP session'),
+  outcome: z.enum(['success', 'error', 'dry_run', 'cancelled']).optional().describe('Only return calls with this outcome'),
+  since: z.string().datetime({ offset: true, message: 'since must be an ISO 8601 timestamp' }).optional().describe('Only return calls made at or after this ISO 8601 timestamp'),
+  limit: z.number().int().min(1).max(500).optional().describe('Maximum number of entries, most recent first (default: 50)'),
+});
+
+// Change journal
+export const JournalQuerySchema = z.object({
+  include_undone: z.boolean().optional().describe('Also return changes that were already undone'),
+  limit: z.number().int().min(1).max(500).optional().describe('Maximum number of entries, most recent first (default: 20)'),
+});
+
+export const UndoSchema = z.object({
+  entry_id: z.number().int().positive().optional().describe('ID of the journal entry to undo (default: the most recent change not undone yet)'),
 });
 
+// Pagination of list tools
+export const PaginationSchema = z.object({
+  limit: z.number().int().min(1).max(1000).optional().describe('Maximum number of items to return (default: the API page size)'),
+  cursor: z.string().regex(/^[1-9]\d*$/, 'cursor must be the next_cursor of a previous call').optional().describe('next_cursor returned by the previous call, to fetch the following items'),
+});
+
+// Tools without arguments
+export const EmptySchema = z.object({});
+
 // Helper function to validate and return typed result
 export function validate<T>(schema: z.ZodSchema<T>, data: unknown): T {
   const result = schema.safeParse(data);
   if (!result.success) {
     const errors = result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
-    throw new Error(`Validation error: ${errors}`);
+    throw new ValidationError(`Validation error: ${errors}`);
   }
   return result.data;
 }
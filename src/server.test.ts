@@ -0,0 +1,544 @@
+/**
+ * Tests for the MCP server tool definitions and call handler
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ElicitRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { InfomaniakClient } from "./infomaniak-client.js";
+import { KChatClient } from "./kchat-client.js";
+import { AuditLog } from "./audit.js";
+import { ChangeJournal } from "./journal.js";
+import { ToolPolicy } from "./policy.js";
+import { McpServerOptions, createMcpServer, tools } from "./server.js";
+import { toolDefinitions } from "./tools/index.js";
+
+/**
+ * Calls run on clients scoped to the request with withOptions; let plain mocks stand for their scoped clients
+ */
+function scopable(...mocks: (object | undefined)[]): void {
+  for (const mock of mocks) {
+    if (mock && !("withOptions" in mock)) Object.assign(mock, { withOptions: () => mock });
+  }
+}
+
+async function connect(
+  client: InfomaniakClient,
+  kchatClient?: KChatClient,
+  options?: McpServerOptions,
+): Promise<Client> {
+  scopable(client, kchatClient);
+  const server = createMcpServer(client, kchatClient, options);
+  const mcpClient = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  await mcpClient.listTools();
+  return mcpClient;
+}
+
+describe("tool definitions", () => {
+  it("should declare an object output schema for every tool", () => {
+    const missing = tools.filter((tool) => tool.outputSchema?.type !== "object").map((tool) => tool.name);
+    expect(missing).toEqual([]);
+  });
+
+  it("should declare behaviour annotations for every tool", () => {
+    const hints = ["readOnlyHint", "destructiveHint", "idempotentHint", "openWorldHint"] as const;
+    const missing = tools
+      .filter((tool) => hints.some((hint) => typeof tool.annotations?.[hint] !== "boolean"))
+      .map((tool) => tool.name);
+    expect(missing).toEqual([]);
+  });
+
+  it("should mark read and delete tools consistently", () => {
+    const byPrefix = (prefix: string) => tools.filter((tool) => tool.name.replace("kchat_", "").startsWith(prefix));
+
+    expect(byPrefix("infomaniak_list_").every((tool) => tool.annotations?.readOnlyHint)).toBe(true);
+    expect(byPrefix("infomaniak_get_").every((tool) => tool.annotations?.readOnlyHint)).toBe(true);
+    expect(byPrefix("infomaniak_delete_").every((tool) => tool.annotations?.destructiveHint)).toBe(true);
+    expect(tools.find((tool) => tool.name === "infomaniak_shutdown_vps")?.annotations?.destructiveHint).toBe(true);
+    expect(byPrefix("infomaniak_update_").some((tool) => tool.annotations?.destructiveHint)).toBe(false);
+  });
+
+  it("should generate input schemas with the Zod constraints and descriptions", () => {
+    const tool = tools.find((t) => t.name === "infomaniak_create_dns_record");
+    const properties = tool?.inputSchema.properties as Record<string, Record<string, unknown>>;
+
+    expect(tool?.inputSchema.required).toEqual(expect.arrayContaining(["domain", "type", "source", "target"]));
+    expect(properties.ttl).toMatchObject({ type: "number", minimum: 60, maximum: 86400 });
+    expect(properties.type.enum).toContain("CNAME");
+    expect(properties.domain.description).toBeTruthy();
+  });
+
+  it("should reject invalid arguments before calling the API", async () => {
+    const client = { getAccount: vi.fn() } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client);
+
+    const result = await mcpClient.callTool({ name: "infomaniak_get_account", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: expect.stringContaining("Validation error") }]);
+    expect(client.getAccount).not.toHaveBeenCalled();
+  });
+});
+
+describe("tool policy", () => {
+  it("should hide and refuse tools filtered by the policy", async () => {
+    const client = { deleteDnsRecord: vi.fn() } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client, undefined, { policy: new ToolPolicy({ readOnly: true }) });
+
+    const { tools: listed } = await mcpClient.listTools();
+    const result = await mcpClient.callTool({
+      name: "infomaniak_delete_dns_record",
+      arguments: { domain: "example.com", record_id: 1 },
+    });
+
+    expect(listed.map((tool) => tool.name)).toContain("infomaniak_list_domains");
+    expect(listed.map((tool) => tool.name)).not.toContain("infomaniak_delete_dns_record");
+    expect(result.isError).toBe(true);
+    expect(client.deleteDnsRecord).not.toHaveBeenCalled();
+  });
+});
+
+describe("confirmation", () => {
+  function databaseClient() {
+    return {
+      getDatabase: vi.fn().mockResolvedValue({ result: "success", data: { id: 7, name: "prod_shop" } }),
+      deleteDatabase: vi.fn().mockResolvedValue({ result: "success", data: null }),
+    } as unknown as InfomaniakClient;
+  }
+
+  async function connectWithElicitation(client: InfomaniakClient, action: "accept" | "decline") {
+    scopable(client);
+    const server = createMcpServer(client);
+    const mcpClient = new Client({ name: "test-client", version: "1.0.0" }, { capabilities: { elicitation: {} } });
+    const elicit = vi.fn().mockResolvedValue(action === "accept" ? { action, content: { confirm: true } } : { action });
+    mcpClient.setRequestHandler(ElicitRequestSchema, elicit);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+    await mcpClient.listTools();
+    return { mcpClient, elicit };
+  }
+
+  it("should ask for confirmation before destructive tools", () => {
+    const destructive = /_(delete|empty|reboot|shutdown)_/;
+    const missing = toolDefinitions
+      .filter((definition) => destructive.test(definition.name) && !definition.confirm)
+      .map((definition) => definition.name);
+    expect(missing).toEqual([]);
+  });
+
+  it("should run the tool once the user accepts", async () => {
+    const client = databaseClient();
+    const { mcpClient, elicit } = await connectWithElicitation(client, "accept");
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_delete_database",
+      arguments: { hosting_id: 1234, database_id: 7 },
+    });
+
+    expect(elicit.mock.calls[0][0].params.message).toBe(
+      "Delete database `prod_shop` on hosting 1234? All its data will be lost.",
+    );
+    expect(result.isError).toBeFalsy();
+    expect(client.deleteDatabase).toHaveBeenCalledWith(1234, 7);
+  });
+
+  it("should not run the tool when the user declines", async () => {
+    const client = databaseClient();
+    const { mcpClient } = await connectWithElicitation(client, "decline");
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_delete_database",
+      arguments: { hosting_id: 1234, database_id: 7, confirm: true },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(client.deleteDatabase).not.toHaveBeenCalled();
+  });
+
+  it("should require confirm: true from clients without elicitation", async () => {
+    const client = databaseClient();
+    const mcpClient = await connect(client);
+    const args = { hosting_id: 1234, database_id: 7 };
+
+    const refused = await mcpClient.callTool({ name: "infomaniak_delete_database", arguments: args });
+    const confirmed = await mcpClient.callTool({
+      name: "infomaniak_delete_database",
+      arguments: { ...args, confirm: true },
+    });
+
+    expect(refused.isError).toBe(true);
+    expect(refused.content).toEqual([{ type: "text", text: expect.stringContaining("confirm: true") }]);
+    expect(confirmed.isError).toBeFalsy();
+    expect(client.deleteDatabase).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refuse destructive tools without elicitation when configured to", async () => {
+    const client = databaseClient();
+    const mcpClient = await connect(client, undefined, { policy: new ToolPolicy({ confirmFallback: "refuse" }) });
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_delete_database",
+      arguments: { hosting_id: 1234, database_id: 7, confirm: true },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(client.deleteDatabase).not.toHaveBeenCalled();
+  });
+});
+
+describe("audit log", () => {
+  it("should record each call with redacted arguments and the upstream status", async () => {
+    const write = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 201,
+        json: () =>
+          Promise.resolve({
+            result: "success",
+            data: {
+              id: 3,
+              mail_id: 1,
+              mailbox_name: "john",
+              email: "john@example.com",
+              aliases: [],
+              size_used: 0,
+              max_size: 1024,
+            },
+          }),
+      }),
+    );
+    try {
+      const audit = new AuditLog("stderr");
+      const mcpClient = await connect(new InfomaniakClient({ token: "token" }), undefined, { audit });
+
+      await mcpClient.callTool({
+        name: "infomaniak_create_mailbox",
+        arguments: { mail_id: 1, mailbox_name: "john", password: "secret123" },
+      });
+      await mcpClient.callTool({ name: "infomaniak_get_account", arguments: {} });
+      const result = await mcpClient.callTool({ name: "infomaniak_audit_query", arguments: { outcome: "success" } });
+
+      const [created] = audit.query({ tool: "infomaniak_create_mailbox" });
+      expect(created).toMatchObject({
+        arguments: { mail_id: 1, mailbox_name: "john", password: "***" },
+        outcome: "success",
+        upstream_status: 201,
+      });
+      expect(audit.query({ tool: "infomaniak_get_account" })[0]).toMatchObject({ outcome: "error" });
+      expect(result.structuredContent).toEqual({ entries: [created] });
+      expect(JSON.stringify(write.mock.calls)).not.toContain("secret123");
+    } finally {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("should return the result of a change it fails to audit or notify", async () => {
+    const audit = new AuditLog("stderr");
+    vi.spyOn(audit, "record").mockImplementation(() => {
+      throw new Error("ENOSPC: no space left on device");
+    });
+    vi.spyOn(Server.prototype, "sendResourceUpdated").mockRejectedValue(new Error("Not connected"));
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const client = { deleteDnsRecord: vi.fn().mockResolvedValue({ result: "success", data: null }) };
+      const mcpClient = await connect(client as unknown as InfomaniakClient, undefined, { audit });
+      await mcpClient.subscribeResource({ uri: "infomaniak://domain/example.com/dns" });
+
+      const result = await mcpClient.callTool({
+        name: "infomaniak_delete_dns_record",
+        arguments: { domain: "example.com", record_id: 5, confirm: true },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(client.deleteDnsRecord).toHaveBeenCalledWith("example.com", 5);
+      expect(log).toHaveBeenCalledWith(
+        "Cannot record infomaniak_delete_dns_record in the audit log: ENOSPC: no space left on device",
+      );
+      expect(log).toHaveBeenCalledWith(
+        "Cannot notify the subscribers of the resources changed by infomaniak_delete_dns_record: Not connected",
+      );
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("should record cancelled calls distinctly and abort their requests", async () => {
+    const fetch = vi.fn(
+      (_url: string, { signal }: RequestInit) =>
+        new Promise((_resolve, reject) => signal?.addEventListener("abort", () => reject(signal.reason))),
+    );
+    vi.stubGlobal("fetch", fetch);
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const audit = new AuditLog("stderr");
+      const mcpClient = await connect(new InfomaniakClient({ token: "token" }), undefined, { audit });
+      const controller = new AbortController();
+
+      const call = mcpClient.callTool({ name: "infomaniak_list_accounts", arguments: {} }, undefined, {
+        signal: controller.signal,
+      });
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+      controller.abort("user pressed stop");
+
+      await expect(call).rejects.toThrow();
+      await vi.waitFor(() => expect(audit.query({})).toHaveLength(1));
+      expect(audit.query({})[0]).toMatchObject({ outcome: "cancelled", error_code: "cancelled" });
+      expect(fetch.mock.calls[0][1].signal?.aborted).toBe(true);
+      expect(log).toHaveBeenCalledWith("Tool call cancelled by the client: infomaniak_list_accounts");
+    } finally {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+describe("change journal", () => {
+  const record = { id: 12, source: "www", type: "A", target: "1.2.3.4", ttl: 3600 };
+
+  it("should record the deleted DNS record and recreate it on undo", async () => {
+    const client = {
+      findDnsRecord: vi.fn().mockResolvedValue(record),
+      getDnsRecords: vi.fn().mockResolvedValue({ result: "success", data: [record] }),
+      deleteDnsRecord: vi.fn().mockResolvedValue({ result: "success" }),
+      createDnsRecord: vi.fn().mockResolvedValue({ result: "success", data: { ...record, id: 13 } }),
+    } as unknown as InfomaniakClient;
+    const journal = new ChangeJournal();
+    const mcpClient = await connect(client, undefined, { journal });
+
+    await mcpClient.callTool({
+      name: "infomaniak_delete_dns_record",
+      arguments: { domain: "example.com", record_id: 12, confirm: true },
+    });
+    expect(journal.get()).toMatchObject({
+      id: 1,
+      tool: "infomaniak_delete_dns_record",
+      before: record,
+      undo: { tool: "infomaniak_create_dns_record", arguments: { domain: "example.com", source: "www", target: "1.2.3.4" } },
+    });
+
+    const result = await mcpClient.callTool({ name: "infomaniak_undo", arguments: { confirm: true } });
+
+    expect(result.isError).toBeFalsy();
+    expect(client.createDnsRecord).toHaveBeenCalledWith("example.com", {
+      source: "www",
+      type: "A",
+      target: "1.2.3.4",
+      ttl: 3600,
+    });
+    expect(journal.get(1)?.undone_at).toBeDefined();
+    expect(journal.get()).toBeUndefined();
+  });
+
+  it("should not journal previews or changes with nothing to revert", async () => {
+    const client = {
+      getMailbox: vi.fn().mockResolvedValue({ result: "success", data: { aliases: ["info@example.com"] } }),
+      addMailboxAlias: vi.fn().mockResolvedValue({ result: "success" }),
+    } as unknown as InfomaniakClient;
+    const journal = new ChangeJournal();
+    const mcpClient = await connect(client, undefined, { journal });
+
+    await mcpClient.callTool({
+      name: "infomaniak_add_mailbox_alias",
+      arguments: { mail_id: 1, mailbox_id: 2, alias: "info@example.com" },
+    });
+
+    expect(client.addMailboxAlias).toHaveBeenCalled();
+    expect(journal.query()).toEqual([]);
+  });
+
+  it("should refuse to undo a change twice", async () => {
+    const journal = new ChangeJournal();
+    journal.record({
+      timestamp: "2026-01-01T10:00:00.000Z",
+      tool: "infomaniak_create_dns_record",
+      arguments: { domain: "example.com" },
+      undo: { tool: "infomaniak_delete_dns_record", arguments: { domain: "example.com", record_id: 13 } },
+    });
+    journal.markUndone(1);
+    const mcpClient = await connect({} as InfomaniakClient, undefined, { journal });
+
+    const result = await mcpClient.callTool({ name: "infomaniak_undo", arguments: { entry_id: 1, confirm: true } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContainEqual(expect.objectContaining({ text: expect.stringContaining("already undone") }));
+  });
+});
+
+describe("dry run", () => {
+  it("should preview a mutating tool call without sending it", async () => {
+    // Validating the record reads the zone, which is empty
+    const mockFetch = vi.fn(async () => new Response(JSON.stringify({ result: "success", data: [] })));
+    vi.stubGlobal("fetch", mockFetch);
+    try {
+      const client = new InfomaniakClient({ token: "token" });
+      const mcpClient = await connect(client);
+
+      const result = await mcpClient.callTool({
+        name: "infomaniak_create_dns_record",
+        arguments: { domain: "example.com", source: "www", type: "A", target: "1.2.3.4", dry_run: true },
+      });
+
+      expect(mockFetch.mock.calls.map((call: unknown[]) => (call[1] as RequestInit).method)).toEqual(["GET"]);
+      expect(result.structuredContent).toEqual({
+        dry_run: {
+          method: "POST",
+          url: "https://api.infomaniak.com/1/domain/example.com/dns/record",
+          body: { source: "www", type: "A", target: "1.2.3.4" },
+          effect: "Create A record www -> 1.2.3.4 in example.com",
+        },
+      });
+      expect(result.content).toContainEqual({
+        type: "text",
+        text: "infomaniak_create_dns_record (dry run, nothing sent): Create A record www -> 1.2.3.4 in example.com",
+      });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("should only offer dry_run on tools that can change something", () => {
+    const hasDryRun = (name: string) =>
+      Object.keys(tools.find((tool) => tool.name === name)?.inputSchema.properties ?? {}).includes("dry_run");
+
+    expect(hasDryRun("infomaniak_delete_mailbox")).toBe(true);
+    expect(hasDryRun("infomaniak_update_domain_nameservers")).toBe(true);
+    expect(hasDryRun("infomaniak_list_domains")).toBe(false);
+  });
+
+  it("should offer fresh on tools reading from the API", () => {
+    const hasFresh = (name: string) =>
+      Object.keys(tools.find((tool) => tool.name === name)?.inputSchema.properties ?? {}).includes("fresh");
+
+    expect(hasFresh("infomaniak_list_domains")).toBe(true);
+    expect(hasFresh("infomaniak_delete_mailbox")).toBe(false);
+    expect(hasFresh("infomaniak_cache_stats")).toBe(false);
+    expect(hasFresh("infomaniak_kchat_list_teams")).toBe(false);
+  });
+});
+
+describe("structured tool output", () => {
+  it("should return structured content with a summary", async () => {
+    const client = {
+      getDomains: vi.fn().mockResolvedValue({
+        result: "success",
+        data: [
+          {
+            id: 1,
+            customer_name: "example.com",
+            registrant: "ACME",
+            registry_expiration: "2027-01-01",
+            auto_renew: true,
+            status: "active",
+          },
+        ],
+      }),
+    } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client);
+
+    const result = await mcpClient.callTool({ name: "infomaniak_list_domains", arguments: { account_id: 1 } });
+
+    expect(result.structuredContent).toMatchObject({ result: "success", data: [{ customer_name: "example.com" }] });
+    expect(result.content).toContainEqual({ type: "text", text: "infomaniak_list_domains: 1 item returned" });
+  });
+
+  it("should page list tools with limit and cursor", async () => {
+    const client = {
+      getDnsRecords: vi.fn().mockResolvedValue({
+        result: "success",
+        data: [{ id: 3, source: "www", type: "A", target: "1.2.3.4", ttl: 3600 }],
+        total: 5,
+        page: 2,
+        pages: 3,
+      }),
+    } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client);
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_list_dns_records",
+      arguments: { domain: "example.com", limit: 2, cursor: "2" },
+    });
+
+    expect(client.getDnsRecords).toHaveBeenCalledWith("example.com", { page: 2, per_page: 2 });
+    expect(result.structuredContent).toMatchObject({ has_more: true, next_cursor: "3" });
+  });
+
+  it("should wrap array results from kChat", async () => {
+    const kchatClient = {
+      listTeams: vi.fn().mockResolvedValue([{ id: "t1", name: "acme", display_name: "ACME", type: "O" }]),
+    } as unknown as KChatClient;
+    const mcpClient = await connect({} as InfomaniakClient, kchatClient);
+
+    const result = await mcpClient.callTool({ name: "infomaniak_kchat_list_teams", arguments: {} });
+
+    expect(result.structuredContent).toEqual({ data: [{ id: "t1", name: "acme", display_name: "ACME", type: "O" }] });
+  });
+
+  it("should reject structured content that does not match the output schema", async () => {
+    const client = {
+      getVps: vi.fn().mockResolvedValue({ result: "success", data: { id: "not-a-number" } }),
+    } as unknown as InfomaniakClient;
+    const mcpClient = await connect(client);
+
+    await expect(mcpClient.callTool({ name: "infomaniak_get_vps", arguments: { vps_id: 1 } })).rejects.toThrow(
+      "output schema",
+    );
+  });
+
+  it("should not include structured content in error results", async () => {
+    const mcpClient = await connect({} as InfomaniakClient);
+
+    const result = await mcpClient.callTool({ name: "infomaniak_get_account", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it("should describe typed errors with a machine-readable code", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        headers: new Headers({ "X-Request-Id": "req-7" }),
+        text: () => Promise.resolve(JSON.stringify({ error: { code: "invalid_token", description: "Invalid token" } })),
+      }),
+    );
+    try {
+      const mcpClient = await connect(new InfomaniakClient({ token: "token" }));
+
+      const result = await mcpClient.callTool({ name: "infomaniak_get_account", arguments: { account_id: 1 } });
+
+      expect(result.isError).toBe(true);
+      expect(result._meta?.error).toMatchObject({
+        code: "auth_error",
+        retryable: false,
+        status: 401,
+        api_code: "invalid_token",
+        request_id: "req-7",
+        hint: expect.stringContaining("invalid or expired"),
+      });
+      expect(result.content).toEqual([{ type: "text", text: expect.stringContaining("Code: auth_error") }]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("should use the tool_error code for other failures", async () => {
+    const mcpClient = await connect({} as InfomaniakClient, undefined, { policy: new ToolPolicy({ readOnly: true }) });
+
+    const result = await mcpClient.callTool({
+      name: "infomaniak_delete_dns_record",
+      arguments: { domain: "example.com", record_id: 1 },
+    });
+
+    expect(result._meta?.error).toMatchObject({ code: "tool_error", retryable: false });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for waiting on long-running tasks
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { TaskState, waitForTask } from "./tasks.js";
+
+function states(...sequence: TaskState[]) {
+  return vi.fn(async () => sequence.shift() ?? { done: true, message: "done" });
+}
+
+describe("waitForTask", () => {
+  it("should poll until the work is complete and report progress", async () => {
+    const poll = states({ done: false, message: "rebooting" }, { done: true, message: "running", data: { id: 1 } });
+    const onProgress = vi.fn(async () => {});
+
+    const result = await waitForTask(poll, { timeoutMs: 1000, intervalMs: 1, onProgress });
+
+    expect(result).toMatchObject({ status: "completed", message: "running", polls: 2, data: { id: 1 } });
+    expect(onProgress.mock.calls).toEqual([
+      [1, "rebooting"],
+      [2, "running"],
+    ]);
+  });
+
+  it("should return a timeout result with the last state", async () => {
+    const poll = vi.fn(async () => ({ done: false, message: "rebooting" }));
+
+    const result = await waitForTask(poll, { timeoutMs: 30, intervalMs: 10 });
+
+    expect(result).toMatchObject({ status: "timeout", message: "rebooting" });
+    expect(result.polls).toBeGreaterThanOrEqual(2);
+    expect(result.elapsed_ms).toBeGreaterThanOrEqual(30);
+  });
+
+  it("should stop waiting when cancelled", async () => {
+    const controller = new AbortController();
+    const poll = vi.fn(async () => ({ done: false, message: "rebooting" }));
+
+    const waiting = waitForTask(poll, { timeoutMs: 60_000, intervalMs: 10_000, signal: controller.signal });
+    controller.abort(new Error("Cancelled by the client"));
+
+    await expect(waiting).rejects.toThrow("Cancelled by the client");
+    expect(poll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Long-Running Tasks
+ *
+ * Some calls only start work upstream: rebooting a VPS, renewing a domain,
+ * emptying a kDrive trash. Tools that know how to read the affected resource
+ * can be called with `wait: true`, in which case the resource is polled until
+ * the work is complete, the wait times out, or the client cancels the call.
+ */
+
+import { sleep } from "./middleware.js";
+
+/**
+ * State of the work, as read by one poll
+ */
+export interface TaskState {
+  /** Whether the work is complete */
+  done: boolean;
+  /** Progress message, e.g. "VPS vps1.example.com is rebooting" */
+  message: string;
+  /** Resource as read by the poll */
+  data?: unknown;
+}
+
+export interface TaskResult {
+  status: "completed" | "timeout";
+  /** Message of the last poll */
+  message: string;
+  polls: number;
+  elapsed_ms: number;
+  /** Resource as read by the last poll */
+  data?: unknown;
+}
+
+export interface WaitOptions {
+  /** Give up after this delay, returning a `timeout` result */
+  timeoutMs: number;
+  /** Delay before each poll */
+  intervalMs: number;
+  /** Stops waiting, rejecting with the abort reason */
+  signal?: AbortSignal;
+  /** Called after each poll */
+  onProgress?: (polls: number, message: string) => Promise<void>;
+}
+
+/**
+ * Poll until the work is complete or the timeout expires
+ */
+export async function waitForTask(poll: () => Promise<TaskState>, options: WaitOptions): Promise<TaskResult> {
+  const startedAt = Date.now();
+  const deadline = startedAt + options.timeoutMs;
+  let state: TaskState;
+  let polls = 0;
+
+  do {
+    // Let the work start before the first poll, and do not wait past the deadline
+    await sleep(Math.min(options.intervalMs, Math.max(deadline - Date.now(), 0)), options.signal);
+    state = await poll();
+    polls++;
+    options.signal?.throwIfAborted();
+    await options.onProgress?.(polls, state.message);
+  } while (!state.done && Date.now() < deadline);
+
+  return {
+    status: state.done ? "completed" : "timeout",
+    message: state.message,
+    polls,
+    elapsed_ms: Date.now() - startedAt,
+    ...(state.data !== undefined && { data: state.data }),
+  };
+}
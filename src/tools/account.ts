@@ -0,0 +1,53 @@
+/**
+ * Profile & Account Tools
+ */
+
+import { z } from "zod";
+import { AccountIdSchema, EmptySchema, PaginationSchema } from "../schemas.js";
+import { AccountSchema, ProductSchema, ProfileSchema, apiResponse, paginatedResponse } from "../output-schemas.js";
+import { READ_ONLY, ToolDefinition, defineTool, paginated } from "./registry.js";
+
+export const accountTools: ToolDefinition[] = [
+  defineTool({
+    name: "infomaniak_ping",
+    description: "Test connectivity with the Infomaniak API",
+    input: EmptySchema,
+    output: apiResponse(z.object({ message: z.string() })),
+    annotations: READ_ONLY,
+    handler: (_args, { client }) => client.ping(),
+  }),
+  defineTool({
+    name: "infomaniak_get_profile",
+    description: "Get the current user profile information",
+    input: EmptySchema,
+    output: apiResponse(ProfileSchema),
+    annotations: READ_ONLY,
+    handler: (_args, { client }) => client.getProfile(),
+  }),
+  defineTool({
+    name: "infomaniak_list_accounts",
+    description: "List all accounts accessible by the current user",
+    input: PaginationSchema,
+    output: paginatedResponse(AccountSchema),
+    annotations: READ_ONLY,
+    handler: (page, { client }) =>
+      paginated(page, (pagination) => client.getAccounts(pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_account",
+    description: "Get detailed information about a specific account",
+    input: AccountIdSchema,
+    output: apiResponse(AccountSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id }, { client }) => client.getAccount(account_id),
+  }),
+  defineTool({
+    name: "infomaniak_list_products",
+    description: "List all products for a specific account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(ProductSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getAccountProducts(account_id, pagination)),
+  }),
+];
@@ -0,0 +1,47 @@
+/**
+ * Advanced Tools
+ */
+
+import { ApiCallSchema, EmptySchema } from "../schemas.js";
+import { CacheStatsSchema, DiagnosticsSchema, UntypedOutputSchema } from "../output-schemas.js";
+import { DESTRUCTIVE, READ_ONLY, ToolDefinition, defineTool } from "./registry.js";
+
+export const advancedTools: ToolDefinition[] = [
+  defineTool({
+    name: "infomaniak_api_call",
+    description:
+      "Make a custom API call to any Infomaniak API endpoint. Use this for advanced operations not covered by other tools.",
+    input: ApiCallSchema,
+    output: UntypedOutputSchema,
+    annotations: { ...DESTRUCTIVE, idempotentHint: false },
+    readOnlyWhen: ({ method }) => method === "GET",
+    confirm: async ({ method, endpoint }) => (method === "DELETE" ? `Send DELETE ${endpoint}?` : undefined),
+    handler: ({ method, endpoint, body, query_params }, { client }) =>
+      client.call(method, endpoint, body, query_params),
+  }),
+  defineTool({
+    name: "infomaniak_cache_stats",
+    description: "Show hit and miss statistics of the response cache of this server",
+    input: EmptySchema,
+    output: CacheStatsSchema,
+    annotations: { ...READ_ONLY, openWorldHint: false },
+    handler: async (_args, { client }) => {
+      const stats = client.getCacheStats();
+      if (!stats) return { enabled: false };
+      const lookups = stats.hits + stats.misses;
+      return { enabled: true, ...stats, hit_rate: lookups ? stats.hits / lookups : 0 };
+    },
+  }),
+  defineTool({
+    name: "infomaniak_diagnostics",
+    description:
+      "List the API drift observed by this server: fields upstream responses were missing, had in excess, or sent with another type than expected",
+    input: EmptySchema,
+    output: DiagnosticsSchema,
+    annotations: { ...READ_ONLY, openWorldHint: false },
+    handler: async (_args, { client, kchatClient }) => {
+      const { validation, drift } = client.getApiDrift();
+      return { validation, drift: [...drift, ...(kchatClient?.getApiDrift().drift ?? [])] };
+    },
+  }),
+];
@@ -0,0 +1,22 @@
+/**
+ * Audit Tools
+ */
+
+import { z } from "zod";
+import { AuditQuerySchema } from "../schemas.js";
+import { AuditEntrySchema } from "../output-schemas.js";
+import { READ_ONLY, ToolDefinition, defineTool } from "./registry.js";
+
+export const auditTools: ToolDefinition[] = [
+  defineTool({
+    name: "infomaniak_audit_query",
+    description: "Search recent entries of the audit log of tool calls made through this server",
+    input: AuditQuerySchema,
+    output: z.object({ entries: z.array(AuditEntrySchema) }),
+    annotations: { ...READ_ONLY, openWorldHint: false },
+    handler: async (query, { audit }) => {
+      if (!audit) throw new Error("The audit log is not enabled. Set the MCP_AUDIT_LOG environment variable.");
+      return { entries: audit.query(query) };
+    },
+  }),
+];
@@ -0,0 +1,47 @@
+/**
+ * Certificates & Billing Tools
+ */
+
+import { AccountIdSchema, CertificateIdSchema, InvoiceIdSchema, PaginationSchema } from "../schemas.js";
+import { InvoiceSchema, SslCertificateSchema, apiResponse, paginatedResponse } from "../output-schemas.js";
+import { READ_ONLY, ToolDefinition, defineTool, paginated } from "./registry.js";
+
+export const billingTools: ToolDefinition[] = [
+  // SSL Certificates
+  defineTool({
+    name: "infomaniak_list_certificates",
+    description: "List all SSL certificates for an account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(SslCertificateSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getCertificates(account_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_certificate",
+    description: "Get detailed information about an SSL certificate",
+    input: CertificateIdSchema,
+    output: apiResponse(SslCertificateSchema),
+    annotations: READ_ONLY,
+    handler: ({ certificate_id }, { client }) => client.getCertificate(certificate_id),
+  }),
+
+  // Invoicing
+  defineTool({
+    name: "infomaniak_list_invoices",
+    description: "List all invoices for an account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(InvoiceSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getInvoices(account_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_invoice",
+    description: "Get detailed information about an invoice",
+    input: InvoiceIdSchema,
+    output: apiResponse(InvoiceSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, invoice_id }, { client }) => client.getInvoice(account_id, invoice_id),
+  }),
+];
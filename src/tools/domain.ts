@@ -0,0 +1,462 @@
+/**
+ * Domain & DNS Tools
+ */
+
+import { z } from "zod";
+import {
+  AccountIdSchema,
+  ApplyDnsPlanSchema,
+  ApplyDnsTemplateSchema,
+  CreateDnsRecordSchema,
+  DeleteDnsRecordSchema,
+  DnsTemplateSchema,
+  EmptySchema,
+  ExportDnsZoneSchema,
+  ForceDnsSchema,
+  GetDomainNameserversSchema,
+  GetDomainSchema,
+  ImportDnsZoneSchema,
+  LintDnsZoneSchema,
+  ListDnsRecordsSchema,
+  PaginationSchema,
+  PlanDnsChangesSchema,
+  RenewDomainSchema,
+  UpdateDnsRecordSchema,
+  UpdateDomainNameserversSchema,
+} from "../schemas.js";
+import {
+  DnsApplySchema,
+  DnsLintSchema,
+  DnsPlanSchema,
+  DnsRecordSchema,
+  DnsTemplateApplySchema,
+  DnsZoneImportSchema,
+  DnsZoneSchema,
+  DomainNameserverSchema,
+  DomainSchema,
+  UntypedOutputSchema,
+  apiResponse,
+  paginatedResponse,
+} from "../output-schemas.js";
+import { DnsRecord, InfomaniakClient, paginate } from "../infomaniak-client.js";
+import { CancelledError, ConflictError, NotFoundError, describeError } from "../errors.js";
+import { isDryRunResult } from "../dry-run.js";
+import {
+  applyDnsPlan,
+  parseRecordSet,
+  planDnsChanges,
+  planSize,
+  planSummary,
+  plannedZone,
+  readDnsZone,
+} from "../dns-plan.js";
+import { BUILTIN_DNS_TEMPLATES, DnsTemplate, planDnsTemplate, renderDnsTemplate } from "../dns-templates.js";
+import { assertValidDns, checkDnsChange, checkDnsChanges, lintDnsZone } from "../dns-validation.js";
+import { ZoneRecord, parseZoneFile, renderZoneFile, sameRecord } from "../zone-file.js";
+import {
+  ADDITIVE,
+  DESTRUCTIVE,
+  READ_ONLY,
+  UPDATE,
+  ToolContext,
+  ToolDefinition,
+  createdId,
+  defineTool,
+  paginated,
+} from "./registry.js";
+
+/**
+ * Domain as read through the account owning it: the given one, or the first account of the token holding it
+ */
+async function accountDomain(client: InfomaniakClient, domain: string, accountId: number | undefined) {
+  if (accountId !== undefined) return { accountId, data: (await client.getDomain(accountId, domain)).data };
+  // Domains are only readable through their account, which the API does not tell
+  for await (const account of paginate((page) => client.getAccounts(page))) {
+    try {
+      return { accountId: account.id, data: (await client.getDomain(account.id, domain)).data };
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+    }
+  }
+  throw new NotFoundError(`Domain ${domain} was not found in the accounts of the token`, {
+    hint: "pass the account_id owning the domain",
+  });
+}
+
+/**
+ * Records of a zone file to create, the ones already in the zone, and the entries that cannot be imported
+ */
+async function zoneChangeset(client: InfomaniakClient, domain: string, zone: string) {
+  const { records, unsupported } = parseZoneFile(zone, domain);
+  const current = await readDnsZone(client, domain);
+  const create: ZoneRecord[] = [];
+  const existing: ZoneRecord[] = [];
+  for (const record of records) {
+    const known = current.some((candidate) => sameRecord(candidate, record)) || create.some((other) => sameRecord(other, record));
+    (known ? existing : create).push(record);
+  }
+  const issues = checkDnsChanges(domain, current, [...current, ...create]);
+  return { domain, create, existing, unsupported, issues };
+}
+
+/**
+ * Count of records per type, e.g. "2 A, 1 MX"
+ */
+function countByType(records: ZoneRecord[]): string {
+  const counts = new Map<string, number>();
+  for (const { type } of records) counts.set(type, (counts.get(type) ?? 0) + 1);
+  return [...counts].map(([type, count]) => `${count} ${type}`).join(", ");
+}
+
+/**
+ * Plan of the changes to the zone, computed from the zone as the API returns it now
+ */
+async function dnsPlan(client: InfomaniakClient, domain: string, records: string | unknown[], prune = false) {
+  const desired = parseRecordSet(records);
+  const current = await readDnsZone(client.withOptions({ fresh: true }), domain);
+  const plan = planDnsChanges(domain, current, desired, prune);
+  return { ...plan, issues: checkDnsChanges(domain, current, plannedZone(current, plan)) };
+}
+
+/**
+ * DNS template of the given name, among the templates of the server
+ */
+function dnsTemplate(context: ToolContext, name: string): DnsTemplate {
+  const template = (context.dnsTemplates ?? BUILTIN_DNS_TEMPLATES).find((candidate) => candidate.name === name);
+  if (!template) {
+    throw new NotFoundError(`DNS template ${name} not found`, { hint: "list the templates with infomaniak_list_dns_templates" });
+  }
+  return template;
+}
+
+/**
+ * Plan of the records of a template missing from the zone, computed from the zone as the API returns it now
+ */
+async function dnsTemplatePlan(
+  context: ToolContext,
+  domain: string,
+  name: string,
+  variables: Record<string, string> | undefined,
+  replace = false,
+) {
+  const template = dnsTemplate(context, name);
+  const records = renderDnsTemplate(template, domain, variables);
+  const current = await readDnsZone(context.client.withOptions({ fresh: true }), domain);
+  const plan = planDnsTemplate(template.name, domain, current, records, replace);
+  return { ...plan, issues: checkDnsChanges(domain, current, plannedZone(current, plan)) };
+}
+
+/**
+ * Fields of a partial update that are set
+ */
+function definedFields<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Arguments recreating a DNS record as it was
+ */
+function recordFields({ source, type, target, ttl, priority }: DnsRecord) {
+  return { source, type, target, ttl, ...(priority !== undefined && { priority }) };
+}
+
+export const domainTools: ToolDefinition[] = [
+  defineTool({
+    name: "infomaniak_list_domains",
+    description: "List all domains for an account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(DomainSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getDomains(account_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_domain",
+    description: "Get detailed information about a specific domain",
+    input: GetDomainSchema,
+    output: apiResponse(DomainSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, domain }, { client }) => client.getDomain(account_id, domain),
+  }),
+  defineTool({
+    name: "infomaniak_get_domain_nameservers",
+    description: "Get the nameservers for a domain",
+    input: GetDomainNameserversSchema.merge(PaginationSchema),
+    output: paginatedResponse(DomainNameserverSchema),
+    annotations: READ_ONLY,
+    handler: ({ domain, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getDomainNameservers(domain, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_update_domain_nameservers",
+    description: "Update the nameservers for a domain",
+    input: UpdateDomainNameserversSchema,
+    output: UntypedOutputSchema,
+    annotations: UPDATE,
+    changes: ["infomaniak://domain/{domain}/nameservers"],
+    reversible: {
+      before: async ({ domain }, { client }) => (await client.getDomainNameservers(domain)).data,
+      inverse: ({ domain }, nameservers) => ({
+        tool: "infomaniak_update_domain_nameservers",
+        arguments: { domain, nameservers },
+      }),
+    },
+    handler: ({ domain, nameservers }, { client }) => client.updateDomainNameservers(domain, nameservers),
+  }),
+  defineTool({
+    name: "infomaniak_renew_domain",
+    description: "Renew a domain for a given number of years",
+    input: RenewDomainSchema,
+    output: UntypedOutputSchema,
+    annotations: ADDITIVE,
+    changes: ["infomaniak://account/{account_id}/domains"],
+    longRunning: {
+      before: async ({ account_id, domain }, { client }) => {
+        const { accountId, data } = await accountDomain(client, domain, account_id);
+        return { accountId, expiration: data.registry_expiration };
+      },
+      poll: async ({ domain }, { client }, { accountId, expiration }) => {
+        const { data } = await client.getDomain(accountId, domain);
+        const renewed = Date.parse(data.registry_expiration) > Date.parse(expiration);
+        return {
+          done: renewed,
+          message: renewed
+            ? `${domain} now expires on ${data.registry_expiration}`
+            : `${domain} still expires on ${data.registry_expiration}`,
+          data,
+        };
+      },
+    },
+    handler: ({ domain, duration }, { client }) => client.renewDomain(domain, duration),
+  }),
+  defineTool({
+    name: "infomaniak_list_dns_records",
+    description: "List all DNS records for a domain",
+    input: ListDnsRecordsSchema.merge(PaginationSchema),
+    output: paginatedResponse(DnsRecordSchema),
+    annotations: READ_ONLY,
+    handler: ({ domain, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getDnsRecords(domain, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_create_dns_record",
+    description:
+      "Create a new DNS record for a domain. The record is validated against the zone first (target syntax, CNAME conflicts, duplicate SPF...).",
+    input: CreateDnsRecordSchema.merge(ForceDnsSchema),
+    output: apiResponse(DnsRecordSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://domain/{domain}/dns"],
+    reversible: {
+      inverse: ({ domain }, _before, result) => {
+        const record_id = createdId(result);
+        return record_id ? { tool: "infomaniak_delete_dns_record", arguments: { domain, record_id } } : undefined;
+      },
+    },
+    handler: async ({ domain, force, ...record }, { client }) => {
+      if (!force) {
+        const issues = checkDnsChange(domain, await readDnsZone(client, domain), record);
+        assertValidDns(issues, `create ${record.type} record ${record.source} in ${domain}`);
+      }
+      return client.createDnsRecord(domain, record);
+    },
+  }),
+  defineTool({
+    name: "infomaniak_update_dns_record",
+    description: "Update an existing DNS record. The record must be in the zone, and is validated against it first.",
+    input: UpdateDnsRecordSchema.merge(ForceDnsSchema),
+    output: apiResponse(DnsRecordSchema),
+    annotations: UPDATE,
+    changes: ["infomaniak://domain/{domain}/dns"],
+    reversible: {
+      before: ({ domain, record_id }, { client }) => client.findDnsRecord(domain, record_id),
+      inverse: ({ domain, record_id }, record) =>
+        record && { tool: "infomaniak_update_dns_record", arguments: { domain, record_id, ...recordFields(record) } },
+    },
+    handler: async ({ domain, record_id, force, ...record }, { client }) => {
+      if (!force) {
+        const zone = await readDnsZone(client, domain);
+        const current = zone.find(({ id }) => id === record_id);
+        if (!current) {
+          throw new NotFoundError(`DNS record ${record_id} was not found in the zone of ${domain}`, {
+            hint: "list the records with infomaniak_list_dns_records to find its id",
+          });
+        }
+        const updated = { ...current, ...definedFields(record) };
+        assertValidDns(checkDnsChange(domain, zone, updated, record_id), `update DNS record ${record_id} of ${domain}`);
+      }
+      return client.updateDnsRecord(domain, record_id, record);
+    },
+  }),
+  defineTool({
+    name: "infomaniak_delete_dns_record",
+    description: "Delete a DNS record",
+    input: DeleteDnsRecordSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://domain/{domain}/dns"],
+    confirm: async ({ domain, record_id }) => `Delete DNS record ${record_id} of ${domain}?`,
+    reversible: {
+      before: ({ domain, record_id }, { client }) => client.findDnsRecord(domain, record_id),
+      inverse: ({ domain }, record) =>
+        record && { tool: "infomaniak_create_dns_record", arguments: { domain, ...recordFields(record) } },
+    },
+    handler: ({ domain, record_id }, { client }) => client.deleteDnsRecord(domain, record_id),
+  }),
+  defineTool({
+    name: "infomaniak_export_dns_zone",
+    description: "Export all DNS records of a domain as a zone file in BIND format (RFC 1035), with $ORIGIN and $TTL",
+    input: ExportDnsZoneSchema,
+    output: DnsZoneSchema,
+    annotations: READ_ONLY,
+    handler: async ({ domain }, { client }) => {
+      const records = await readDnsZone(client, domain);
+      return { domain, records: records.length, zone: renderZoneFile(domain, records) };
+    },
+  }),
+  defineTool({
+    name: "infomaniak_import_dns_zone",
+    description:
+      "Import a zone file in BIND format (RFC 1035) into a domain. Records already in the zone are left as they are, " +
+      "and entries that cannot be imported (SOA, apex NS, unsupported types) are reported. Use dry_run to review the changeset first.",
+    input: ImportDnsZoneSchema.merge(ForceDnsSchema),
+    output: DnsZoneImportSchema,
+    annotations: ADDITIVE,
+    changes: ["infomaniak://domain/{domain}/dns"],
+    confirm: async ({ domain, zone }, { client }) => {
+      const { create, unsupported } = await zoneChangeset(client, domain, zone);
+      if (create.length === 0) return undefined;
+      const skipped = unsupported.length > 0 ? ` ${unsupported.length} unsupported entries will be skipped.` : "";
+      return `Import ${create.length} DNS records (${countByType(create)}) into ${domain}?${skipped}`;
+    },
+    handler: async ({ domain, zone, force }, { client }) => {
+      const changeset = await zoneChangeset(client, domain, zone);
+      if (!force) assertValidDns(changeset.issues, `import the zone file into ${domain}`);
+      const created: DnsRecord[] = [];
+      const failed: { record: ZoneRecord; error: string }[] = [];
+      const previews = [];
+
+      for (const record of changeset.create) {
+        try {
+          const result = await client.createDnsRecord(domain, record);
+          if (isDryRunResult(result)) previews.push(result.dry_run);
+          else created.push(result.data);
+        } catch (error) {
+          if (error instanceof CancelledError) throw error;
+          failed.push({ record, error: describeError(error).message });
+        }
+      }
+
+      if (previews.length > 0 && previews.length === changeset.create.length) {
+        return {
+          ...changeset,
+          dry_run: {
+            method: previews[0].method,
+            url: previews[0].url,
+            body: changeset.create,
+            effect: `Create ${changeset.create.length} DNS records in ${domain} (${countByType(changeset.create)})`,
+          },
+        };
+      }
+      return { ...changeset, created, failed };
+    },
+  }),
+  defineTool({
+    name: "infomaniak_dns_plan",
+    description:
+      "Compare desired DNS records (JSON or YAML, e.g. kept in git) with the zone of a domain and list the records to create, " +
+      "update and delete. Records are matched on source and type, then target. Only the source/type pairs of the desired " +
+      "records are managed; other records are listed as unmanaged and kept unless prune is set. Apply with infomaniak_dns_apply.",
+    input: PlanDnsChangesSchema,
+    output: DnsPlanSchema,
+    annotations: READ_ONLY,
+    handler: ({ domain, records, prune }, { client }) => dnsPlan(client, domain, records, prune),
+  }),
+  defineTool({
+    name: "infomaniak_dns_apply",
+    description:
+      "Apply the plan computed by infomaniak_dns_plan for the same desired records: delete, update, then create DNS records. " +
+      "Fails without changing anything if the zone changed since the plan was computed, or if the records or prune " +
+      "flag differ from the ones of the plan.",
+    input: ApplyDnsPlanSchema.merge(ForceDnsSchema),
+    output: DnsApplySchema,
+    annotations: { ...DESTRUCTIVE, idempotentHint: false },
+    changes: ["infomaniak://domain/{domain}/dns"],
+    confirm: async ({ domain, records, prune }, { client }) => {
+      const plan = await dnsPlan(client, domain, records, prune);
+      return planSize(plan) > 0 ? `Apply DNS plan to ${domain}: ${planSummary(plan)}?` : undefined;
+    },
+    handler: async ({ domain, records, prune, zone_version, force }, { client }) => {
+      const plan = await dnsPlan(client, domain, records, prune);
+      if (plan.zone_version !== zone_version) {
+        throw new ConflictError(
+          `The DNS zone of ${domain} changed since the plan was computed, or the plan was computed for other records`,
+          { hint: "run infomaniak_dns_plan again with these records and prune flag, and review the new plan" },
+        );
+      }
+      if (!force) assertValidDns(plan.issues, `apply the DNS plan to ${domain}`);
+
+      return { ...plan, ...(await applyDnsPlan(client, plan)) };
+    },
+  }),
+  defineTool({
+    name: "infomaniak_lint_dns_zone",
+    description:
+      "Check all DNS records of a domain: target syntax per type, CNAME records at the apex or next to other records, " +
+      "MX/NS records pointing at a CNAME, TXT strings over 255 characters and duplicate SPF records",
+    input: LintDnsZoneSchema,
+    output: DnsLintSchema,
+    annotations: READ_ONLY,
+    handler: async ({ domain }, { client }) => {
+      const records = await readDnsZone(client, domain);
+      const issues = lintDnsZone(domain, records);
+      return {
+        domain,
+        records: records.length,
+        errors: issues.filter(({ severity }) => severity === "error").length,
+        warnings: issues.filter(({ severity }) => severity === "warning").length,
+        issues,
+      };
+    },
+  }),
+  defineTool({
+    name: "infomaniak_list_dns_templates",
+    description:
+      "List the DNS templates infomaniak_apply_dns_template can apply, e.g. Infomaniak Mail, Google Workspace or GitHub Pages, " +
+      "with their variables and records",
+    input: EmptySchema,
+    output: z.object({ templates: z.array(DnsTemplateSchema) }),
+    annotations: { ...READ_ONLY, openWorldHint: false },
+    handler: async (_args, context) => ({ templates: context.dnsTemplates ?? BUILTIN_DNS_TEMPLATES }),
+  }),
+  defineTool({
+    name: "infomaniak_apply_dns_template",
+    description:
+      "Create the DNS records a service needs from a template, filling its variables. Existing records the template " +
+      "contradicts, such as the MX records of another mail provider, are reported as conflicts and only replaced " +
+      "with replace: true. The records are applied atomically: if a change fails, the changes already made are reverted and the " +
+      "call fails.",
+    input: ApplyDnsTemplateSchema.merge(ForceDnsSchema),
+    output: DnsTemplateApplySchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://domain/{domain}/dns"],
+    confirm: async ({ domain, template, variables, replace }, context) => {
+      const plan = await dnsTemplatePlan(context, domain, template, variables, replace);
+      if (planSize(plan) === 0 || (plan.conflicts.length > 0 && !replace)) return undefined;
+      return `Apply DNS template ${template} to ${domain}: ${planSummary(plan)}?`;
+    },
+    handler: async ({ domain, template, variables, replace, force }, context) => {
+      const plan = await dnsTemplatePlan(context, domain, template, variables, replace);
+      if (plan.conflicts.length > 0 && !replace) {
+        const conflicts = plan.conflicts.map(
+          ({ existing, reason }) => `${existing.type} ${existing.source || "@"} ${existing.target} (${reason})`,
+        );
+        throw new ConflictError(`Template ${template} conflicts with records of ${domain}: ${conflicts.join("; ")}`, {
+          hint: "set replace: true to replace these records",
+        });
+      }
+      if (!force) assertValidDns(plan.issues, `apply DNS template ${template} to ${domain}`);
+
+      return { ...plan, ...(await applyDnsPlan(context.client, plan, { atomic: true })) };
+    },
+  }),
+];
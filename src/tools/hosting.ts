@@ -0,0 +1,281 @@
+/**
+ * Web Hosting Tools
+ */
+
+import {
+  AccountIdSchema,
+  CreateCronJobSchema,
+  CreateDatabaseSchema,
+  CreateFtpAccountSchema,
+  CreateSiteSchema,
+  CronJobIdSchema,
+  DatabaseIdSchema,
+  DeleteDatabaseSchema,
+  DeleteSiteSchema,
+  FtpAccountIdSchema,
+  HostingIdSchema,
+  PaginationSchema,
+  SiteIdSchema,
+  UpdateCronJobSchema,
+  UpdateFtpAccountSchema,
+  UpdateSiteSchema,
+} from "../schemas.js";
+import {
+  CronJobSchema,
+  DatabaseSchema,
+  FtpAccountSchema,
+  SiteSchema,
+  UntypedOutputSchema,
+  WebHostingSchema,
+  apiResponse,
+  paginatedResponse,
+} from "../output-schemas.js";
+import { NotFoundError } from "../errors.js";
+import { CronJob, InfomaniakClient, paginate } from "../infomaniak-client.js";
+import {
+  ADDITIVE,
+  DESTRUCTIVE,
+  READ_ONLY,
+  UPDATE,
+  ToolDefinition,
+  createdId,
+  defineTool,
+  nameOf,
+  paginated,
+} from "./registry.js";
+
+/**
+ * Current state of a cron job, which the API only returns as part of the list
+ */
+async function findCronJob(client: InfomaniakClient, hostingId: number, cronId: number) {
+  for await (const cron of paginate((page) => client.getCronJobs(hostingId, page))) {
+    if (cron.id === cronId) return cron;
+  }
+  return undefined;
+}
+
+/**
+ * Arguments recreating a cron job as it was
+ */
+function cronFields({ command, schedule, description }: CronJob) {
+  return { command, schedule, ...(description !== undefined && { description }) };
+}
+
+export const hostingTools: ToolDefinition[] = [
+  defineTool({
+    name: "infomaniak_list_web_hostings",
+    description: "List all web hostings for an account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(WebHostingSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getWebHostings(account_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_web_hosting",
+    description: "Get detailed information about a web hosting",
+    input: HostingIdSchema,
+    output: apiResponse(WebHostingSchema),
+    annotations: READ_ONLY,
+    handler: ({ hosting_id }, { client }) => client.getWebHosting(hosting_id),
+  }),
+
+  // Sites
+  defineTool({
+    name: "infomaniak_list_sites",
+    description: "List all sites for a web hosting",
+    input: HostingIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(SiteSchema),
+    annotations: READ_ONLY,
+    handler: ({ hosting_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getSites(hosting_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_site",
+    description: "Get detailed information about a site",
+    input: SiteIdSchema,
+    output: apiResponse(SiteSchema),
+    annotations: READ_ONLY,
+    handler: ({ hosting_id, site_id }, { client }) => client.getSite(hosting_id, site_id),
+  }),
+  defineTool({
+    name: "infomaniak_create_site",
+    description: "Create a new site on a web hosting",
+    input: CreateSiteSchema,
+    output: apiResponse(SiteSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://hosting/{hosting_id}/sites"],
+    longRunning: {
+      poll: async ({ hosting_id, fqdn }, { client }, _before, result) => {
+        const siteId = createdId(result);
+        if (siteId === undefined) return { done: true, message: `Site ${fqdn} created` };
+        try {
+          const { data } = await client.getSite(hosting_id, siteId);
+          return { done: true, message: `Site ${data.fqdn} is ready`, data };
+        } catch (error) {
+          if (error instanceof NotFoundError) return { done: false, message: `Site ${fqdn} is being set up` };
+          throw error;
+        }
+      },
+    },
+    handler: ({ hosting_id, ...site }, { client }) => client.createSite(hosting_id, site),
+  }),
+  defineTool({
+    name: "infomaniak_update_site",
+    description: "Update a site configuration",
+    input: UpdateSiteSchema,
+    output: apiResponse(SiteSchema),
+    annotations: UPDATE,
+    changes: ["infomaniak://hosting/{hosting_id}/sites"],
+    reversible: {
+      before: async ({ hosting_id, site_id }, { client }) => (await client.getSite(hosting_id, site_id)).data,
+      inverse: ({ hosting_id, site_id }, { path, php_version }) => ({
+        tool: "infomaniak_update_site",
+        arguments: { hosting_id, site_id, path, php_version },
+      }),
+    },
+    handler: ({ hosting_id, site_id, ...site }, { client }) => client.updateSite(hosting_id, site_id, site),
+  }),
+  defineTool({
+    name: "infomaniak_delete_site",
+    description: "Delete a site from web hosting",
+    input: DeleteSiteSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://hosting/{hosting_id}/sites"],
+    confirm: async ({ hosting_id, site_id }, { client }) => {
+      const name = await nameOf(() => client.getSite(hosting_id, site_id), "fqdn", String(site_id));
+      return `Delete site ${name} on hosting ${hosting_id}?`;
+    },
+    handler: ({ hosting_id, site_id }, { client }) => client.deleteSite(hosting_id, site_id),
+  }),
+
+  // Databases
+  defineTool({
+    name: "infomaniak_list_databases",
+    description: "List all databases for a web hosting",
+    input: HostingIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(DatabaseSchema),
+    annotations: READ_ONLY,
+    handler: ({ hosting_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getDatabases(hosting_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_database",
+    description: "Get detailed information about a database",
+    input: DatabaseIdSchema,
+    output: apiResponse(DatabaseSchema),
+    annotations: READ_ONLY,
+    handler: ({ hosting_id, database_id }, { client }) => client.getDatabase(hosting_id, database_id),
+  }),
+  defineTool({
+    name: "infomaniak_create_database",
+    description: "Create a new database",
+    input: CreateDatabaseSchema,
+    output: apiResponse(DatabaseSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://hosting/{hosting_id}/databases"],
+    handler: ({ hosting_id, ...database }, { client }) => client.createDatabase(hosting_id, database),
+  }),
+  defineTool({
+    name: "infomaniak_delete_database",
+    description: "Delete a database",
+    input: DeleteDatabaseSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://hosting/{hosting_id}/databases"],
+    confirm: async ({ hosting_id, database_id }, { client }) => {
+      const name = await nameOf(() => client.getDatabase(hosting_id, database_id), "name", String(database_id));
+      return `Delete database ${name} on hosting ${hosting_id}? All its data will be lost.`;
+    },
+    handler: ({ hosting_id, database_id }, { client }) => client.deleteDatabase(hosting_id, database_id),
+  }),
+
+  // Cron jobs
+  defineTool({
+    name: "infomaniak_list_cron_jobs",
+    description: "List all cron jobs for a web hosting",
+    input: HostingIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(CronJobSchema),
+    annotations: READ_ONLY,
+    handler: ({ hosting_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getCronJobs(hosting_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_create_cron_job",
+    description: "Create a cron job on a web hosting",
+    input: CreateCronJobSchema,
+    output: apiResponse(CronJobSchema),
+    annotations: ADDITIVE,
+    reversible: {
+      inverse: ({ hosting_id }, _before, result) => {
+        const cron_id = createdId(result);
+        return cron_id ? { tool: "infomaniak_delete_cron_job", arguments: { hosting_id, cron_id } } : undefined;
+      },
+    },
+    handler: ({ hosting_id, ...cron }, { client }) => client.createCronJob(hosting_id, cron),
+  }),
+  defineTool({
+    name: "infomaniak_update_cron_job",
+    description: "Update a cron job",
+    input: UpdateCronJobSchema,
+    output: apiResponse(CronJobSchema),
+    annotations: UPDATE,
+    reversible: {
+      before: ({ hosting_id, cron_id }, { client }) => findCronJob(client, hosting_id, cron_id),
+      inverse: ({ hosting_id, cron_id }, cron) =>
+        cron && { tool: "infomaniak_update_cron_job", arguments: { hosting_id, cron_id, ...cronFields(cron) } },
+    },
+    handler: ({ hosting_id, cron_id, ...cron }, { client }) => client.updateCronJob(hosting_id, cron_id, cron),
+  }),
+  defineTool({
+    name: "infomaniak_delete_cron_job",
+    description: "Delete a cron job",
+    input: CronJobIdSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    confirm: async ({ hosting_id, cron_id }) => `Delete cron job ${cron_id} on hosting ${hosting_id}?`,
+    reversible: {
+      before: ({ hosting_id, cron_id }, { client }) => findCronJob(client, hosting_id, cron_id),
+      inverse: ({ hosting_id }, cron) =>
+        cron && { tool: "infomaniak_create_cron_job", arguments: { hosting_id, ...cronFields(cron) } },
+    },
+    handler: ({ hosting_id, cron_id }, { client }) => client.deleteCronJob(hosting_id, cron_id),
+  }),
+
+  // FTP accounts
+  defineTool({
+    name: "infomaniak_list_ftp_accounts",
+    description: "List all FTP accounts for a web hosting",
+    input: HostingIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(FtpAccountSchema),
+    annotations: READ_ONLY,
+    handler: ({ hosting_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getFtpAccounts(hosting_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_create_ftp_account",
+    description: "Create an FTP account",
+    input: CreateFtpAccountSchema,
+    output: apiResponse(FtpAccountSchema),
+    annotations: ADDITIVE,
+    handler: ({ hosting_id, ...ftp }, { client }) => client.createFtpAccount(hosting_id, ftp),
+  }),
+  defineTool({
+    name: "infomaniak_update_ftp_account",
+    description: "Update an FTP account",
+    input: UpdateFtpAccountSchema,
+    output: apiResponse(FtpAccountSchema),
+    annotations: UPDATE,
+    handler: ({ hosting_id, ftp_id, ...ftp }, { client }) => client.updateFtpAccount(hosting_id, ftp_id, ftp),
+  }),
+  defineTool({
+    name: "infomaniak_delete_ftp_account",
+    description: "Delete an FTP account",
+    input: FtpAccountIdSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    confirm: async ({ hosting_id, ftp_id }) => `Delete FTP account ${ftp_id} on hosting ${hosting_id}?`,
+    handler: ({ hosting_id, ftp_id }, { client }) => client.deleteFtpAccount(hosting_id, ftp_id),
+  }),
+];
@@ -0,0 +1,35 @@
+/**
+ * Tool registry of the Infomaniak MCP server
+ */
+
+import { accountTools } from "./account.js";
+import { advancedTools } from "./advanced.js";
+import { auditTools } from "./audit.js";
+import { billingTools } from "./billing.js";
+import { domainTools } from "./domain.js";
+import { hostingTools } from "./hosting.js";
+import { infrastructureTools } from "./infrastructure.js";
+import { journalTools } from "./journal.js";
+import { kchatTools } from "./kchat.js";
+import { mailTools } from "./mail.js";
+import { ToolDefinition } from "./registry.js";
+import { storageTools } from "./storage.js";
+
+export * from "./registry.js";
+
+/**
+ * All tools, in the order they are advertised
+ */
+export const toolDefinitions: ToolDefinition[] = [
+  ...accountTools,
+  ...domainTools,
+  ...mailTools,
+  ...hostingTools,
+  ...storageTools,
+  ...infrastructureTools,
+  ...billingTools,
+  ...advancedTools,
+  ...auditTools,
+  ...journalTools,
+  ...kchatTools,
+];
@@ -0,0 +1,142 @@
+/**
+ * Infrastructure Tools (VPS & Dedicated Servers)
+ */
+
+import { PaginationSchema, ServerIdSchema, VpsIdSchema } from "../schemas.js";
+import { DedicatedServerSchema, UntypedOutputSchema, VpsSchema, apiResponse, paginatedResponse } from "../output-schemas.js";
+import { ADDITIVE, DESTRUCTIVE, LongRunning, READ_ONLY, ToolDefinition, defineTool, nameOf, paginated } from "./registry.js";
+
+/**
+ * Wait for a VPS to reach the given state
+ */
+function vpsReaches(state: string): LongRunning<{ vps_id: number }, unknown> {
+  return {
+    poll: async ({ vps_id }, { client }) => {
+      const { data } = await client.getVps(vps_id);
+      return { done: data.state === state, message: `VPS ${data.hostname} is ${data.state}`, data };
+    },
+  };
+}
+
+/** Polls in a row finding a rebooting VPS running, after which it must have rebooted between two polls */
+const UNSEEN_REBOOT_POLLS = 6;
+
+/**
+ * Wait for a VPS to go down and come back up
+ *
+ * The VPS still reports running until the reboot starts, so it must be seen in another state first,
+ * or running for UNSEEN_REBOOT_POLLS polls in a row when the reboot is quicker than the poll interval.
+ */
+function vpsRestarts(): LongRunning<{ vps_id: number }, { down: boolean; running: number }> {
+  return {
+    before: async ({ vps_id }, { client }) => {
+      const { data } = await client.withOptions({ fresh: true }).getVps(vps_id);
+      return { down: data.state !== "running", running: 0 };
+    },
+    poll: async ({ vps_id }, { client }, seen) => {
+      const { data } = await client.getVps(vps_id);
+      if (data.state !== "running") {
+        seen.down = true;
+        return { done: false, message: `VPS ${data.hostname} is ${data.state}`, data };
+      }
+      seen.running++;
+      const done = seen.down || seen.running >= UNSEEN_REBOOT_POLLS;
+      return {
+        done,
+        message: done ? `VPS ${data.hostname} is running` : `VPS ${data.hostname} has not started rebooting yet`,
+        data,
+      };
+    },
+  };
+}
+
+export const infrastructureTools: ToolDefinition[] = [
+  // VPS
+  defineTool({
+    name: "infomaniak_list_vps",
+    description: "List all VPS instances",
+    input: PaginationSchema,
+    output: paginatedResponse(VpsSchema),
+    annotations: READ_ONLY,
+    handler: (page, { client }) =>
+      paginated(page, (pagination) => client.getVpsList(pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_vps",
+    description: "Get detailed information about a VPS",
+    input: VpsIdSchema,
+    output: apiResponse(VpsSchema),
+    annotations: READ_ONLY,
+    handler: ({ vps_id }, { client }) => client.getVps(vps_id),
+  }),
+  defineTool({
+    name: "infomaniak_reboot_vps",
+    description: "Reboot a VPS",
+    input: VpsIdSchema,
+    output: UntypedOutputSchema,
+    annotations: { ...DESTRUCTIVE, idempotentHint: false },
+    changes: ["infomaniak://vps", "infomaniak://vps/{vps_id}"],
+    confirm: async ({ vps_id }, { client }) => {
+      const name = await nameOf(() => client.getVps(vps_id), "hostname", String(vps_id));
+      return `Reboot VPS ${name}?`;
+    },
+    longRunning: vpsRestarts(),
+    handler: ({ vps_id }, { client }) => client.rebootVps(vps_id),
+  }),
+  defineTool({
+    name: "infomaniak_shutdown_vps",
+    description: "Shutdown a VPS",
+    input: VpsIdSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://vps", "infomaniak://vps/{vps_id}"],
+    confirm: async ({ vps_id }, { client }) => {
+      const name = await nameOf(() => client.getVps(vps_id), "hostname", String(vps_id));
+      return `Shut down VPS ${name}?`;
+    },
+    longRunning: vpsReaches("stopped"),
+    handler: ({ vps_id }, { client }) => client.shutdownVps(vps_id),
+  }),
+  defineTool({
+    name: "infomaniak_boot_vps",
+    description: "Boot a VPS",
+    input: VpsIdSchema,
+    output: UntypedOutputSchema,
+    annotations: { ...ADDITIVE, idempotentHint: true },
+    changes: ["infomaniak://vps", "infomaniak://vps/{vps_id}"],
+    longRunning: vpsReaches("running"),
+    handler: ({ vps_id }, { client }) => client.bootVps(vps_id),
+  }),
+
+  // Dedicated Servers
+  defineTool({
+    name: "infomaniak_list_dedicated_servers",
+    description: "List all dedicated servers",
+    input: PaginationSchema,
+    output: paginatedResponse(DedicatedServerSchema),
+    annotations: READ_ONLY,
+    handler: (page, { client }) =>
+      paginated(page, (pagination) => client.getDedicatedServers(pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_dedicated_server",
+    description: "Get detailed information about a dedicated server",
+    input: ServerIdSchema,
+    output: apiResponse(DedicatedServerSchema),
+    annotations: READ_ONLY,
+    handler: ({ server_id }, { client }) => client.getDedicatedServer(server_id),
+  }),
+  defineTool({
+    name: "infomaniak_reboot_dedicated_server",
+    description: "Reboot a dedicated server",
+    input: ServerIdSchema,
+    output: UntypedOutputSchema,
+    annotations: { ...DESTRUCTIVE, idempotentHint: false },
+    changes: ["infomaniak://dedicated"],
+    confirm: async ({ server_id }, { client }) => {
+      const name = await nameOf(() => client.getDedicatedServer(server_id), "hostname", String(server_id));
+      return `Reboot dedicated server ${name}?`;
+    },
+    handler: ({ server_id }, { client }) => client.rebootDedicatedServer(server_id),
+  }),
+];
@@ -0,0 +1,65 @@
+/**
+ * Change Journal Tools
+ */
+
+import { z } from "zod";
+import { isDryRunResult } from "../dry-run.js";
+import { ChangeJournal, JournalEntry } from "../journal.js";
+import { JournalQuerySchema, UndoSchema } from "../schemas.js";
+import { JournalEntrySchema } from "../output-schemas.js";
+import { DESTRUCTIVE, READ_ONLY, ToolContext, ToolDefinition, defineTool } from "./registry.js";
+
+/**
+ * Return the change journal, failing when it is not enabled
+ */
+function journalOf(context: ToolContext): ChangeJournal {
+  if (!context.journal) throw new Error("The change journal is not enabled on this server.");
+  return context.journal;
+}
+
+/**
+ * Journal entry to undo, failing when there is none or it was already undone
+ */
+function entryToUndo(context: ToolContext, entryId: number | undefined) {
+  const entry = journalOf(context).get(entryId);
+  if (!entry) {
+    throw new Error(entryId === undefined ? "There is no change to undo" : `Journal entry ${entryId} not found`);
+  }
+  if (entry.undone_at) throw new Error(`Journal entry ${entry.id} was already undone at ${entry.undone_at}`);
+  return entry;
+}
+
+export const journalTools: ToolDefinition[] = [
+  defineTool({
+    name: "infomaniak_list_changes",
+    description: "List recent changes recorded in the change journal, with the tool call that would undo each of them",
+    input: JournalQuerySchema,
+    output: z.object({ entries: z.array(JournalEntrySchema) }),
+    annotations: { ...READ_ONLY, openWorldHint: false },
+    handler: async (query, context) => ({ entries: journalOf(context).query(query) }),
+  }),
+  defineTool({
+    name: "infomaniak_undo",
+    description:
+      "Revert a change recorded in the change journal by replaying its inverse operation, e.g. recreating a deleted DNS record. Defaults to the most recent change.",
+    input: UndoSchema,
+    output: z.object({ entry: JournalEntrySchema, result: z.unknown() }),
+    annotations: { ...DESTRUCTIVE, idempotentHint: false },
+    // Undoing changes the resources the inverse call changes
+    changes: (_args, result) => (result as { entry: JournalEntry }).entry.undo,
+    confirm: async ({ entry_id }, context) => {
+      const entry = entryToUndo(context, entry_id);
+      return `Undo ${entry.tool} (journal entry ${entry.id}) by calling ${entry.undo.tool}?`;
+    },
+    handler: async ({ entry_id }, context) => {
+      const entry = entryToUndo(context, entry_id);
+      if (!context.callTool) throw new Error("Undo is not available on this server.");
+
+      const result = await context.callTool(entry.undo);
+      if (isDryRunResult(result)) return result;
+
+      journalOf(context).markUndone(entry.id);
+      return { entry: journalOf(context).get(entry.id), result };
+    },
+  }),
+];
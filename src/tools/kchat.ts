@@ -0,0 +1,136 @@
+/**
+ * kChat Tools
+ */
+
+import { z } from "zod";
+import {
+  CreateKChatDirectChannelSchema,
+  CreateKChatPostSchema,
+  EmptySchema,
+  KChatChannelIdSchema,
+  KChatGetChannelPostsSchema,
+  KChatPostIdSchema,
+  KChatTeamIdSchema,
+  ListKChatUsersSchema,
+  SearchKChatPostsSchema,
+  SearchKChatUsersSchema,
+} from "../schemas.js";
+import {
+  KChatChannelSchema,
+  KChatPostListSchema,
+  KChatPostSchema,
+  KChatTeamSchema,
+  KChatUserSchema,
+  wrapped,
+} from "../output-schemas.js";
+import { ADDITIVE, DESTRUCTIVE, READ_ONLY, ToolDefinition, defineTool, kchat } from "./registry.js";
+
+// The kChat client has no response cache
+export const kchatTools: ToolDefinition[] = ([
+  defineTool({
+    name: "infomaniak_kchat_get_me",
+    description: "Get the current kChat user profile",
+    input: EmptySchema,
+    output: KChatUserSchema,
+    annotations: READ_ONLY,
+    handler: (_args, context) => kchat(context).getMe(),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_list_teams",
+    description: "List all kChat teams",
+    input: EmptySchema,
+    output: wrapped(z.array(KChatTeamSchema)),
+    annotations: READ_ONLY,
+    handler: (_args, context) => kchat(context).listTeams(),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_list_my_teams",
+    description: "List kChat teams the current user belongs to",
+    input: EmptySchema,
+    output: wrapped(z.array(KChatTeamSchema)),
+    annotations: READ_ONLY,
+    handler: (_args, context) => kchat(context).listMyTeams(),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_list_channels",
+    description: "List all channels in a kChat team",
+    input: KChatTeamIdSchema,
+    output: wrapped(z.array(KChatChannelSchema)),
+    annotations: READ_ONLY,
+    handler: ({ team_id }, context) => kchat(context).listChannels(team_id),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_list_my_channels",
+    description: "List kChat channels the current user is a member of",
+    input: KChatTeamIdSchema,
+    output: wrapped(z.array(KChatChannelSchema)),
+    annotations: READ_ONLY,
+    handler: ({ team_id }, context) => kchat(context).listMyChannels(team_id),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_get_channel",
+    description: "Get details about a kChat channel",
+    input: KChatChannelIdSchema,
+    output: KChatChannelSchema,
+    annotations: READ_ONLY,
+    handler: ({ channel_id }, context) => kchat(context).getChannel(channel_id),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_get_channel_posts",
+    description: "Get recent posts in a kChat channel",
+    input: KChatGetChannelPostsSchema,
+    output: KChatPostListSchema,
+    annotations: READ_ONLY,
+    handler: ({ channel_id, page, per_page }, context) => kchat(context).getChannelPosts(channel_id, page, per_page),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_create_post",
+    description: "Send a message to a kChat channel",
+    input: CreateKChatPostSchema,
+    output: KChatPostSchema,
+    annotations: ADDITIVE,
+    handler: ({ channel_id, message, root_id }, context) => kchat(context).createPost(channel_id, message, root_id),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_delete_post",
+    description: "Delete a kChat post",
+    input: KChatPostIdSchema,
+    output: wrapped(z.unknown()),
+    annotations: DESTRUCTIVE,
+    confirm: async ({ post_id }) => `Delete kChat post ${post_id}?`,
+    handler: ({ post_id }, context) => kchat(context).deletePost(post_id),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_search_posts",
+    description: "Search posts in a kChat team",
+    input: SearchKChatPostsSchema,
+    output: KChatPostListSchema,
+    annotations: READ_ONLY,
+    handler: ({ team_id, terms, is_or_search }, context) => kchat(context).searchPosts(team_id, terms, is_or_search),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_create_direct",
+    description: "Create or get a direct message channel between two users",
+    input: CreateKChatDirectChannelSchema,
+    output: KChatChannelSchema,
+    annotations: { ...ADDITIVE, idempotentHint: true },
+    handler: ({ user_ids }, context) => kchat(context).createDirectChannel(user_ids as [string, string]),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_search_users",
+    description: "Search kChat users by username or name",
+    input: SearchKChatUsersSchema,
+    output: wrapped(z.array(KChatUserSchema)),
+    annotations: READ_ONLY,
+    handler: ({ term }, context) => kchat(context).searchUsers(term),
+  }),
+  defineTool({
+    name: "infomaniak_kchat_list_users",
+    description: "List kChat users, optionally filtered by team or channel",
+    input: ListKChatUsersSchema,
+    output: wrapped(z.array(KChatUserSchema)),
+    annotations: READ_ONLY,
+    handler: ({ in_team_id, in_channel_id }, context) =>
+      kchat(context).listUsers({ inTeamId: in_team_id, inChannelId: in_channel_id }),
+  }),
+] as ToolDefinition[]).map((tool) => ({ ...tool, cached: false }));
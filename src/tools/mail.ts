@@ -0,0 +1,310 @@
+/**
+ * Mail Service Tools
+ */
+
+import { Resolver } from "dns/promises";
+import {
+  AccountIdSchema,
+  AuditEmailAuthSchema,
+  CreateEmailRedirectionSchema,
+  CreateMailboxSchema,
+  DeleteMailboxSchema,
+  EmailRedirectionIdSchema,
+  ForceDnsSchema,
+  ListMailboxFoldersSchema,
+  MailIdSchema,
+  MailboxAliasSchema,
+  MailboxIdSchema,
+  PaginationSchema,
+  SetupEmailAuthSchema,
+  UpdateMailboxAutoresponderSchema,
+  UpdateMailboxSchema,
+} from "../schemas.js";
+import {
+  AutoresponderSettingsSchema,
+  DnsApplySchema,
+  EmailAuthReportSchema,
+  EmailRedirectionSchema,
+  MailServiceSchema,
+  MailboxFolderSchema,
+  MailboxSchema,
+  UntypedOutputSchema,
+  apiResponse,
+  paginatedResponse,
+} from "../output-schemas.js";
+import { InfomaniakClient, MailService, paginate } from "../infomaniak-client.js";
+import { auditEmailAuth, planEmailAuth } from "../email-auth.js";
+import { applyDnsPlan, planSize, planSummary, plannedZone, readDnsZone } from "../dns-plan.js";
+import { assertValidDns, checkDnsChanges } from "../dns-validation.js";
+import {
+  ADDITIVE,
+  DESTRUCTIVE,
+  READ_ONLY,
+  UPDATE,
+  ToolDefinition,
+  createdId,
+  defineTool,
+  nameOf,
+  paginated,
+} from "./registry.js";
+
+/** Delay before giving up on a public DNS query */
+const DNS_TIMEOUT_MS = 3000;
+
+/**
+ * TXT records of a name from public DNS, each joined from its strings
+ */
+async function resolveTxt(name: string): Promise<string[]> {
+  const resolver = new Resolver({ timeout: DNS_TIMEOUT_MS, tries: 1 });
+  return (await resolver.resolveTxt(name)).map((strings) => strings.join(""));
+}
+
+/**
+ * Mail service of a domain: the given one, or the one of the current account serving the domain
+ */
+async function mailServiceOf(
+  client: InfomaniakClient,
+  domain: string,
+  mailId: number | undefined,
+): Promise<MailService | undefined> {
+  if (mailId !== undefined) return (await client.getMailService(mailId)).data;
+  const { data: profile } = await client.getProfile();
+  for await (const service of paginate((page) => client.getMailServices(profile.current_account_id, page))) {
+    if (service.customer_name.toLowerCase() === domain.toLowerCase()) return service;
+  }
+  return undefined;
+}
+
+/**
+ * Plan of the records Infomaniak mail needs, with the validation issues it would introduce
+ */
+async function emailAuthPlan(
+  client: InfomaniakClient,
+  domain: string,
+  setup: { dmarc_policy?: "none" | "quarantine" | "reject"; spf_all?: "-all" | "~all"; rua?: string },
+) {
+  const current = await readDnsZone(client.withOptions({ fresh: true }), domain);
+  const plan = planEmailAuth(domain, current, { policy: setup.dmarc_policy, spfAll: setup.spf_all, rua: setup.rua });
+  return { ...plan, issues: checkDnsChanges(domain, current, plannedZone(current, plan)) };
+}
+
+export const mailTools: ToolDefinition[] = [
+  defineTool({
+    name: "infomaniak_list_mail_services",
+    description: "List all mail services for an account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(MailServiceSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getMailServices(account_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_mail_service",
+    description: "Get detailed information about a mail service",
+    input: MailIdSchema,
+    output: apiResponse(MailServiceSchema),
+    annotations: READ_ONLY,
+    handler: ({ mail_id }, { client }) => client.getMailService(mail_id),
+  }),
+  defineTool({
+    name: "infomaniak_list_mailboxes",
+    description: "List all mailboxes for a mail service",
+    input: MailIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(MailboxSchema),
+    annotations: READ_ONLY,
+    handler: ({ mail_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getMailboxes(mail_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_mailbox",
+    description: "Get detailed information about a specific mailbox",
+    input: MailboxIdSchema,
+    output: apiResponse(MailboxSchema),
+    annotations: READ_ONLY,
+    handler: ({ mail_id, mailbox_id }, { client }) => client.getMailbox(mail_id, mailbox_id),
+  }),
+  defineTool({
+    name: "infomaniak_create_mailbox",
+    description: "Create a new mailbox",
+    input: CreateMailboxSchema,
+    output: apiResponse(MailboxSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://mail/{mail_id}/mailboxes"],
+    handler: ({ mail_id, ...mailbox }, { client }) => client.createMailbox(mail_id, mailbox),
+  }),
+  defineTool({
+    name: "infomaniak_update_mailbox",
+    description: "Update a mailbox (password or size)",
+    input: UpdateMailboxSchema,
+    output: apiResponse(MailboxSchema),
+    annotations: UPDATE,
+    changes: ["infomaniak://mail/{mail_id}/mailboxes"],
+    handler: ({ mail_id, mailbox_id, ...mailbox }, { client }) => client.updateMailbox(mail_id, mailbox_id, mailbox),
+  }),
+  defineTool({
+    name: "infomaniak_delete_mailbox",
+    description: "Delete a mailbox",
+    input: DeleteMailboxSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://mail/{mail_id}/mailboxes"],
+    confirm: async ({ mail_id, mailbox_id }, { client }) => {
+      const name = await nameOf(() => client.getMailbox(mail_id, mailbox_id), "email", String(mailbox_id));
+      return `Delete mailbox ${name} and all its messages?`;
+    },
+    handler: ({ mail_id, mailbox_id }, { client }) => client.deleteMailbox(mail_id, mailbox_id),
+  }),
+  defineTool({
+    name: "infomaniak_add_mailbox_alias",
+    description: "Add an email alias to a mailbox",
+    input: MailboxAliasSchema,
+    output: UntypedOutputSchema,
+    annotations: ADDITIVE,
+    changes: ["infomaniak://mail/{mail_id}/mailboxes"],
+    reversible: {
+      before: async ({ mail_id, mailbox_id }, { client }) => (await client.getMailbox(mail_id, mailbox_id)).data.aliases,
+      inverse: ({ mail_id, mailbox_id, alias }, aliases) =>
+        aliases.includes(alias)
+          ? undefined
+          : { tool: "infomaniak_delete_mailbox_alias", arguments: { mail_id, mailbox_id, alias } },
+    },
+    handler: ({ mail_id, mailbox_id, alias }, { client }) => client.addMailboxAlias(mail_id, mailbox_id, alias),
+  }),
+  defineTool({
+    name: "infomaniak_delete_mailbox_alias",
+    description: "Delete an email alias from a mailbox",
+    input: MailboxAliasSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://mail/{mail_id}/mailboxes"],
+    confirm: async ({ mailbox_id, alias }) => `Remove alias ${alias} from mailbox ${mailbox_id}?`,
+    reversible: {
+      before: async ({ mail_id, mailbox_id }, { client }) => (await client.getMailbox(mail_id, mailbox_id)).data.aliases,
+      inverse: ({ mail_id, mailbox_id, alias }, aliases) =>
+        aliases.includes(alias)
+          ? { tool: "infomaniak_add_mailbox_alias", arguments: { mail_id, mailbox_id, alias } }
+          : undefined,
+    },
+    handler: ({ mail_id, mailbox_id, alias }, { client }) => client.deleteMailboxAlias(mail_id, mailbox_id, alias),
+  }),
+  defineTool({
+    name: "infomaniak_list_email_redirections",
+    description: "List all email redirections for a mail service",
+    input: MailIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(EmailRedirectionSchema),
+    annotations: READ_ONLY,
+    handler: ({ mail_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getEmailRedirections(mail_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_create_email_redirection",
+    description: "Create an email redirection",
+    input: CreateEmailRedirectionSchema,
+    output: apiResponse(EmailRedirectionSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://mail/{mail_id}/redirections"],
+    reversible: {
+      inverse: ({ mail_id }, _before, result) => {
+        const redirection_id = createdId(result);
+        return redirection_id
+          ? { tool: "infomaniak_delete_email_redirection", arguments: { mail_id, redirection_id } }
+          : undefined;
+      },
+    },
+    handler: ({ mail_id, ...redirection }, { client }) => client.createEmailRedirection(mail_id, redirection),
+  }),
+  defineTool({
+    name: "infomaniak_delete_email_redirection",
+    description: "Delete an email redirection",
+    input: EmailRedirectionIdSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://mail/{mail_id}/redirections"],
+    confirm: async ({ mail_id, redirection_id }) => `Delete redirection ${redirection_id} of mail service ${mail_id}?`,
+    reversible: {
+      before: async ({ mail_id, redirection_id }, { client }) => {
+        for await (const redirection of paginate((page) => client.getEmailRedirections(mail_id, page))) {
+          if (redirection.id === redirection_id) return redirection;
+        }
+        return undefined;
+      },
+      inverse: ({ mail_id }, redirection) =>
+        redirection && {
+          tool: "infomaniak_create_email_redirection",
+          arguments: { mail_id, from: redirection.from, to: redirection.to, keep_copy: redirection.keep_copy },
+        },
+    },
+    handler: ({ mail_id, redirection_id }, { client }) => client.deleteEmailRedirection(mail_id, redirection_id),
+  }),
+  defineTool({
+    name: "infomaniak_get_mailbox_autoresponder",
+    description: "Get the autoresponder (out-of-office) settings for a mailbox",
+    input: MailboxIdSchema,
+    output: apiResponse(AutoresponderSettingsSchema),
+    annotations: READ_ONLY,
+    handler: ({ mail_id, mailbox_id }, { client }) => client.getMailboxAutoresponder(mail_id, mailbox_id),
+  }),
+  defineTool({
+    name: "infomaniak_update_mailbox_autoresponder",
+    description: "Enable or update the autoresponder for a mailbox",
+    input: UpdateMailboxAutoresponderSchema,
+    output: apiResponse(AutoresponderSettingsSchema),
+    annotations: UPDATE,
+    reversible: {
+      before: async ({ mail_id, mailbox_id }, { client }) =>
+        (await client.getMailboxAutoresponder(mail_id, mailbox_id)).data,
+      inverse: ({ mail_id, mailbox_id }, settings) => ({
+        tool: "infomaniak_update_mailbox_autoresponder",
+        arguments: { mail_id, mailbox_id, ...settings },
+      }),
+    },
+    handler: ({ mail_id, mailbox_id, ...settings }, { client }) =>
+      client.updateMailboxAutoresponder(mail_id, mailbox_id, settings),
+  }),
+  defineTool({
+    name: "infomaniak_list_mailbox_folders",
+    description: "List folders in a mailbox",
+    input: ListMailboxFoldersSchema.merge(PaginationSchema),
+    output: paginatedResponse(MailboxFolderSchema),
+    annotations: READ_ONLY,
+    handler: ({ mail_id, mailbox_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.listMailboxFolders(mail_id, mailbox_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_audit_email_auth",
+    description:
+      "Audit the SPF, DMARC and DKIM records of a domain: multiple SPF records, more than 10 SPF lookups, missing DMARC " +
+      "policy, revoked DKIM keys... and check the MX and SPF records match the Infomaniak mail service of the domain",
+    input: AuditEmailAuthSchema,
+    output: EmailAuthReportSchema,
+    annotations: READ_ONLY,
+    handler: async ({ domain, mail_id, resolve_includes }, { client }) => {
+      const records = await readDnsZone(client, domain);
+      const mailService = await mailServiceOf(client, domain, mail_id);
+      return auditEmailAuth(domain, records, {
+        mailService,
+        resolveTxt: resolve_includes === false ? undefined : resolveTxt,
+      });
+    },
+  }),
+  defineTool({
+    name: "infomaniak_setup_email_auth",
+    description:
+      "Create or fix the MX, SPF and DMARC records of a domain for Infomaniak mail. Other SPF mechanisms and the qualifier " +
+      "of its all are kept, unless it lets any server pass, several SPF records are merged into one, the DMARC policy " +
+      "and other tags are kept unless given, and MX records pointing elsewhere are replaced. DKIM keys are published by the mail service.",
+    input: SetupEmailAuthSchema.merge(ForceDnsSchema),
+    output: DnsApplySchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://domain/{domain}/dns"],
+    confirm: async ({ domain, ...setup }, { client }) => {
+      const plan = await emailAuthPlan(client, domain, setup);
+      return planSize(plan) > 0 ? `Update the email authentication records of ${domain}: ${planSummary(plan)}?` : undefined;
+    },
+    handler: async ({ domain, force, ...setup }, { client }) => {
+      const plan = await emailAuthPlan(client, domain, setup);
+      if (!force) assertValidDns(plan.issues, `set up email authentication for ${domain}`);
+      return { ...plan, ...(await applyDnsPlan(client, plan)) };
+    },
+  }),
+];
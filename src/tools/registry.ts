@@ -0,0 +1,259 @@
+/**
+ * Tool Registry
+ *
+ * Each tool pairs the Zod schema validating its arguments, the Zod schema of
+ * its structured output, and the handler calling the API clients. The JSON
+ * schemas advertised to MCP clients are generated from the Zod schemas, so
+ * validation and documentation cannot drift apart.
+ */
+
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { Tool, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { ApiResponse, InfomaniakClient, PaginationOptions, hasMorePages } from "../infomaniak-client.js";
+import { KChatClient } from "../kchat-client.js";
+import { AuditLog } from "../audit.js";
+import { ChangeJournal, ToolCall } from "../journal.js";
+import { DnsTemplate } from "../dns-templates.js";
+import { DryRunPreviewSchema, TaskResultSchema } from "../output-schemas.js";
+import { TaskState } from "../tasks.js";
+
+export interface ToolContext {
+  client: InfomaniakClient<boolean>;
+  kchatClient?: KChatClient | null;
+  audit?: AuditLog;
+  journal?: ChangeJournal;
+  /** DNS templates infomaniak_apply_dns_template can apply (default: the built-in ones) */
+  dnsTemplates?: DnsTemplate[];
+  /** Run another tool with the same clients and policy, without confirmation */
+  callTool?: (call: ToolCall) => Promise<unknown>;
+}
+
+/**
+ * Behaviour hints clients rely on to decide whether a tool can be auto-approved.
+ * All four are required so that no tool is registered without them.
+ */
+export type ToolHints = Required<
+  Pick<ToolAnnotations, "readOnlyHint" | "destructiveHint" | "idempotentHint" | "openWorldHint">
+>;
+
+/** Reads data without side effects */
+export const READ_ONLY: ToolHints = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
+/** Creates something new without touching existing data; repeating it creates it again */
+export const ADDITIVE: ToolHints = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+/** Overwrites existing data with the given values, which can be set back; repeating it changes nothing more */
+export const UPDATE: ToolHints = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
+/** Removes data or interrupts a running service */
+export const DESTRUCTIVE: ToolHints = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
+/**
+ * How to revert a call, recorded in the change journal
+ */
+export interface Reversible<A, B> {
+  /** Fetch the state the call is about to change */
+  before?: (args: A, context: ToolContext) => Promise<B>;
+  /** Tool call restoring the previous state, or undefined when there is nothing to revert */
+  inverse: (args: A, before: B, result: unknown) => ToolCall | undefined;
+}
+
+/**
+ * How to follow the work a call starts upstream, for calls made with `wait: true`
+ */
+export interface LongRunning<A, W> {
+  /** Read what the polls compare with, before the call is sent */
+  before?: (args: A, context: ToolContext) => Promise<W>;
+  /** Read the affected resource and tell whether the work is complete */
+  poll: (args: A, context: ToolContext, before: W, result: unknown) => Promise<TaskState>;
+}
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject, B = unknown, W = unknown> {
+  name: string;
+  description: string;
+  /** Arguments schema, used for validation and to generate `inputSchema` */
+  input: S;
+  /** Structured result schema, used to generate `outputSchema` */
+  output: z.AnyZodObject;
+  annotations: ToolHints;
+  /** Whether the reads of the tool go through the response cache (default: true) */
+  cached?: boolean;
+  /** For tools that are not read-only in general, whether a given call only reads (allowed in read-only mode) */
+  readOnlyWhen?: (args: z.infer<S>) => boolean;
+  /**
+   * Question naming the affected resource, asked to the user before running the tool.
+   * Resolves to undefined when this call needs no confirmation.
+   */
+  confirm?: (args: z.infer<S>, context: ToolContext) => Promise<string | undefined>;
+  reversible?: Reversible<z.infer<S>, B>;
+  /**
+   * Resources a successful call may change, as URIs of resource definitions whose variables match the arguments,
+   * e.g. `infomaniak://domain/{domain}/dns`. Tools replaying another call return that call instead.
+   */
+  changes?: string[] | ((args: z.infer<S>, result: unknown) => ToolCall | undefined);
+  longRunning?: LongRunning<z.infer<S>, W>;
+  handler: (args: z.infer<S>, context: ToolContext) => Promise<unknown>;
+}
+
+/**
+ * Declare a tool, inferring the handler argument type from its input schema
+ */
+export function defineTool<S extends z.AnyZodObject, B, W>(definition: ToolDefinition<S, B, W>): ToolDefinition {
+  return definition as unknown as ToolDefinition;
+}
+
+const DryRunArgsSchema = z.object({
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe("Return the HTTP request that would be sent, with the current state where available, without sending it"),
+});
+
+const FreshArgsSchema = z.object({
+  fresh: z.boolean().optional().describe("Bypass the response cache and fetch current data from the API"),
+});
+
+const ConfirmArgsSchema = z.object({
+  confirm: z
+    .boolean()
+    .optional()
+    .describe("Set to true once the user has approved the operation, for clients that cannot ask for confirmation"),
+});
+
+const WaitArgsSchema = z.object({
+  wait: z
+    .boolean()
+    .optional()
+    .describe("Wait until the operation started by the call is complete, reporting progress, and return the final state"),
+  wait_timeout: z
+    .number()
+    .int()
+    .positive()
+    .max(3600)
+    .optional()
+    .describe("Seconds to wait before returning with a timeout status (default: 300)"),
+});
+
+/**
+ * Arguments accepted by a tool: its input schema, plus `dry_run` for tools that can change something,
+ * `fresh` for tools reading from the API through the response cache, `confirm` for tools that ask for confirmation and `wait`
+ * for tools starting long-running operations
+ */
+export function toolInput(definition: ToolDefinition): z.AnyZodObject {
+  const { readOnlyHint, openWorldHint } = definition.annotations;
+  let input = definition.input;
+  if (!readOnlyHint) input = input.merge(DryRunArgsSchema);
+  if (readOnlyHint && openWorldHint && definition.cached !== false) input = input.merge(FreshArgsSchema);
+  if (definition.confirm) input = input.merge(ConfirmArgsSchema);
+  if (definition.longRunning) input = input.merge(WaitArgsSchema);
+  return input;
+}
+
+/**
+ * Structured result of a tool: its output schema, or a dry-run preview for tools that can change something,
+ * along with the outcome of the wait for tools starting long-running operations
+ */
+export function toolOutput(definition: ToolDefinition): z.AnyZodObject {
+  if (definition.annotations.readOnlyHint) return definition.output;
+  return definition.output.partial().extend({
+    dry_run: DryRunPreviewSchema.optional(),
+    ...(definition.longRunning && { task: TaskResultSchema.optional() }),
+  });
+}
+
+/**
+ * Return the kChat client, failing with a configuration hint when it is not set up
+ */
+export function kchat(context: ToolContext): KChatClient {
+  if (!context.kchatClient) {
+    throw new Error("kChat is not configured. Set KCHAT_HOST and KCHAT_TOKEN environment variables.");
+  }
+  return context.kchatClient;
+}
+
+/**
+ * Best-effort display name of a resource for confirmation questions, falling back when it cannot be fetched
+ */
+export async function nameOf(
+  fetch: () => Promise<{ data?: unknown }>,
+  field: string,
+  fallback: string,
+): Promise<string> {
+  try {
+    const { data } = await fetch();
+    const value = (data as Record<string, unknown> | undefined)?.[field];
+    return typeof value === "string" && value ? `\`${value}\`` : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Fetch the page of a list endpoint selected by the `limit` and `cursor` tool arguments,
+ * and report whether more items follow
+ */
+export async function paginated<T>(
+  { limit, cursor }: { limit?: number; cursor?: string },
+  list: (pagination: PaginationOptions) => Promise<ApiResponse<T[]>>,
+) {
+  const page = cursor ? Number(cursor) : 1;
+  const response = await list({ ...(cursor && { page }), ...(limit && { per_page: limit }) });
+  const hasMore = hasMorePages(response, page, limit);
+  return { ...response, has_more: hasMore, ...(hasMore && { next_cursor: String(page + 1) }) };
+}
+
+/**
+ * ID of the resource returned by a create call
+ */
+export function createdId(result: unknown): number | undefined {
+  const id = (result as { data?: { id?: unknown } } | undefined)?.data?.id;
+  return typeof id === "number" ? id : undefined;
+}
+
+/**
+ * Convert a Zod object schema to the JSON Schema shape expected in MCP tool definitions
+ */
+export function toJsonSchema(schema: z.AnyZodObject): Tool["inputSchema"] {
+  const jsonSchema = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+    // 'strict' maps Zod's default key stripping to `additionalProperties: true`,
+    // so fields added upstream don't fail client-side validation
+    removeAdditionalStrategy: "strict",
+  }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return jsonSchema as Tool["inputSchema"];
+}
+
+/**
+ * Build the MCP tool definition advertised in `tools/list`
+ */
+export function toMcpTool(definition: ToolDefinition): Tool {
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: toJsonSchema(toolInput(definition)),
+    outputSchema: toJsonSchema(toolOutput(definition)),
+    annotations: definition.annotations,
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Cloud Storage Tools (kDrive & Swiss Backup)
+ */
+
+import {
+  AccountIdSchema,
+  BackupIdSchema,
+  CreateKDriveDirectorySchema,
+  DriveIdSchema,
+  KDriveActivitySchema as KDriveActivityArgsSchema,
+  KDriveFavoriteFileSchema,
+  KDriveFavoritesSchema,
+  KDriveFileIdSchema,
+  KDriveFileVersionsSchema,
+  KDriveRestoreFileSchema,
+  KDriveTrashSchema,
+  ListKDriveFilesSchema,
+  MoveOrCopyKDriveFileSchema,
+  PaginationSchema,
+  RenameKDriveFileSchema,
+  SearchKDriveFilesSchema,
+  ShareKDriveFileSchema,
+} from "../schemas.js";
+import {
+  KDriveActivitySchema,
+  KDriveFileSchema,
+  KDriveFileVersionSchema,
+  KDriveSchema,
+  KDriveShareLinkSchema,
+  SwissBackupSchema,
+  SwissBackupSlotSchema,
+  UntypedOutputSchema,
+  apiResponse,
+  paginatedResponse,
+} from "../output-schemas.js";
+import { ADDITIVE, DESTRUCTIVE, READ_ONLY, UPDATE, ToolDefinition, defineTool, nameOf, paginated } from "./registry.js";
+
+export const storageTools: ToolDefinition[] = [
+  // kDrive
+  defineTool({
+    name: "infomaniak_list_kdrives",
+    description: "List all kDrives for an account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(KDriveSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getKDrives(account_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_kdrive",
+    description: "Get detailed information about a kDrive",
+    input: DriveIdSchema,
+    output: apiResponse(KDriveSchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id }, { client }) => client.getKDrive(drive_id),
+  }),
+  defineTool({
+    name: "infomaniak_list_kdrive_files",
+    description: "List files in a kDrive directory",
+    input: ListKDriveFilesSchema.merge(PaginationSchema),
+    output: paginatedResponse(KDriveFileSchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id, parent_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.listKDriveFiles(drive_id, parent_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_kdrive_file",
+    description: "Get details about a file or directory in kDrive",
+    input: KDriveFileIdSchema,
+    output: apiResponse(KDriveFileSchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id, file_id }, { client }) => client.getKDriveFile(drive_id, file_id),
+  }),
+  defineTool({
+    name: "infomaniak_search_kdrive_files",
+    description: "Search for files in a kDrive",
+    input: SearchKDriveFilesSchema.merge(PaginationSchema),
+    output: paginatedResponse(KDriveFileSchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id, query, ...page }, { client }) =>
+      paginated(page, (pagination) => client.searchKDriveFiles(drive_id, query, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_create_kdrive_directory",
+    description: "Create a new directory in a kDrive",
+    input: CreateKDriveDirectorySchema,
+    output: apiResponse(KDriveFileSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://kdrive/{drive_id}/files"],
+    handler: ({ drive_id, ...directory }, { client }) => client.createKDriveDirectory(drive_id, directory),
+  }),
+  defineTool({
+    name: "infomaniak_move_kdrive_file",
+    description: "Move a file or directory to another location in kDrive",
+    input: MoveOrCopyKDriveFileSchema,
+    output: apiResponse(KDriveFileSchema),
+    annotations: UPDATE,
+    changes: ["infomaniak://kdrive/{drive_id}/files", "infomaniak://kdrive/{drive_id}/file/{file_id}"],
+    handler: ({ drive_id, file_id, destination_directory_id }, { client }) =>
+      client.moveKDriveFile(drive_id, file_id, destination_directory_id),
+  }),
+  defineTool({
+    name: "infomaniak_copy_kdrive_file",
+    description: "Copy a file or directory in kDrive",
+    input: MoveOrCopyKDriveFileSchema,
+    output: apiResponse(KDriveFileSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://kdrive/{drive_id}/files"],
+    handler: ({ drive_id, file_id, destination_directory_id }, { client }) =>
+      client.copyKDriveFile(drive_id, file_id, destination_directory_id),
+  }),
+  defineTool({
+    name: "infomaniak_rename_kdrive_file",
+    description: "Rename a file or directory in kDrive",
+    input: RenameKDriveFileSchema,
+    output: apiResponse(KDriveFileSchema),
+    annotations: UPDATE,
+    changes: ["infomaniak://kdrive/{drive_id}/files", "infomaniak://kdrive/{drive_id}/file/{file_id}"],
+    handler: ({ drive_id, file_id, name }, { client }) => client.renameKDriveFile(drive_id, file_id, name),
+  }),
+  defineTool({
+    name: "infomaniak_delete_kdrive_file",
+    description: "Delete a file or directory from kDrive",
+    input: KDriveFileIdSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    changes: ["infomaniak://kdrive/{drive_id}/files"],
+    confirm: async ({ drive_id, file_id }, { client }) => {
+      const name = await nameOf(() => client.getKDriveFile(drive_id, file_id), "name", `file ${file_id}`);
+      return `Move ${name} of kDrive ${drive_id} to the trash?`;
+    },
+    handler: ({ drive_id, file_id }, { client }) => client.deleteKDriveFile(drive_id, file_id),
+  }),
+  defineTool({
+    name: "infomaniak_share_kdrive_file",
+    description: "Create a shareable link for a file or directory in kDrive",
+    input: ShareKDriveFileSchema,
+    output: apiResponse(KDriveShareLinkSchema),
+    annotations: ADDITIVE,
+    changes: ["infomaniak://kdrive/{drive_id}/file/{file_id}"],
+    handler: ({ drive_id, file_id, ...options }, { client }) => client.shareKDriveFile(drive_id, file_id, options),
+  }),
+  defineTool({
+    name: "infomaniak_list_kdrive_trash",
+    description: "List files in the kDrive trash",
+    input: KDriveTrashSchema.merge(PaginationSchema),
+    output: paginatedResponse(KDriveFileSchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.listKDriveTrash(drive_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_restore_kdrive_file",
+    description: "Restore a file from the kDrive trash",
+    input: KDriveRestoreFileSchema,
+    output: apiResponse(KDriveFileSchema),
+    annotations: { ...ADDITIVE, idempotentHint: true },
+    changes: ["infomaniak://kdrive/{drive_id}/files", "infomaniak://kdrive/{drive_id}/file/{file_id}"],
+    handler: ({ drive_id, file_id }, { client }) => client.restoreKDriveFile(drive_id, file_id),
+  }),
+  defineTool({
+    name: "infomaniak_empty_kdrive_trash",
+    description: "Permanently delete all files in the kDrive trash",
+    input: KDriveTrashSchema,
+    output: UntypedOutputSchema,
+    annotations: DESTRUCTIVE,
+    confirm: async ({ drive_id }) => `Permanently delete every file in the trash of kDrive ${drive_id}?`,
+    longRunning: {
+      poll: async ({ drive_id }, { client }) => {
+        const { data, total } = await client.listKDriveTrash(drive_id, { per_page: 1 });
+        const left = total ?? data.length;
+        return { done: left === 0, message: left === 0 ? "The trash is empty" : `${left} files left in the trash` };
+      },
+    },
+    handler: ({ drive_id }, { client }) => client.emptyKDriveTrash(drive_id),
+  }),
+  defineTool({
+    name: "infomaniak_list_kdrive_file_versions",
+    description: "List version history of a file in kDrive",
+    input: KDriveFileVersionsSchema.merge(PaginationSchema),
+    output: paginatedResponse(KDriveFileVersionSchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id, file_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.listKDriveFileVersions(drive_id, file_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_kdrive_activity",
+    description: "Get activity log for a kDrive or a specific file",
+    input: KDriveActivityArgsSchema.merge(PaginationSchema),
+    output: paginatedResponse(KDriveActivitySchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id, file_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getKDriveActivity(drive_id, file_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_add_kdrive_favorite",
+    description: "Add a file or directory to kDrive favorites",
+    input: KDriveFavoriteFileSchema,
+    output: UntypedOutputSchema,
+    annotations: { ...ADDITIVE, idempotentHint: true },
+    changes: ["infomaniak://kdrive/{drive_id}/file/{file_id}"],
+    handler: ({ drive_id, file_id }, { client }) => client.addKDriveFavorite(drive_id, file_id),
+  }),
+  defineTool({
+    name: "infomaniak_remove_kdrive_favorite",
+    description: "Remove a file or directory from kDrive favorites",
+    input: KDriveFavoriteFileSchema,
+    output: UntypedOutputSchema,
+    annotations: { ...ADDITIVE, idempotentHint: true },
+    changes: ["infomaniak://kdrive/{drive_id}/file/{file_id}"],
+    handler: ({ drive_id, file_id }, { client }) => client.removeKDriveFavorite(drive_id, file_id),
+  }),
+  defineTool({
+    name: "infomaniak_list_kdrive_favorites",
+    description: "List favorite files in a kDrive",
+    input: KDriveFavoritesSchema.merge(PaginationSchema),
+    output: paginatedResponse(KDriveFileSchema),
+    annotations: READ_ONLY,
+    handler: ({ drive_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.listKDriveFavorites(drive_id, pagination)),
+  }),
+
+  // Swiss Backup
+  defineTool({
+    name: "infomaniak_list_swiss_backups",
+    description: "List all Swiss Backup products for an account",
+    input: AccountIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(SwissBackupSchema),
+    annotations: READ_ONLY,
+    handler: ({ account_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getSwissBackups(account_id, pagination)),
+  }),
+  defineTool({
+    name: "infomaniak_get_swiss_backup",
+    description: "Get detailed information about a Swiss Backup product",
+    input: BackupIdSchema,
+    output: apiResponse(SwissBackupSchema),
+    annotations: READ_ONLY,
+    handler: ({ backup_id }, { client }) => client.getSwissBackup(backup_id),
+  }),
+  defineTool({
+    name: "infomaniak_list_swiss_backup_slots",
+    description: "List all slots for a Swiss Backup product",
+    input: BackupIdSchema.merge(PaginationSchema),
+    output: paginatedResponse(SwissBackupSlotSchema),
+    annotations: READ_ONLY,
+    handler: ({ backup_id, ...page }, { client }) =>
+      paginated(page, (pagination) => client.getSwissBackupSlots(backup_id, pagination)),
+  }),
+];
@@ -14,7 +14,7 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { InfomaniakClient } from "../infomaniak-client.js";
 import { KChatClient } from "../kchat-client.js";
-import { createMcpServer } from "../server.js";
+import { McpServerOptions, createMcpServer } from "../server.js";
 
 export interface HttpServerOptions {
   /** Port to listen on (default: 3000) */
@@ -36,11 +36,13 @@ const activeSessions = new Map<string, StreamableHTTPServerTransport>();
  * @param client - The Infomaniak API client
  * @param options - HTTP server configuration options
  * @param kchatClient - Optional kChat API client
+ * @param serverOptions - MCP server options such as the tool policy
  */
 export async function startHttpServer(
-  client: InfomaniakClient,
+  client: InfomaniakClient<boolean>,
   options: HttpServerOptions = {},
   kchatClient?: KChatClient | null,
+  serverOptions: McpServerOptions = {},
 ): Promise<void> {
   const port = options.port ?? 3000;
   const host = options.host ?? "0.0.0.0";
@@ -83,7 +85,7 @@ export async function startHttpServer(
       });
 
       // Create and connect the MCP server for this session
-      const server = createMcpServer(client, kchatClient);
+      const server = createMcpServer(client, kchatClient, serverOptions);
       await server.connect(transport);
 
       // Store session immediately if stateful mode (before handleRequest)
@@ -8,19 +8,21 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { InfomaniakClient } from "../infomaniak-client.js";
 import { KChatClient } from "../kchat-client.js";
-import { createMcpServer } from "../server.js";
+import { McpServerOptions, createMcpServer } from "../server.js";
 
 /**
  * Start the MCP server with stdio transport
  *
  * @param client - The Infomaniak API client
  * @param kchatClient - Optional kChat API client
+ * @param serverOptions - MCP server options such as the tool policy
  */
 export async function startStdioServer(
-  client: InfomaniakClient,
+  client: InfomaniakClient<boolean>,
   kchatClient?: KChatClient | null,
+  serverOptions: McpServerOptions = {},
 ): Promise<void> {
-  const server = createMcpServer(client, kchatClient);
+  const server = createMcpServer(client, kchatClient, serverOptions);
   const transport = new StdioServerTransport();
 
   await server.connect(transport);
@@ -0,0 +1,144 @@
+/**
+ * Tests for response validation
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { UpstreamError } from './errors.js';
+import { InfomaniakClient } from './infomaniak-client.js';
+import { ResponseValidator, parseValidationMode } from './validation.js';
+
+const RecordSchema = z.object({ id: z.number(), target: z.string(), priority: z.number().optional() });
+const schemas = {
+  'GET /records/{domain}': z.object({ data: z.array(RecordSchema) }),
+  'GET /posts': z.object({ posts: z.record(RecordSchema) }),
+};
+
+describe('ResponseValidator', () => {
+  let logged: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should accept responses matching the schema', () => {
+    const validator = new ResponseValidator('infomaniak', schemas);
+
+    validator.check('GET', '/records/example.com', { data: [{ id: 1, target: '1.2.3.4' }] });
+
+    expect(validator.report()).toEqual({ validation: 'lenient', drift: [] });
+    expect(logged).not.toHaveBeenCalled();
+  });
+
+  it('should report missing, unexpected and invalid fields once per field', () => {
+    const validator = new ResponseValidator('infomaniak', schemas);
+
+    validator.check('GET', '/records/example.com', {
+      data: [
+        { id: 1, ttl: 3600 },
+        { id: '2', target: 'a', ttl: 60 },
+      ],
+    });
+
+    expect(validator.report().drift).toEqual([
+      expect.objectContaining({ endpoint: 'GET /records/{domain}', field: 'data[].target', kind: 'missing', count: 1 }),
+      expect.objectContaining({ field: 'data[].ttl', kind: 'unexpected', detail: 'number', count: 1 }),
+      expect.objectContaining({ field: 'data[].id', kind: 'invalid', detail: 'Expected number, received string' }),
+    ]);
+    expect(logged).toHaveBeenCalledTimes(3);
+    expect(logged).toHaveBeenCalledWith('API drift on infomaniak GET /records/{domain}: data[].target is missing');
+  });
+
+  it('should count repeated drift without logging it again', () => {
+    const validator = new ResponseValidator('kchat', schemas);
+
+    validator.check('GET', '/posts', { posts: { a: { id: 1, target: 'x', extra: true } } });
+    validator.check('GET', '/posts', { posts: { b: { id: 2, target: 'y', extra: false } } });
+
+    expect(validator.report().drift).toEqual([
+      expect.objectContaining({ service: 'kchat', field: 'posts{}.extra', kind: 'unexpected', count: 2 }),
+    ]);
+    expect(logged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore endpoints without a schema', () => {
+    const validator = new ResponseValidator('infomaniak', schemas);
+
+    validator.check('POST', '/records/example.com', { anything: true });
+    validator.check('GET', '/records/example.com/1', { anything: true });
+
+    expect(validator.report().drift).toEqual([]);
+  });
+
+  it('should throw in strict mode', () => {
+    const validator = new ResponseValidator('infomaniak', schemas, 'strict');
+
+    const check = () => validator.check('GET', '/records/example.com', { data: 'none' }, 200);
+
+    expect(check).toThrow(UpstreamError);
+    expect(check).toThrow('does not match its schema: data is invalid (expected array, received string)');
+    expect(validator.report().drift).toEqual([expect.objectContaining({ field: 'data', count: 2 })]);
+    expect(logged).not.toHaveBeenCalled();
+  });
+
+  it('should check nothing when off', () => {
+    const validator = new ResponseValidator('infomaniak', schemas, 'off');
+
+    validator.check('GET', '/records/example.com', null);
+
+    expect(validator.report()).toEqual({ validation: 'off', drift: [] });
+  });
+});
+
+describe('InfomaniakClient response validation', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ result: 'success', data: { id: 1, source: '@', type: 'A', target: '1.2.3.4', ttl: '3600' } })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should return drifted responses in lenient mode and report the drift', async () => {
+    const client = new InfomaniakClient({ token: 'token', cache: false, maxAttempts: 1 });
+
+    const response = await client.createDnsRecord('example.com', { source: '@', type: 'A', target: '1.2.3.4' });
+
+    expect(response.data.ttl).toBe('3600');
+    expect(client.getApiDrift().drift).toEqual([
+      expect.objectContaining({ endpoint: 'POST /1/domain/{domain}/dns/record', field: 'data.ttl', kind: 'invalid' }),
+    ]);
+  });
+
+  it('should fail drifted responses in strict mode', async () => {
+    const client = new InfomaniakClient({ token: 'token', cache: false, maxAttempts: 1, validation: 'strict' });
+
+    await expect(client.createDnsRecord('example.com', { source: '@', type: 'A', target: '1.2.3.4' })).rejects.toMatchObject({
+      code: 'upstream_error',
+      status: 200,
+      retryable: false,
+    });
+  });
+});
+
+describe('parseValidationMode', () => {
+  it('should default to lenient', () => {
+    expect(parseValidationMode(undefined)).toBe('lenient');
+    expect(parseValidationMode('strict')).toBe('strict');
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => parseValidationMode('loud')).toThrow('Invalid response validation mode "loud"');
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Response Validation
+ *
+ * Checks upstream responses against the Zod schemas of the client response
+ * types, to notice when the API drifts from what the tools expect: fields it
+ * stopped sending, new fields, or fields whose type changed. In lenient mode
+ * drift is logged and kept for the diagnostics tool; in strict mode, meant for
+ * tests, a drifted response fails the call.
+ */
+
+import { z } from 'zod';
+import { FailedResponse, UpstreamError } from './errors.js';
+import {
+  AccountSchema,
+  AutoresponderSettingsSchema,
+  CronJobSchema,
+  DatabaseSchema,
+  DedicatedServerSchema,
+  DnsRecordSchema,
+  DomainNameserverSchema,
+  DomainSchema,
+  EmailRedirectionSchema,
+  FtpAccountSchema,
+  InvoiceSchema,
+  KChatChannelSchema,
+  KChatPostListSchema,
+  KChatPostSchema,
+  KChatTeamSchema,
+  KChatUserSchema,
+  KDriveActivitySchema,
+  KDriveFileSchema,
+  KDriveFileVersionSchema,
+  KDriveSchema,
+  KDriveShareLinkSchema,
+  MailServiceSchema,
+  MailboxFolderSchema,
+  MailboxSchema,
+  ProductSchema,
+  ProfileSchema,
+  SiteSchema,
+  SslCertificateSchema,
+  SwissBackupSchema,
+  SwissBackupSlotSchema,
+  VpsSchema,
+  WebHostingSchema,
+  apiResponse,
+} from './output-schemas.js';
+
+export type ValidationMode = 'off' | 'lenient' | 'strict';
+
+/**
+ * - `missing`: a required field is absent
+ * - `unexpected`: the response has a field the schema does not know
+ * - `invalid`: a field has another type than expected
+ */
+export type DriftKind = 'missing' | 'unexpected' | 'invalid';
+
+export interface ApiDrift {
+  service: FailedResponse['service'];
+  /** Method and path template, e.g. `GET /1/domain/{domain}/dns/record` */
+  endpoint: string;
+  /** Field path, with `[]` for array items and `{}` for record values, e.g. `data[].ttl` */
+  field: string;
+  kind: DriftKind;
+  /** Type received, or why the value was rejected */
+  detail?: string;
+  /** Number of responses showing it */
+  count: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface DriftReport {
+  validation: ValidationMode;
+  drift: ApiDrift[];
+}
+
+/**
+ * Schemas of the response bodies, keyed by method and path template. Placeholders
+ * match one path segment; the first matching template wins.
+ */
+export type ResponseSchemas = Record<string, z.ZodTypeAny>;
+
+/** Envelope of list endpoints, with their pagination fields */
+function list<T extends z.ZodTypeAny>(item: T) {
+  return apiResponse(z.array(item)).extend({
+    total: z.number().optional(),
+    page: z.number().optional(),
+    pages: z.number().optional(),
+    items_per_page: z.number().optional(),
+  });
+}
+
+export const INFOMANIAK_RESPONSE_SCHEMAS: ResponseSchemas = {
+  'GET /1/profile': apiResponse(ProfileSchema),
+  'GET /1/account': list(AccountSchema),
+  'GET /1/account/{account}': apiResponse(AccountSchema),
+  'GET /1/account/{account}/product': list(ProductSchema),
+
+  'GET /1/domain/account/{account}': list(DomainSchema),
+  'GET /1/domain/account/{account}/domain/{domain}': apiResponse(DomainSchema),
+  'GET /1/domain/{domain}/nameserver': list(DomainNameserverSchema),
+  'GET /1/domain/{domain}/dns/record': list(DnsRecordSchema),
+  'POST /1/domain/{domain}/dns/record': apiResponse(DnsRecordSchema),
+  'PUT /1/domain/{domain}/dns/record/{record}': apiResponse(DnsRecordSchema),
+
+  'GET /1/mail': list(MailServiceSchema),
+  'GET /1/mail/{mail}': apiResponse(MailServiceSchema),
+  'GET /1/mail/{mail}/mailbox': list(MailboxSchema),
+  'POST /1/mail/{mail}/mailbox': apiResponse(MailboxSchema),
+  'GET /1/mail/{mail}/mailbox/{mailbox}': apiResponse(MailboxSchema),
+  'PUT /1/mail/{mail}/mailbox/{mailbox}': apiResponse(MailboxSchema),
+  'GET /1/mail/{mail}/mailbox/{mailbox}/autoresponder': apiResponse(AutoresponderSettingsSchema),
+  'PUT /1/mail/{mail}/mailbox/{mailbox}/autoresponder': apiResponse(AutoresponderSettingsSchema),
+  'GET /1/mail/{mail}/mailbox/{mailbox}/folder': list(MailboxFolderSchema),
+  'GET /1/mail/{mail}/redirection': list(EmailRedirectionSchema),
+  'POST /1/mail/{mail}/redirection': apiResponse(EmailRedirectionSchema),
+
+  'GET /1/web': list(WebHostingSchema),
+  'GET /1/web/{hosting}': apiResponse(WebHostingSchema),
+  'GET /1/web/{hosting}/site': list(SiteSchema),
+  'POST /1/web/{hosting}/site': apiResponse(SiteSchema),
+  'GET /1/web/{hosting}/site/{site}': apiResponse(SiteSchema),
+  'PUT /1/web/{hosting}/site/{site}': apiResponse(SiteSchema),
+  'GET /1/web/{hosting}/database': list(DatabaseSchema),
+  'POST /1/web/{hosting}/database': apiResponse(DatabaseSchema),
+  'GET /1/web/{hosting}/database/{database}': apiResponse(DatabaseSchema),
+  'GET /1/web/{hosting}/cron': list(CronJobSchema),
+  'POST /1/web/{hosting}/cron': apiResponse(CronJobSchema),
+  'PUT /1/web/{hosting}/cron/{cron}': apiResponse(CronJobSchema),
+  'GET /1/web/{hosting}/ftp': list(FtpAccountSchema),
+  'POST /1/web/{hosting}/ftp': apiResponse(FtpAccountSchema),
+  'PUT /1/web/{hosting}/ftp/{ftp}': apiResponse(FtpAccountSchema),
+
+  'GET /2/drive': list(KDriveSchema),
+  'GET /2/drive/{drive}': apiResponse(KDriveSchema),
+  'GET /2/drive/{drive}/activity': list(KDriveActivitySchema),
+  'GET /2/drive/{drive}/files': list(KDriveFileSchema),
+  // Before `files/{file}`, which would match them too
+  'GET /2/drive/{drive}/files/search': list(KDriveFileSchema),
+  'GET /2/drive/{drive}/files/trash': list(KDriveFileSchema),
+  'GET /2/drive/{drive}/files/favorites': list(KDriveFileSchema),
+  'POST /2/drive/{drive}/files/directories': apiResponse(KDriveFileSchema),
+  'POST /2/drive/{drive}/files/trash/{file}/restore': apiResponse(KDriveFileSchema),
+  'GET /2/drive/{drive}/files/{file}': apiResponse(KDriveFileSchema),
+  'GET /2/drive/{drive}/files/{file}/files': list(KDriveFileSchema),
+  'GET /2/drive/{drive}/files/{file}/versions': list(KDriveFileVersionSchema),
+  'GET /2/drive/{drive}/files/{file}/activity': list(KDriveActivitySchema),
+  'POST /2/drive/{drive}/files/{file}/move': apiResponse(KDriveFileSchema),
+  'POST /2/drive/{drive}/files/{file}/copy': apiResponse(KDriveFileSchema),
+  'POST /2/drive/{drive}/files/{file}/rename': apiResponse(KDriveFileSchema),
+  'POST /2/drive/{drive}/files/{file}/shareable_link': apiResponse(KDriveShareLinkSchema),
+
+  'GET /1/swiss_backup': list(SwissBackupSchema),
+  'GET /1/swiss_backup/{backup}': apiResponse(SwissBackupSchema),
+  'GET /1/swiss_backup/{backup}/slot': list(SwissBackupSlotSchema),
+  'GET /1/vps': list(VpsSchema),
+  'GET /1/vps/{vps}': apiResponse(VpsSchema),
+  'GET /1/dedicated': list(DedicatedServerSchema),
+  'GET /1/dedicated/{server}': apiResponse(DedicatedServerSchema),
+  'GET /1/certificate': list(SslCertificateSchema),
+  'GET /1/certificate/{certificate}': apiResponse(SslCertificateSchema),
+  'GET /1/invoicing/{account}/invoice/list': list(InvoiceSchema),
+  'GET /1/invoicing/{account}/invoice/{invoice}': apiResponse(InvoiceSchema),
+};
+
+export const KCHAT_RESPONSE_SCHEMAS: ResponseSchemas = {
+  'GET /users/me': KChatUserSchema,
+  'GET /users/search': z.array(KChatUserSchema),
+  'GET /users': z.array(KChatUserSchema),
+  'GET /users/me/teams': z.array(KChatTeamSchema),
+  'GET /users/me/teams/{team}/channels': z.array(KChatChannelSchema),
+  'GET /teams': z.array(KChatTeamSchema),
+  'GET /teams/{team}': KChatTeamSchema,
+  'GET /teams/{team}/channels': z.array(KChatChannelSchema),
+  'POST /teams/{team}/posts/search': KChatPostListSchema,
+  'GET /channels/{channel}': KChatChannelSchema,
+  'POST /channels/direct': KChatChannelSchema,
+  'GET /channels/{channel}/posts': KChatPostListSchema,
+  'POST /posts': KChatPostSchema,
+};
+
+interface Finding {
+  field: string;
+  kind: DriftKind;
+  detail?: string;
+}
+
+export class ResponseValidator {
+  private readonly routes: { endpoint: string; method: string; pattern: RegExp; schema: z.ZodTypeAny }[];
+  private readonly drift = new Map<string, ApiDrift>();
+
+  constructor(
+    private readonly service: FailedResponse['service'],
+    schemas: ResponseSchemas,
+    readonly mode: ValidationMode = 'lenient',
+  ) {
+    this.routes = Object.entries(schemas).map(([endpoint, schema]) => {
+      const [method, template] = endpoint.split(' ');
+      const pattern = new RegExp(`^${template.replace(/\{\w+\}/g, '[^/]+')}$`);
+      return { endpoint, method, pattern, schema };
+    });
+  }
+
+  /**
+   * Compare a response body with the schema of its endpoint, if it has one. Drift is
+   * recorded and logged the first time it is seen; in strict mode it also throws.
+   */
+  check(method: string, path: string, body: unknown, status?: number): void {
+    if (this.mode === 'off') return;
+    const route = this.routes.find((candidate) => candidate.method === method && candidate.pattern.test(path));
+    if (!route) return;
+
+    // One finding per field, however many items of a list show it
+    const findings = new Map<string, Finding>();
+    compare(route.schema, body, '', (finding) => findings.set(`${finding.kind} ${finding.field}`, finding));
+    if (findings.size === 0) return;
+
+    const now = new Date().toISOString();
+    for (const finding of findings.values()) {
+      const key = `${route.endpoint} ${finding.kind} ${finding.field}`;
+      const known = this.drift.get(key);
+      if (known) {
+        known.count++;
+        known.last_seen = now;
+        continue;
+      }
+      this.drift.set(key, { service: this.service, endpoint: route.endpoint, ...finding, count: 1, first_seen: now, last_seen: now });
+      if (this.mode === 'lenient') console.error(`API drift on ${this.service} ${route.endpoint}: ${describe(finding)}`);
+    }
+
+    if (this.mode === 'strict') {
+      const summary = [...findings.values()].map(describe).join('; ');
+      throw new UpstreamError(`Response of ${route.endpoint} does not match its schema: ${summary}`, {
+        status,
+        hint: 'the API changed — update the response schemas, or set MCP_RESPONSE_VALIDATION=lenient',
+      });
+    }
+  }
+
+  /**
+   * Drift observed so far, in the order it was first seen
+   */
+  report(): DriftReport {
+    return { validation: this.mode, drift: [...this.drift.values()].map((drift) => ({ ...drift })) };
+  }
+}
+
+/**
+ * Parse the `MCP_RESPONSE_VALIDATION` setting
+ */
+export function parseValidationMode(value: string | undefined): ValidationMode {
+  if (value === undefined || value === '') return 'lenient';
+  if (value === 'off' || value === 'lenient' || value === 'strict') return value;
+  throw new Error(`Invalid response validation mode "${value}": use off, lenient or strict`);
+}
+
+function describe({ field, kind, detail }: Finding): string {
+  const text = kind === 'missing' ? `${field} is missing` : kind === 'unexpected' ? `unexpected ${field}` : `${field} is invalid`;
+  return detail ? `${text} (${detail})` : text;
+}
+
+function compare(schema: z.ZodTypeAny, value: unknown, field: string, report: (finding: Finding) => void): void {
+  const label = field || '(body)';
+  if (value === undefined || value === null) {
+    if (!schema.safeParse(value).success) {
+      report({ field: label, kind: value === undefined ? 'missing' : 'invalid', detail: value === null ? 'null' : undefined });
+    }
+    return;
+  }
+
+  const inner = unwrap(schema);
+  if (inner instanceof z.ZodObject) {
+    if (!isRecord(value)) return report({ field: label, kind: 'invalid', detail: `expected object, received ${typeOf(value)}` });
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    for (const [key, child] of Object.entries(shape)) compare(child, value[key], join(field, key), report);
+    for (const key of Object.keys(value)) {
+      if (!(key in shape)) report({ field: join(field, key), kind: 'unexpected', detail: typeOf(value[key]) });
+    }
+  } else if (inner instanceof z.ZodArray) {
+    if (!Array.isArray(value)) return report({ field: label, kind: 'invalid', detail: `expected array, received ${typeOf(value)}` });
+    for (const item of value) compare(inner.element, item, `${field}[]`, report);
+  } else if (inner instanceof z.ZodRecord) {
+    if (!isRecord(value)) return report({ field: label, kind: 'invalid', detail: `expected object, received ${typeOf(value)}` });
+    for (const item of Object.values(value)) compare(inner.valueSchema, item, `${field}{}`, report);
+  } else {
+    const result = inner.safeParse(value);
+    if (!result.success) report({ field: label, kind: 'invalid', detail: result.error.issues[0]?.message });
+  }
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  return schema;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function join(field: string, key: string): string {
+  return field ? `${field}.${key}` : key;
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for the YAML reader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseYaml } from './yaml.js';
+
+describe('parseYaml', () => {
+  it('should read nested mappings and sequences', () => {
+    const yaml = [
+      '# DNS of example.com',
+      '---',
+      'domain: example.com',
+      'prune: false',
+      'records:',
+      '- source: "@"',
+      '  type: A',
+      '  target: 203.0.113.10 # web server',
+      '  ttl: 300',
+      '- source: www',
+      '  type: CNAME',
+      '  target: example.com.',
+      'tags:',
+      '  - dns',
+      '  -',
+      '    nested: ~',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      domain: 'example.com',
+      prune: false,
+      records: [
+        { source: '@', type: 'A', target: '203.0.113.10', ttl: 300 },
+        { source: 'www', type: 'CNAME', target: 'example.com.' },
+      ],
+      tags: ['dns', { nested: null }],
+    });
+  });
+
+  it('should read quoted and plain scalars with colons and hashes', () => {
+    const yaml = [
+      'spf: v=spf1 include:spf.infomaniak.ch -all',
+      'ipv6: 2001:db8::1',
+      'dkim: "v=DKIM1; p=abc#def"',
+      "quoted: 'it''s'",
+      'channel: #general',
+      'empty: []',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      spf: 'v=spf1 include:spf.infomaniak.ch -all',
+      ipv6: '2001:db8::1',
+      dkim: 'v=DKIM1; p=abc#def',
+      quoted: "it's",
+      channel: null,
+      empty: [],
+    });
+  });
+
+  it('should reject malformed documents with the line at fault', () => {
+    expect(() => parseYaml('records:\n  - a\n    b: c')).toThrow('Line 3: unexpected indentation');
+    expect(() => parseYaml('just text\nkey: value')).toThrow('Line 1: expected "key: value"');
+    expect(() => parseYaml("key: 'open")).toThrow('Line 1: unterminated quoted string');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * YAML Reader
+ *
+ * Reads the block subset of YAML used for configuration kept in git: nested
+ * mappings and sequences, plain, single- and double-quoted scalars, numbers,
+ * booleans, null and comments. Anchors, tags, multi-line scalars and flow
+ * collections other than JSON are not supported.
+ */
+
+import { ValidationError } from './errors.js';
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+/**
+ * Parse a YAML document
+ *
+ * @throws ValidationError when the document is malformed, with the line at fault
+ */
+export function parseYaml(text: string): unknown {
+  const lines: Line[] = [];
+  text.split('\n').forEach((raw, index) => {
+    const content = stripComment(raw).trimEnd();
+    if (content.trim() === '' || content === '---') return;
+    if (/^ *\t/.test(raw)) throw new ValidationError(`Line ${index + 1}: tabs cannot indent YAML`);
+    lines.push({ indent: content.search(/\S/), text: content.trim(), number: index + 1 });
+  });
+
+  const reader = new Reader(lines);
+  const value = reader.block(0);
+  const extra = reader.peek();
+  if (extra) throw new ValidationError(`Line ${extra.number}: unexpected indentation`);
+  return value;
+}
+
+class Reader {
+  private index = 0;
+
+  constructor(private readonly lines: Line[]) {}
+
+  peek(): Line | undefined {
+    return this.lines[this.index];
+  }
+
+  block(indent: number): unknown {
+    const line = this.peek();
+    if (!line || line.indent < indent) return null;
+    return isItem(line.text) ? this.sequence(line.indent) : this.mapping(line.indent);
+  }
+
+  private sequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (let line = this.peek(); line && line.indent === indent && isItem(line.text); line = this.peek()) {
+      const rest = line.text.slice(1).trim();
+      if (rest === '') {
+        this.index++;
+        items.push(this.block(indent + 1));
+      } else if (pair(rest)) {
+        // A mapping starting on the line of its dash, its keys aligned after the dash
+        const column = indent + line.text.indexOf(rest);
+        this.lines[this.index] = { ...line, indent: column, text: rest };
+        items.push(this.mapping(column));
+      } else {
+        this.index++;
+        items.push(scalar(rest, line.number));
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let line = this.peek(); line && line.indent === indent && !isItem(line.text); line = this.peek()) {
+      const match = pair(line.text);
+      if (!match) throw new ValidationError(`Line ${line.number}: expected "key: value"`);
+      this.index++;
+      const [, key, value] = match;
+      const next = this.peek();
+      if (value) {
+        result[unquote(key, line.number)] = scalar(value, line.number);
+      } else if (next && (next.indent > indent || (next.indent === indent && isItem(next.text)))) {
+        // Sequences under a key may start at the indentation of the key
+        result[unquote(key, line.number)] = this.block(next.indent);
+      } else {
+        result[unquote(key, line.number)] = null;
+      }
+    }
+    return result;
+  }
+}
+
+function isItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/** Key and value of a `key: value` line */
+function pair(text: string): RegExpExecArray | null {
+  return /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#][^:]*?)\s*:(?:\s+(.*))?$/.exec(text);
+}
+
+function scalar(text: string, line: number): unknown {
+  if (text.startsWith('"') || text.startsWith("'")) return unquote(text, line);
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ValidationError(`Line ${line}: only JSON flow collections are supported`);
+    }
+  }
+  if (text === 'null' || text === '~') return null;
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^[-+]?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+function unquote(text: string, line: number): string {
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) throw new ValidationError(`Line ${line}: unterminated quoted string`);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new ValidationError(`Line ${line}: invalid double-quoted string`);
+    }
+  }
+  return text;
+}
+
+/**
+ * Drop a comment, which starts with a `#` at the start of the line or after a blank, outside quotes
+ */
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') index++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      // Quotes only open a string at the start of a scalar
+      if (index === 0 || /[\s:\-[{,]/.test(line[index - 1])) quote = char;
+    } else if (char === '#' && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for zone file rendering and parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from './errors.js';
+import { DnsRecord } from './infomaniak-client.js';
+import { parseZoneFile, renderZoneFile, sameRecord } from './zone-file.js';
+
+const records: DnsRecord[] = [
+  { id: 1, source: 'www', type: 'CNAME', target: 'example.com.', ttl: 3600 },
+  { id: 2, source: '@', type: 'A', target: '203.0.113.10', ttl: 3600 },
+  { id: 3, source: '@', type: 'MX', target: 'mta-gw.infomaniak.ch.', ttl: 3600, priority: 5 },
+  { id: 4, source: '@', type: 'TXT', target: 'v=spf1 include:spf.infomaniak.ch -all', ttl: 300 },
+  { id: 5, source: '_sip._tcp', type: 'SRV', target: '10 5060 sip.example.com', ttl: 3600, priority: 20 },
+  { id: 6, source: '@', type: 'CAA', target: '0 issue "letsencrypt.org"', ttl: 3600 },
+];
+
+describe('renderZoneFile', () => {
+  it('should render records with $ORIGIN, $TTL and absolute hostnames', () => {
+    expect(renderZoneFile('example.com', records)).toBe(
+      [
+        '; Zone file of example.com, exported from Infomaniak',
+        '$ORIGIN example.com.',
+        '$TTL 3600',
+        '',
+        '@         3600 IN A     203.0.113.10',
+        '@         3600 IN CAA   0 issue "letsencrypt.org"',
+        '@         3600 IN MX    5 mta-gw.infomaniak.ch.',
+        '@         300  IN TXT   "v=spf1 include:spf.infomaniak.ch -all"',
+        '_sip._tcp 3600 IN SRV   20 10 5060 sip.example.com.',
+        'www       3600 IN CNAME example.com.',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should split long TXT values into quoted strings of 255 characters', () => {
+    const key = `v=DKIM1; k=rsa; p=${'A'.repeat(300)}`;
+
+    const zone = renderZoneFile('example.com', [{ id: 1, source: 'mail._domainkey', type: 'TXT', target: key, ttl: 3600 }]);
+
+    const strings = [...zone.matchAll(/"([^"]*)"/g)].map((match) => match[1]);
+    expect(strings.map((text) => text.length)).toEqual([255, key.length - 255]);
+    expect(strings.join('')).toBe(key);
+  });
+});
+
+describe('parseZoneFile', () => {
+  it('should parse records back from a rendered zone', () => {
+    const parsed = parseZoneFile(renderZoneFile('example.com', records), 'example.com');
+
+    expect(parsed.unsupported).toEqual([]);
+    expect(parsed.records).toHaveLength(records.length);
+    for (const record of records) {
+      expect(parsed.records.some((candidate) => sameRecord(candidate, record))).toBe(true);
+    }
+  });
+
+  it('should resolve names, inherit owners and apply TTL units', () => {
+    const zone = [
+      '$TTL 1h',
+      'example.com. IN SOA ns1.example.com. hostmaster.example.com. (',
+      '    2024010101 ; serial',
+      '    3600 900 604800 300 )',
+      '@ IN NS ns11.infomaniak.ch.',
+      'mail 300 IN A 198.51.100.1',
+      '     IN 600 AAAA 2001:db8::1',
+      '$ORIGIN shop.example.com.',
+      '@ CNAME shops.example.net.',
+      'api MX 10 mail.example.com.',
+      'txt TXT "part one, " "part two" ; joined',
+    ].join('\n');
+
+    const parsed = parseZoneFile(zone, 'example.com');
+
+    expect(parsed.records).toEqual([
+      { source: 'mail', type: 'A', target: '198.51.100.1', ttl: 300 },
+      { source: 'mail', type: 'AAAA', target: '2001:db8::1', ttl: 600 },
+      { source: 'shop', type: 'CNAME', target: 'shops.example.net.', ttl: 3600 },
+      { source: 'api.shop', type: 'MX', target: 'mail.example.com.', priority: 10, ttl: 3600 },
+      { source: 'txt.shop', type: 'TXT', target: 'part one, part two', ttl: 3600 },
+    ]);
+    expect(parsed.unsupported).toEqual([
+      expect.objectContaining({ line: 2, reason: 'the SOA record is managed by Infomaniak' }),
+      expect.objectContaining({ line: 5, reason: 'apex NS records follow the nameservers of the domain' }),
+    ]);
+  });
+
+  it('should split TXT values over 255 characters into quoted strings', () => {
+    const key = `v=DKIM1; k=rsa; p=${'A'.repeat(300)}`;
+    const zone = `mail._domainkey IN TXT ( "${key.slice(0, 200)}"\n  "${key.slice(200)}" )`;
+
+    const [record] = parseZoneFile(zone, 'example.com').records;
+
+    expect(record.target).toBe(`"${key.slice(0, 255)}" "${key.slice(255)}"`);
+    expect(renderZoneFile('example.com', [{ id: 1, ttl: 3600, ...record }])).toContain(record.target);
+  });
+
+  it('should report entries the API cannot hold', () => {
+    const zone = [
+      'host IN PTR other.example.com.',
+      'other.example.net. IN A 192.0.2.1',
+      'short 30 IN A 192.0.2.2',
+      '$INCLUDE extra.zone',
+    ].join('\n');
+
+    const { records: parsed, unsupported } = parseZoneFile(zone, 'example.com');
+
+    expect(parsed).toEqual([]);
+    expect(unsupported.map(({ line, reason }) => ({ line, reason }))).toEqual([
+      { line: 1, reason: 'PTR records are not supported' },
+      { line: 2, reason: 'other.example.net. is outside the zone example.com.' },
+      { line: 3, reason: 'ttl: Number must be greater than or equal to 60' },
+      { line: 4, reason: '$INCLUDE is not supported' },
+    ]);
+  });
+
+  it('should reject malformed zone files with the line at fault', () => {
+    expect(() => parseZoneFile('@ IN A 192.0.2.1\n@ IN MX mail', 'example.com')).toThrow(
+      new ValidationError('Line 2: MX record needs 2 data fields'),
+    );
+    expect(() => parseZoneFile('@ IN TXT "unterminated', 'example.com')).toThrow('Line 1: unterminated quoted string');
+    expect(() => parseZoneFile('@ IN SOA ns1 host ( 1 2', 'example.com')).toThrow('Line 1: unbalanced parentheses');
+  });
+});
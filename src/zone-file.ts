@@ -0,0 +1,363 @@
+/**
+ * BIND Zone Files
+ *
+ * Renders DNS records as an RFC 1035 zone file and parses zone files into
+ * records accepted by `createDnsRecord`. Hostname targets are absolute, with
+ * a trailing dot, as the API returns them. Entries the API cannot hold (SOA,
+ * apex NS, other record types, names outside the zone) are reported instead
+ * of being silently dropped.
+ */
+
+import { z } from 'zod';
+import { ValidationError } from './errors.js';
+import { DnsRecord } from './infomaniak-client.js';
+import { CreateDnsRecordSchema, DnsRecordTypeSchema } from './schemas.js';
+
+export type DnsRecordType = z.infer<typeof DnsRecordTypeSchema>;
+
+/**
+ * Record of a zone, with the fields of `createDnsRecord`
+ */
+export interface ZoneRecord {
+  source: string;
+  type: DnsRecordType;
+  target: string;
+  ttl?: number;
+  priority?: number;
+}
+
+/**
+ * Zone file entry that cannot be imported
+ */
+export interface SkippedEntry {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface ParsedZone {
+  records: ZoneRecord[];
+  unsupported: SkippedEntry[];
+}
+
+const DEFAULT_TTL = 3600;
+/** Longest character string of a TXT record */
+const MAX_TXT_STRING = 255;
+/** Record types whose target is, or ends with, a hostname */
+const HOSTNAME_TYPES = new Set(['CNAME', 'NS', 'MX', 'SRV']);
+const CLASSES = new Set(['IN', 'CH', 'HS', 'CS']);
+
+/**
+ * Render DNS records as a zone file, with `$ORIGIN` set to the domain and `$TTL` to the most common TTL
+ */
+export function renderZoneFile(domain: string, records: DnsRecord[]): string {
+  const origin = absolute(domain);
+  const defaultTtl = mostCommon(records.map((record) => record.ttl)) ?? DEFAULT_TTL;
+  const width = Math.max(1, ...records.map((record) => (record.source || '@').length));
+  const ttlWidth = Math.max(1, ...records.map((record) => String(record.ttl ?? defaultTtl).length));
+  const sorted = [...records].sort(
+    (a, b) => sourceOrder(a.source).localeCompare(sourceOrder(b.source)) || a.type.localeCompare(b.type),
+  );
+
+  return [
+    `; Zone file of ${domain}, exported from Infomaniak`,
+    `$ORIGIN ${origin}`,
+    `$TTL ${defaultTtl}`,
+    '',
+    ...sorted.map(
+      (record) =>
+        `${(record.source || '@').padEnd(width)} ${String(record.ttl ?? defaultTtl).padEnd(ttlWidth)} IN ${record.type.padEnd(5)} ${rdata(record)}`,
+    ),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Parse a zone file into records of the domain
+ *
+ * @throws ValidationError when the file is malformed, with the line at fault
+ */
+export function parseZoneFile(zone: string, domain: string): ParsedZone {
+  const zoneName = absolute(domain);
+  const lines = zone.split('\n');
+  const records: ZoneRecord[] = [];
+  const unsupported: SkippedEntry[] = [];
+  let origin = zoneName;
+  let defaultTtl: number | undefined;
+  let lastOwner: string | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = index + 1;
+    const first = lex(lines[index], line);
+    const tokens = first.tokens;
+    let open = first.open;
+    let text = lines[index].trim();
+    // Parentheses continue an entry over several lines
+    while (open > 0 && index + 1 < lines.length) {
+      const next = lex(lines[++index], index + 1);
+      tokens.push(...next.tokens);
+      open += next.open;
+      text += ` ${lines[index].trim()}`;
+    }
+    if (open !== 0) throw new ValidationError(`Line ${line}: unbalanced parentheses`);
+    if (tokens.length === 0) continue;
+
+    const skip = (reason: string) => unsupported.push({ line, text, reason });
+
+    if (!tokens[0].quoted && tokens[0].value.startsWith('$')) {
+      const directive = tokens[0].value.toUpperCase();
+      const argument = tokens[1]?.value;
+      if (directive === '$ORIGIN' && argument) {
+        origin = resolve(argument, origin);
+      } else if (directive === '$TTL' && argument) {
+        defaultTtl = parseTtl(argument, line);
+      } else {
+        skip(`${directive} is not supported`);
+      }
+      continue;
+    }
+
+    // Entries starting with a blank belong to the owner of the previous one
+    const owner = /^\s/.test(lines[line - 1]) ? lastOwner : resolve(tokens.shift()!.value, origin);
+    if (!owner) throw new ValidationError(`Line ${line}: the first record has no owner name`);
+    lastOwner = owner;
+
+    // TTL and class come in either order, both optional
+    let ttl: number | undefined;
+    let recordClass = 'IN';
+    for (let field = 0; field < 2 && tokens.length > 0; field++) {
+      const value = tokens[0].value.toUpperCase();
+      if (CLASSES.has(value)) recordClass = value;
+      else if (/^\d/.test(value)) ttl = parseTtl(value, line);
+      else break;
+      tokens.shift();
+    }
+
+    const type = tokens.shift()?.value.toUpperCase();
+    if (!type) throw new ValidationError(`Line ${line}: missing record type`);
+    const source = sourceOf(owner, zoneName);
+
+    if (recordClass !== 'IN') {
+      skip(`class ${recordClass} is not supported`);
+    } else if (source === undefined) {
+      skip(`${owner} is outside the zone ${zoneName}`);
+    } else if (type === 'SOA') {
+      skip('the SOA record is managed by Infomaniak');
+    } else if (type === 'NS' && source === '@') {
+      skip('apex NS records follow the nameservers of the domain');
+    } else if (!DnsRecordTypeSchema.safeParse(type).success) {
+      skip(`${type} records are not supported`);
+    } else {
+      const record = {
+        source,
+        ...recordData(type as DnsRecordType, tokens, origin, line),
+        ...((ttl ?? defaultTtl) !== undefined && { ttl: ttl ?? defaultTtl }),
+      };
+      const checked = CreateDnsRecordSchema.safeParse({ domain, ...record });
+      if (checked.success) records.push(record);
+      else skip(checked.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+    }
+  }
+
+  return { records, unsupported };
+}
+
+/**
+ * Whether two records hold the same data, regardless of their TTL
+ */
+export function sameRecord(a: ZoneRecord | DnsRecord, b: ZoneRecord | DnsRecord): boolean {
+  return (
+    (a.source || '@').toLowerCase() === (b.source || '@').toLowerCase() &&
+    a.type === b.type &&
+    normalizeTarget(a.type, a.target) === normalizeTarget(b.type, b.target) &&
+    (a.priority ?? 0) === (b.priority ?? 0)
+  );
+}
+
+/**
+ * Target in a form comparable across sources: hostnames lowercase, without the trailing dot
+ */
+export function normalizeTarget(type: string, target: string): string {
+  const trimmed = target.trim();
+  if (type === 'TXT') return txtStrings(trimmed).join('');
+  return HOSTNAME_TYPES.has(type) ? trimmed.toLowerCase().replace(/\.$/, '') : trimmed;
+}
+
+/**
+ * Character strings of a TXT target: the quoted strings of a split value, or the value itself
+ */
+export function txtStrings(target: string): string[] {
+  const trimmed = target.trim();
+  if (!/^"(?:[^"\\]|\\.)*"(?:\s+"(?:[^"\\]|\\.)*")*$/.test(trimmed)) return [target];
+  return [...trimmed.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((match) => match[1].replace(/\\(.)/g, '$1'));
+}
+
+/**
+ * TXT target holding a value, split into quoted strings of at most 255 characters when it is longer
+ */
+export function splitTxt(value: string): string {
+  return value.length <= MAX_TXT_STRING ? value : quoteTxt(value);
+}
+
+function recordData(
+  type: DnsRecordType,
+  tokens: Token[],
+  origin: string,
+  line: number,
+): Pick<ZoneRecord, 'type' | 'target' | 'priority'> {
+  const need = (count: number) => {
+    if (tokens.length < count) throw new ValidationError(`Line ${line}: ${type} record needs ${count} data fields`);
+    return tokens.map((token) => token.value);
+  };
+  const number = (value: string) => {
+    if (!/^\d+$/.test(value)) throw new ValidationError(`Line ${line}: expected a number, got "${value}"`);
+    return Number(value);
+  };
+
+  switch (type) {
+    case 'CNAME':
+    case 'NS':
+      return { type, target: resolve(need(1)[0], origin) };
+    case 'MX': {
+      const [priority, host] = need(2);
+      return { type, target: resolve(host, origin), priority: number(priority) };
+    }
+    case 'SRV': {
+      const [priority, weight, port, host] = need(4);
+      return { type, target: `${number(weight)} ${number(port)} ${resolve(host, origin)}`, priority: number(priority) };
+    }
+    case 'TXT':
+      // Character strings of a TXT record are concatenated, and split again when too long
+      return { type, target: splitTxt(need(1).join('')) };
+    case 'CAA': {
+      const [flags, tag, value] = need(3);
+      return { type, target: `${number(flags)} ${tag} "${value}"` };
+    }
+    default:
+      return { type, target: need(1)[0] };
+  }
+}
+
+function rdata(record: DnsRecord): string {
+  switch (record.type) {
+    case 'CNAME':
+    case 'NS':
+      return absolute(record.target);
+    case 'MX':
+      return `${record.priority ?? 0} ${absolute(record.target)}`;
+    case 'SRV': {
+      const parts = record.target.trim().split(/\s+/);
+      const host = parts.pop() ?? '';
+      return [record.priority ?? 0, ...parts, absolute(host)].join(' ');
+    }
+    case 'TXT':
+      return quoteTxt(record.target);
+    default:
+      return record.target;
+  }
+}
+
+/**
+ * Quote a TXT target, split into strings of at most 255 characters
+ */
+function quoteTxt(target: string): string {
+  const strings: string[] = [];
+  for (const value of txtStrings(target)) {
+    for (let start = 0; start === 0 || start < value.length; start += MAX_TXT_STRING) {
+      strings.push(value.slice(start, start + MAX_TXT_STRING));
+    }
+  }
+  return strings.map((text) => `"${text.replace(/[\\"]/g, '\\$&')}"`).join(' ');
+}
+
+interface Token {
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Split a line into tokens, dropping comments, and count the parentheses it leaves open
+ */
+function lex(text: string, line: number): { tokens: Token[]; open: number } {
+  const tokens: Token[] = [];
+  let open = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (char === ';') break;
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      open += char === '(' ? 1 : -1;
+      index++;
+    } else if (char === '"') {
+      let value = '';
+      index++;
+      while (index < text.length && text[index] !== '"') {
+        if (text[index] === '\\') {
+          // \DDD is a decimal character code, \X the character X
+          const code = text.slice(index + 1, index + 4);
+          value += /^\d{3}$/.test(code) ? String.fromCharCode(Number(code)) : (text[index + 1] ?? '');
+          index += /^\d{3}$/.test(code) ? 4 : 2;
+        } else {
+          value += text[index++];
+        }
+      }
+      if (index >= text.length) throw new ValidationError(`Line ${line}: unterminated quoted string`);
+      index++;
+      tokens.push({ value, quoted: true });
+    } else {
+      let value = '';
+      while (index < text.length && !/[\s;()"]/.test(text[index])) value += text[index++];
+      tokens.push({ value, quoted: false });
+    }
+  }
+
+  return { tokens, open };
+}
+
+/**
+ * Parse a TTL in seconds or in BIND units, e.g. `1h30m`
+ */
+function parseTtl(value: string, line: number): number {
+  if (/^\d+$/.test(value)) return Number(value);
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  const parts = [...value.toLowerCase().matchAll(/(\d+)([smhdw])/g)];
+  if (parts.length === 0 || parts.map((part) => part[0]).join('') !== value.toLowerCase()) {
+    throw new ValidationError(`Line ${line}: invalid TTL "${value}"`);
+  }
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+}
+
+/**
+ * Absolute form of a name relative to the origin
+ */
+function resolve(name: string, origin: string): string {
+  if (name === '@') return origin;
+  if (name.endsWith('.')) return name.toLowerCase();
+  return `${name}.${origin}`.toLowerCase();
+}
+
+/**
+ * Source of an absolute name within the zone: `@` for the apex, or undefined outside the zone
+ */
+function sourceOf(name: string, zone: string): string | undefined {
+  if (name === zone) return '@';
+  return name.endsWith(`.${zone}`) ? name.slice(0, -zone.length - 1) : undefined;
+}
+
+function absolute(name: string): string {
+  return name.endsWith('.') ? name : `${name}.`;
+}
+
+/** Apex first, then names in alphabetical order */
+function sourceOrder(source: string): string {
+  return source === '@' || source === '' ? '' : source;
+}
+
+function mostCommon(values: number[]): number | undefined {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}